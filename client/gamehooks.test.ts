@@ -0,0 +1,60 @@
+import { assertEquals } from "@std/assert";
+import { applyPredictions } from "./gamehooks.ts";
+import type { PredictMove } from "../types.ts";
+
+type TestMove = { add: number };
+type TestState = { value: number };
+
+const confirmed = {
+  version: 3,
+  playerState: { value: 1 },
+  publicState: { value: 1 },
+  outcome: undefined,
+  activePlayers: undefined,
+  clocks: undefined,
+};
+
+const predictMove: PredictMove<TestMove, TestState, TestState> = (
+  playerState,
+  publicState,
+  move,
+) =>
+  move.add < 0 ? undefined : {
+    playerState: { value: playerState.value + move.add },
+    publicState: { value: publicState.value + move.add },
+  };
+
+Deno.test("applyPredictions applies pending moves in order", () => {
+  const predicted = applyPredictions(
+    confirmed,
+    [
+      { sequence: 0, move: { add: 2 } },
+      { sequence: 1, move: { add: -5 } },
+      { sequence: 2, move: { add: 3 } },
+    ],
+    predictMove,
+  );
+
+  assertEquals(predicted, {
+    version: 3,
+    playerState: { value: 6 },
+    publicState: { value: 6 },
+    outcome: undefined,
+    activePlayers: undefined,
+    clocks: undefined,
+  });
+});
+
+Deno.test("applyPredictions returns the confirmed state without predictMove", () => {
+  const pendingMoves = [{ sequence: 0, move: { add: 2 } }];
+
+  assertEquals(applyPredictions(confirmed, pendingMoves, undefined), confirmed);
+  assertEquals(
+    applyPredictions(
+      { ...confirmed, outcome: "done" },
+      pendingMoves,
+      predictMove,
+    ),
+    { ...confirmed, outcome: "done" },
+  );
+});
@@ -1,46 +1,242 @@
-import { useCallback, useState } from "preact/hooks";
+import { useCallback, useRef, useState } from "preact/hooks";
 import { useSocket } from "../client/hookutils.ts";
+import { applyPatch } from "../common/jsonpatch.ts";
 import type {
   GameSocketRequest,
   GameSocketResponse,
 } from "../common/sockettypes.ts";
-import type { GameProps, GameViewProps } from "../types.ts";
+import type {
+  ChatChannel,
+  ChatMessage,
+  GameProps,
+  GameViewProps,
+  MoveRejection,
+  PlayerPresence,
+  PredictMove,
+  TurnClocks,
+} from "../types.ts";
+
+type VersionedGameState<PlayerState, PublicState, Outcome> = {
+  version: number;
+  playerState: PlayerState | undefined;
+  publicState: PublicState;
+  outcome: Outcome | undefined;
+  activePlayers: number[] | undefined;
+  clocks: TurnClocks | undefined;
+};
+
+// The error that `perform` rejects with when the server rejects a move
+export class MoveRejectedError extends Error {
+  constructor(public rejection: MoveRejection) {
+    super(rejection.message ?? `Move rejected: ${rejection.reason}`);
+    this.name = "MoveRejectedError";
+  }
+}
+
+type MoveResponseHandlers = {
+  resolve: () => void;
+  reject: (error: Error) => void;
+};
+
+type PendingMove<Move> = {
+  sequence: number;
+  move: Move;
+};
+
+// Applies the predicted result of each pending move to the confirmed state.
+// Moves that can't be predicted are skipped.
+export function applyPredictions<Move, PlayerState, PublicState, Outcome>(
+  confirmed: VersionedGameState<PlayerState, PublicState, Outcome>,
+  pendingMoves: PendingMove<Move>[],
+  predictMove: PredictMove<Move, PlayerState, PublicState> | undefined,
+): VersionedGameState<PlayerState, PublicState, Outcome> {
+  if (predictMove == null || confirmed.outcome !== undefined) {
+    return confirmed;
+  }
+
+  let predicted = confirmed;
+  for (const { move } of pendingMoves) {
+    if (predicted.playerState === undefined) {
+      break;
+    }
+    const result = predictMove(
+      predicted.playerState,
+      predicted.publicState,
+      move,
+    );
+    if (result != null) {
+      predicted = { ...predicted, ...result };
+    }
+  }
+  return predicted;
+}
 
 // Opens an auto-reconnecting WebSocket to a given Game URL.
 // Returns an always up-to-date view of the game and optionally a move handler.
 // Closes the socket if the game completes.
+// If `predictMove` is provided, moves are shown immediately and then confirmed
+// or rolled back once the server has processed them.
+// `onTokenRevoked` is called instead of reconnecting if the user's token is
+// revoked.
 export function useGameSocket<Move, PlayerState, PublicState, Outcome>(
   socketUrl: string,
   initialGameProps: GameProps<PlayerState, PublicState, Outcome>,
+  options: {
+    predictMove?: PredictMove<Move, PlayerState, PublicState>;
+    onTokenRevoked?: () => void;
+  } = {},
 ): GameViewProps<Move, PlayerState, PublicState, Outcome> {
+  const predictMove = options.predictMove;
   const playerId = initialGameProps.playerId;
   const players = initialGameProps.players;
-  const [playerState, setPlayerState] = useState<PlayerState | undefined>(
-    initialGameProps.playerState,
+  const [gameState, setGameState] = useState<
+    VersionedGameState<PlayerState, PublicState, Outcome>
+  >({
+    version: initialGameProps.version,
+    playerState: initialGameProps.playerState,
+    publicState: initialGameProps.publicState,
+    outcome: initialGameProps.outcome,
+    activePlayers: initialGameProps.activePlayers,
+    clocks: initialGameProps.clocks,
+  });
+  // The latest state confirmed by the server, which patches are applied to.
+  // gameState also includes predictions for pendingMoves.
+  const gameStateRef = useRef(gameState);
+  const pendingMovesRef = useRef<PendingMove<Move>[]>([]);
+  const nextMoveSequenceRef = useRef(0);
+  // Settles the promise returned by perform once the server responds
+  const moveResponseHandlersRef = useRef(
+    new Map<string, MoveResponseHandlers>(),
   );
-  const [publicState, setPublicState] = useState<PublicState>(
-    initialGameProps.publicState,
-  );
-  const [outcome, setOutcome] = useState<Outcome | undefined>(
-    initialGameProps.outcome,
+  // Set once the game completes, so the socket closes once every move has
+  // been accepted or rejected
+  const isCompleteRef = useRef(false);
+  const [presence, setPresence] = useState<PlayerPresence[]>(
+    initialGameProps.presence,
   );
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+
+  function showPredictedState() {
+    setGameState(
+      applyPredictions(
+        gameStateRef.current,
+        pendingMovesRef.current,
+        predictMove,
+      ),
+    );
+  }
 
   function onMessage(
     response: GameSocketResponse<PlayerState, PublicState, Outcome>,
     close: () => void,
   ) {
+    // The server sends the state a move produced before accepting it, so the
+    // socket is kept open for the responses to moves that completed the game
+    function closeIfComplete() {
+      if (
+        isCompleteRef.current && moveResponseHandlersRef.current.size === 0
+      ) {
+        close();
+      }
+    }
+
+    function updateGameState(
+      newGameState: VersionedGameState<PlayerState, PublicState, Outcome>,
+      moveSequence: number | undefined,
+    ) {
+      gameStateRef.current = newGameState;
+      // Moves up to moveSequence are reflected in the new state
+      if (moveSequence !== undefined) {
+        pendingMovesRef.current = pendingMovesRef.current.filter((pending) =>
+          pending.sequence > moveSequence
+        );
+      }
+      showPredictedState();
+      if (newGameState.outcome !== undefined) {
+        isCompleteRef.current = true;
+        closeIfComplete();
+      }
+    }
+
     switch (response.type) {
       case "UpdateGameState":
-        setOutcome(response.outcome);
-        setPublicState(response.publicState);
-        setPlayerState(response.playerState);
-        if (response.outcome !== undefined) {
-          close();
+        updateGameState({
+          version: response.version,
+          playerState: response.playerState,
+          publicState: response.publicState,
+          outcome: response.outcome,
+          activePlayers: response.activePlayers,
+          clocks: response.clocks,
+        }, response.moveSequence);
+        break;
+      case "PatchGameState": {
+        const {
+          version,
+          playerState,
+          publicState,
+          outcome,
+          activePlayers,
+          clocks,
+        } = gameStateRef.current;
+        // A patch was missed, so the whole state is needed
+        if (response.baseVersion !== version) {
+          send({ type: "RequestResync" });
+          break;
         }
+        const patched = applyPatch<
+          Omit<VersionedGameState<PlayerState, PublicState, Outcome>, "version">
+        >(
+          { playerState, publicState, outcome, activePlayers, clocks },
+          response.patch,
+        );
+        updateGameState(
+          { version: response.version, ...patched },
+          response.moveSequence,
+        );
+        break;
+      }
+      case "MoveAccepted":
+        moveResponseHandlersRef.current.get(response.id)?.resolve();
+        moveResponseHandlersRef.current.delete(response.id);
+        closeIfComplete();
+        break;
+      case "MoveRejected":
+        moveResponseHandlersRef.current.get(response.id)?.reject(
+          new MoveRejectedError(response.rejection),
+        );
+        moveResponseHandlersRef.current.delete(response.id);
+        closeIfComplete();
+        break;
+      case "UpdatePresence":
+        setPresence(response.presence);
+        break;
+      case "ChatHistory":
+        setChatMessages(response.messages);
+        break;
+      case "NewChatMessages":
+        setChatMessages((messages) => {
+          const ids = new Set(messages.map((message) => message.id));
+          const newMessages = response.messages.filter((message) =>
+            !ids.has(message.id)
+          );
+          return [...messages, ...newMessages];
+        });
         break;
     }
   }
 
+  // Moves sent on a closed socket may never be processed, so drop their
+  // predictions
+  function onClose() {
+    pendingMovesRef.current = [];
+    showPredictedState();
+
+    for (const { reject } of moveResponseHandlersRef.current.values()) {
+      reject(new Error("Socket closed before the move was acknowledged"));
+    }
+    moveResponseHandlersRef.current.clear();
+  }
+
   const send = useSocket<
     GameSocketRequest<Move, PlayerState, PublicState>,
     GameSocketResponse<PlayerState, PublicState, Outcome>
@@ -49,27 +245,77 @@ export function useGameSocket<Move, PlayerState, PublicState, Outcome>(
     () => new WebSocket(socketUrl),
     {
       type: "Initialize",
-      currentPublicState: publicState,
-      currentPlayerState: playerState,
+      currentVersion: gameState.version,
+      currentPublicState: gameState.publicState,
+      currentPlayerState: gameState.playerState,
     },
     onMessage,
+    onClose,
+    options.onTokenRevoked,
   );
 
-  const performCallback = useCallback((move: Move) => {
+  const performCallback = useCallback((move: Move): Promise<void> => {
+    const id = crypto.randomUUID();
     const request: GameSocketRequest<Move, PlayerState, PublicState> = {
       type: "Move",
+      id,
       move,
     };
-    send(request);
-  }, [send]);
+    if (predictMove != null) {
+      const sequence = nextMoveSequenceRef.current++;
+      request.sequence = sequence;
+      pendingMovesRef.current = [...pendingMovesRef.current, {
+        sequence,
+        move,
+      }];
+      showPredictedState();
+    }
+    const response = new Promise<void>((resolve, reject) => {
+      moveResponseHandlersRef.current.set(id, { resolve, reject });
+    });
+    // The move is dropped while the socket is reconnecting or once the game
+    // has completed, so its prediction is too
+    if (!send(request)) {
+      pendingMovesRef.current = pendingMovesRef.current.filter((pending) =>
+        pending.sequence !== request.sequence
+      );
+      showPredictedState();
+      moveResponseHandlersRef.current.get(id)?.reject(
+        new Error("Socket isn't open"),
+      );
+      moveResponseHandlersRef.current.delete(id);
+    }
+    return response;
+  }, [send, predictMove]);
   const perform = playerId == null ? undefined : performCallback;
 
+  const resignCallback = useCallback(() => {
+    send({ type: "Resign" });
+  }, [send]);
+  const resign = playerId == null ? undefined : resignCallback;
+
+  // Observers default to the public channel, and players to the players channel
+  const sendChat = useCallback((text: string, channel?: ChatChannel) => {
+    send({
+      type: "SendChat",
+      channel: channel ?? (playerId == null ? "public" : "players"),
+      text,
+    });
+  }, [send, playerId]);
+
   return {
     players: players,
-    publicState: publicState,
+    presence: presence,
+    version: gameState.version,
+    activePlayers: gameState.activePlayers,
+    clocks: gameState.clocks,
+    publicState: gameState.publicState,
     playerId: initialGameProps.playerId,
-    playerState: playerState,
+    playerState: gameState.playerState,
     perform,
-    outcome: outcome,
+    resign,
+    outcome: gameState.outcome,
+    chatMessages,
+    sendChat,
   } as GameViewProps<Move, PlayerState, PublicState, Outcome>;
 }
@@ -96,6 +96,41 @@ Deno.test("useSocket sends initializeMessage when socket opens", () => {
   assertEquals(mockSocket.send.calls[0].args[0], JSON.stringify(initMessage));
 });
 
+Deno.test("useSocket only sends requests while the socket is open", () => {
+  const mockSocket = {
+    addEventListener: spy(),
+    close: spy(),
+    send: spy(),
+  };
+
+  const mockCreateSocket = spy(() => mockSocket);
+  const onUpdate = spy();
+
+  const { result, unmount } = renderHook(() =>
+    useSocket<{ action: string } | null, unknown>(
+      true,
+      mockCreateSocket,
+      null,
+      onUpdate,
+    )
+  );
+  const [openHandler, , closeHandler] = mockSocket.addEventListener.calls.map(
+    (call) => call.args[1],
+  );
+
+  // Not yet open
+  assertEquals(result.current({ action: "early" }), false);
+
+  openHandler();
+  assertEquals(result.current({ action: "open" }), true);
+  assertSpyCalls(mockSocket.send, 1);
+
+  unmount();
+  closeHandler(new MessageEvent("close"));
+  assertEquals(result.current({ action: "closed" }), false);
+  assertSpyCalls(mockSocket.send, 1);
+});
+
 Deno.test("useSocket cleans up on unmount", () => {
   // Mock objects and functions - create new ones for each test
   const mockSocket = {
@@ -235,3 +270,35 @@ Deno.test("useSocket implements exponential backoff on reconnection", () => {
   assertEquals(reconnectLogs[1].includes("attempt 2"), true);
   assertEquals(reconnectLogs[2].includes("attempt 3"), true);
 });
+
+Deno.test("useSocket stops reconnecting once its token is revoked", () => {
+  using fakeTime = new FakeTime();
+
+  const mockSocket = {
+    addEventListener: spy(),
+    close: spy(),
+    send: spy(),
+  };
+
+  const mockCreateSocket = spy(() => mockSocket);
+  const onUpdate = spy();
+  const onTokenRevoked = spy();
+
+  renderHook(() =>
+    useSocket(
+      true,
+      mockCreateSocket,
+      null,
+      onUpdate,
+      undefined,
+      onTokenRevoked,
+    )
+  );
+  const closeHandler = mockSocket.addEventListener.calls[2].args[1];
+
+  closeHandler(new CloseEvent("close", { code: 4001 }));
+  fakeTime.tick(60000);
+
+  assertSpyCalls(onTokenRevoked, 1);
+  assertSpyCalls(mockCreateSocket, 1);
+});
@@ -1,4 +1,5 @@
 import { useEffect, useRef } from "preact/hooks";
+import { tokenRevokedCloseCode } from "../common/sockettypes.ts";
 
 export interface Socket {
   addEventListener: (
@@ -12,14 +13,19 @@ export interface Socket {
 // Hook that opens and manages a WebSocket connection to `socketUrl`, and calls `onUpdate` for JSON messages
 // Automatically reconnects on close with exponential backoff. Whenever a socket opens
 // it will send `initializeMessage,` if provided.
+// Returns a function that sends a request, returning false if the socket isn't open.
+// If the server closes the socket because its token was revoked, it calls
+// `onTokenRevoked` instead of reconnecting.
 export function useSocket<Req, Res>(
   shouldOpen: boolean,
   createSocket: () => Socket,
   initializeMessage: Req,
   onMessage: (res: Res, close: () => void) => void,
   onClose?: () => void,
-): (request: Req) => void {
+  onTokenRevoked?: () => void,
+): (request: Req) => boolean {
   const ws = useRef<Socket | null>(null);
+  const isOpen = useRef(false);
   const closedIntentionally = useRef(false);
   const reconnectAttempt = useRef(0);
   const maxReconnectDelay = 30000; // Maximum delay in ms (30 seconds)
@@ -34,6 +40,7 @@ export function useSocket<Req, Res>(
 
     ws.current.addEventListener("open", () => {
       console.log("WebSocket opened");
+      isOpen.current = true;
       reconnectAttempt.current = 0; // Reset attempt counter on successful connection
       if (initializeMessage != null) {
         ws.current?.send(JSON.stringify(initializeMessage));
@@ -43,12 +50,19 @@ export function useSocket<Req, Res>(
       const newValue = JSON.parse(event.data);
       onMessage(newValue, close);
     });
-    ws.current.addEventListener("close", () => {
+    ws.current.addEventListener("close", (event) => {
+      isOpen.current = false;
       onClose?.();
       console.log("WebSocket closed");
       if (closedIntentionally.current) {
         return;
       }
+      // Reconnecting with the same token would be refused
+      if ("code" in event && event.code === tokenRevokedCloseCode) {
+        closedIntentionally.current = true;
+        onTokenRevoked?.();
+        return;
+      }
 
       // Calculate delay with exponential backoff
       const delay = Math.min(
@@ -78,6 +92,10 @@ export function useSocket<Req, Res>(
   }, []);
 
   return (request: Req) => {
-    ws.current?.send(JSON.stringify(request));
+    if (!isOpen.current || ws.current == null) {
+      return false;
+    }
+    ws.current.send(JSON.stringify(request));
+    return true;
   };
 }
@@ -4,16 +4,38 @@ import type {
   LobbySocketRequest,
   LobbySocketResponse,
 } from "../common/sockettypes.ts";
-import type { LobbyProps, LobbyViewProps } from "../types.ts";
+import type {
+  LobbyMessage,
+  LobbyProps,
+  LobbyViewProps,
+  UserCompletedGame,
+} from "../types.ts";
 
-export function useLobbySocket({ socketUrl, initialLobbyProps, navigate }: {
-  socketUrl: string;
-  initialLobbyProps: LobbyProps;
-  navigate: (gameId: string) => void;
-}): LobbyViewProps {
+// `onTokenRevoked` is called when the user's token is revoked, such as when
+// they log out on another device, so the app can clear it and sign in again
+export function useLobbySocket(
+  { socketUrl, initialLobbyProps, navigate, onTokenRevoked }: {
+    socketUrl: string;
+    initialLobbyProps: LobbyProps;
+    navigate: (gameId: string) => void;
+    onTokenRevoked?: () => void;
+  },
+): LobbyViewProps {
   const [activeGames, setActiveGames] = useState(initialLobbyProps.activeGames);
+  const [userGames, setUserGames] = useState(initialLobbyProps.userGames);
   const [user, setUser] = useState(initialLobbyProps.user);
   const [isQueued, setIsQueued] = useState(false);
+  const [inviteCode, setInviteCode] = useState<string | undefined>(undefined);
+  const [invalidInviteCode, setInvalidInviteCode] = useState<
+    string | undefined
+  >(undefined);
+  const [lobbyMessages, setLobbyMessages] = useState<LobbyMessage[]>([]);
+  const [completedGames, setCompletedGames] = useState<
+    UserCompletedGame<unknown>[] | undefined
+  >(undefined);
+  const [completedGamesCursor, setCompletedGamesCursor] = useState<
+    string | undefined
+  >(undefined);
 
   function onUpdate(response: LobbySocketResponse) {
     switch (response.type) {
@@ -23,28 +45,70 @@ export function useLobbySocket({ socketUrl, initialLobbyProps, navigate }: {
       case "QueueLeft":
         setIsQueued(false);
         break;
+      case "InviteJoined":
+        setInviteCode(response.inviteCode);
+        setInvalidInviteCode(undefined);
+        break;
+      case "InviteLeft":
+        setInviteCode(undefined);
+        break;
+      case "InviteNotFound":
+        setInvalidInviteCode(response.inviteCode);
+        break;
       case "UpdateActiveGames":
         setActiveGames(response.activeGames);
         break;
+      case "ActiveGameUpdated":
+        setActiveGames((games) =>
+          games.some((game) => game.gameId === response.activeGame.gameId)
+            ? games.map((game) =>
+              game.gameId === response.activeGame.gameId
+                ? response.activeGame
+                : game
+            )
+            : [...games, response.activeGame]
+        );
+        break;
+      case "ActiveGameRemoved":
+        setActiveGames((games) =>
+          games.filter((game) => game.gameId !== response.gameId)
+        );
+        break;
+      case "UpdateUserGames":
+        setUserGames(response.userGames);
+        break;
       case "GameAssignment":
         navigate(response.gameId);
         break;
       case "UserUpdated":
         setUser(response.user);
         break;
+      case "UpdateLobbyMessages":
+        setLobbyMessages(response.lobbyMessages);
+        break;
+      case "CompletedGamesPage":
+        setCompletedGames((games) =>
+          response.append
+            ? [...(games ?? []), ...response.games]
+            : response.games
+        );
+        setCompletedGamesCursor(response.cursor);
+        break;
     }
   }
 
   function onClose() {
     setIsQueued(false);
+    setInviteCode(undefined);
   }
 
   const send = useSocket<LobbySocketRequest, LobbySocketResponse>(
     true,
     () => new WebSocket(socketUrl),
-    { type: "Initialize", activeGames },
+    { type: "Initialize", activeGames, userGames },
     onUpdate,
     onClose,
+    onTokenRevoked,
   );
 
   const joinQueue = useCallback(
@@ -58,9 +122,59 @@ export function useLobbySocket({ socketUrl, initialLobbyProps, navigate }: {
     send({ type: "LeaveQueue" });
   }, [send]);
 
+  const createInvite = useCallback(
+    (modeId: string) => {
+      send({ type: "CreateInvite", modeId });
+    },
+    [send],
+  );
+
+  const joinInvite = useCallback(
+    (inviteCode: string) => {
+      send({ type: "JoinInvite", inviteCode });
+    },
+    [send],
+  );
+
+  const cancelInvite = useCallback(() => {
+    send({ type: "CancelInvite" });
+  }, [send]);
+
   const updateUsername = useCallback((username: string) => {
     send({ type: "UpdateUsername", username });
   }, [send]);
 
-  return { activeGames, user, joinQueue, isQueued, leaveQueue, updateUsername };
+  const sendLobbyMessage = useCallback((text: string) => {
+    send({ type: "SendLobbyMessage", text });
+  }, [send]);
+
+  const loadCompletedGames = useCallback(() => {
+    send({
+      type: "ListCompletedGames",
+      cursor: completedGames === undefined ? undefined : completedGamesCursor,
+    });
+  }, [send, completedGames, completedGamesCursor]);
+
+  return {
+    activeGames,
+    userGames,
+    user,
+    ratings: initialLobbyProps.ratings,
+    stats: initialLobbyProps.stats,
+    leaderboards: initialLobbyProps.leaderboards,
+    joinQueue,
+    isQueued,
+    leaveQueue,
+    createInvite,
+    joinInvite,
+    cancelInvite,
+    inviteCode,
+    invalidInviteCode,
+    updateUsername,
+    lobbyMessages,
+    sendLobbyMessage,
+    completedGames,
+    hasMoreCompletedGames: completedGamesCursor !== undefined,
+    loadCompletedGames,
+  };
 }
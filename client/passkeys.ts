@@ -0,0 +1,67 @@
+import type {
+  PasskeyLoginOptions,
+  PasskeyLoginResponse,
+  PasskeyRegistrationOptions,
+  PasskeyRegistrationResponse,
+} from "../types.ts";
+import { decodeBase64Url, encodeBase64Url } from "../common/base64url.ts";
+
+// Creates a passkey with the options from the server's
+// getPasskeyRegistrationOptions, returning the response for
+// registerWithPasskey
+export async function createPasskey(
+  options: PasskeyRegistrationOptions,
+): Promise<PasskeyRegistrationResponse> {
+  const credential = await navigator.credentials.create({
+    publicKey: {
+      challenge: decodeBase64Url(options.challenge),
+      rp: { id: options.rpId, name: options.rpName },
+      user: {
+        id: decodeBase64Url(options.userHandle),
+        name: options.username,
+        displayName: options.username,
+      },
+      pubKeyCredParams: options.algorithms.map((alg) => ({
+        type: "public-key",
+        alg,
+      })),
+      authenticatorSelection: { residentKey: "required" },
+    },
+  }) as PublicKeyCredential | null;
+  if (credential == null) {
+    throw new Error("No passkey was created");
+  }
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: credential.id,
+    clientDataJSON: encodeBase64Url(new Uint8Array(response.clientDataJSON)),
+    attestationObject: encodeBase64Url(
+      new Uint8Array(response.attestationObject),
+    ),
+  };
+}
+
+// Signs in with a passkey using the options from the server's
+// getPasskeyLoginOptions, returning the response for loginWithPasskey
+export async function getPasskey(
+  options: PasskeyLoginOptions,
+): Promise<PasskeyLoginResponse> {
+  const credential = await navigator.credentials.get({
+    publicKey: {
+      challenge: decodeBase64Url(options.challenge),
+      rpId: options.rpId,
+    },
+  }) as PublicKeyCredential | null;
+  if (credential == null) {
+    throw new Error("No passkey was chosen");
+  }
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    clientDataJSON: encodeBase64Url(new Uint8Array(response.clientDataJSON)),
+    authenticatorData: encodeBase64Url(
+      new Uint8Array(response.authenticatorData),
+    ),
+    signature: encodeBase64Url(new Uint8Array(response.signature)),
+  };
+}
@@ -0,0 +1,95 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { applyPatch, createPatch } from "./jsonpatch.ts";
+
+Deno.test("createPatch produces operations that applyPatch reverses", () => {
+  const before = {
+    board: [[0, 1], [1, 0]],
+    scores: { a: 1, b: 2 },
+    log: ["start", "move"],
+    removed: true,
+  };
+  const after = {
+    board: [[0, 1], [1, 1]],
+    scores: { a: 1, b: 3, "c/d~e": 0 },
+    log: ["start"],
+  };
+
+  const patch = createPatch(before, after);
+  assertEquals(patch, [
+    { op: "replace", path: "/board/1/1", value: 1 },
+    { op: "replace", path: "/scores/b", value: 3 },
+    { op: "add", path: "/scores/c~1d~0e", value: 0 },
+    { op: "remove", path: "/log/1" },
+    { op: "remove", path: "/removed" },
+  ]);
+  assertEquals(applyPatch(before, patch), after);
+  // The original document is not modified
+  assertEquals(before.board[1][1], 0);
+});
+
+Deno.test("createPatch returns no operations for equal documents", () => {
+  assertEquals(createPatch({ a: [1, 2] }, { a: [1, 2] }), []);
+});
+
+Deno.test("createPatch treats undefined properties as missing", () => {
+  const before = { outcome: undefined, value: 1 };
+  const after = { outcome: "done", value: 1 };
+
+  const patch = createPatch(before, after);
+  assertEquals(patch, [{ op: "add", path: "/outcome", value: "done" }]);
+  assertEquals(applyPatch(before, patch), after);
+});
+
+Deno.test("applyPatch handles array growth and root replacement", () => {
+  assertEquals(
+    applyPatch([1], createPatch([1], [1, 2, 3])),
+    [1, 2, 3],
+  );
+  assertEquals(applyPatch({ a: 1 }, createPatch({ a: 1 }, 5)), 5);
+});
+
+Deno.test("applyPatch throws on invalid paths", () => {
+  assertThrows(() =>
+    applyPatch({ a: 1 }, [{ op: "replace", path: "/b/c", value: 1 }])
+  );
+});
+
+Deno.test("createPatch and applyPatch only use an object's own keys", () => {
+  const before = { names: { constructor: 1, toString: 2 } };
+  const after = { names: { valueOf: 3 } };
+
+  const patch = createPatch(before, after);
+  assertEquals(patch, [
+    { op: "remove", path: "/names/constructor" },
+    { op: "remove", path: "/names/toString" },
+    { op: "add", path: "/names/valueOf", value: 3 },
+  ]);
+  assertEquals(applyPatch(before, patch), after);
+  assertThrows(() =>
+    applyPatch({}, [{ op: "add", path: "/constructor/name", value: 1 }])
+  );
+});
+
+Deno.test("applyPatch rejects __proto__ paths", () => {
+  assertThrows(() =>
+    applyPatch({}, [{ op: "add", path: "/__proto__", value: { a: 1 } }])
+  );
+  assertThrows(() =>
+    applyPatch({}, [{
+      op: "add",
+      path: "/__proto__/polluted",
+      value: true,
+    }])
+  );
+  assertEquals(({} as Record<string, unknown>).polluted, undefined);
+
+  // Objects with a __proto__ key are replaced whole instead
+  const before = JSON.parse('{"names": {"__proto__": 1}}');
+  const after = JSON.parse('{"names": {"__proto__": 2}}');
+  const patch = createPatch(before, after);
+  assertEquals(patch, [{ op: "replace", path: "/names", value: after.names }]);
+  assertEquals(
+    JSON.stringify(applyPatch(before, patch)),
+    JSON.stringify(after),
+  );
+});
@@ -0,0 +1,166 @@
+// A subset of JSON Patch (RFC 6902) operations, which is all that createPatch
+// produces.
+export type JsonPatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: unknown };
+
+type JsonObject = { [key: string]: unknown };
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function escapePathSegment(segment: string): string {
+  return segment.replaceAll("~", "~0").replaceAll("/", "~1");
+}
+
+function unescapePathSegment(segment: string): string {
+  return segment.replaceAll("~1", "/").replaceAll("~0", "~");
+}
+
+// Normalizes a value the same way JSON.stringify would, so that undefined
+// object properties are treated as missing.
+function toJson(value: unknown): unknown {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+// Returns the operations needed to turn `before` into `after`. Both values
+// must be JSON-serializable.
+export function createPatch(
+  before: unknown,
+  after: unknown,
+): JsonPatchOperation[] {
+  const operations: JsonPatchOperation[] = [];
+  diff(toJson(before), toJson(after), "", operations);
+  return operations;
+}
+
+function diff(
+  before: unknown,
+  after: unknown,
+  path: string,
+  operations: JsonPatchOperation[],
+) {
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return;
+  }
+
+  // Paths never include "__proto__", which applyPatch rejects, so objects with
+  // that key are replaced whole
+  if (
+    isObject(before) && isObject(after) &&
+    !Object.hasOwn(before, "__proto__") &&
+    !Object.hasOwn(after, "__proto__")
+  ) {
+    for (const key of Object.keys(before)) {
+      const childPath = `${path}/${escapePathSegment(key)}`;
+      if (!Object.hasOwn(after, key)) {
+        operations.push({ op: "remove", path: childPath });
+      } else {
+        diff(before[key], after[key], childPath, operations);
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if (!Object.hasOwn(before, key)) {
+        const childPath = `${path}/${escapePathSegment(key)}`;
+        operations.push({ op: "add", path: childPath, value: after[key] });
+      }
+    }
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const commonLength = Math.min(before.length, after.length);
+    for (let i = 0; i < commonLength; i++) {
+      diff(before[i], after[i], `${path}/${i}`, operations);
+    }
+    // Remove from the end so that earlier indices stay valid
+    for (let i = before.length - 1; i >= after.length; i--) {
+      operations.push({ op: "remove", path: `${path}/${i}` });
+    }
+    for (let i = before.length; i < after.length; i++) {
+      operations.push({ op: "add", path: `${path}/${i}`, value: after[i] });
+    }
+    return;
+  }
+
+  if (after === undefined) {
+    operations.push({ op: "remove", path });
+  } else if (before === undefined) {
+    operations.push({ op: "add", path, value: after });
+  } else {
+    operations.push({ op: "replace", path, value: after });
+  }
+}
+
+// Applies the operations to a copy of `document` and returns the result. The
+// original document is not modified.
+export function applyPatch<T = unknown>(
+  document: unknown,
+  operations: JsonPatchOperation[],
+): T {
+  let result = toJson(document);
+  for (const operation of operations) {
+    result = applyOperation(result, operation);
+  }
+  return result as T;
+}
+
+function applyOperation(
+  document: unknown,
+  operation: JsonPatchOperation,
+): unknown {
+  if (operation.path === "") {
+    return operation.op === "remove" ? undefined : toJson(operation.value);
+  }
+
+  const segments = operation.path.slice(1).split("/").map(unescapePathSegment);
+  // Assigning to "__proto__" would replace the object's prototype
+  if (segments.includes("__proto__")) {
+    throw new Error(`Invalid patch path ${operation.path}`);
+  }
+  const lastSegment = segments.pop()!;
+  let parent = document;
+  for (const segment of segments) {
+    parent = getChild(parent, segment, operation.path);
+  }
+
+  if (Array.isArray(parent)) {
+    const index = lastSegment === "-" ? parent.length : Number(lastSegment);
+    if (!Number.isInteger(index) || index < 0 || index > parent.length) {
+      throw new Error(`Invalid patch path ${operation.path}`);
+    }
+    switch (operation.op) {
+      case "add":
+        parent.splice(index, 0, toJson(operation.value));
+        break;
+      case "remove":
+        parent.splice(index, 1);
+        break;
+      case "replace":
+        parent[index] = toJson(operation.value);
+        break;
+    }
+  } else if (isObject(parent)) {
+    if (operation.op === "remove") {
+      delete parent[lastSegment];
+    } else {
+      parent[lastSegment] = toJson(operation.value);
+    }
+  } else {
+    throw new Error(`Invalid patch path ${operation.path}`);
+  }
+
+  return document;
+}
+
+function getChild(parent: unknown, segment: string, path: string): unknown {
+  if (Array.isArray(parent)) {
+    return parent[Number(segment)];
+  }
+  if (isObject(parent) && Object.hasOwn(parent, segment)) {
+    return parent[segment];
+  }
+  throw new Error(`Invalid patch path ${path}`);
+}
@@ -1,29 +1,93 @@
-import type { ActiveGame, User } from "../types.ts";
+import type { JsonPatchOperation } from "./jsonpatch.ts";
+import type {
+  ActiveGame,
+  ChatChannel,
+  ChatMessage,
+  LobbyMessage,
+  MoveRejection,
+  PlayerPresence,
+  TurnClocks,
+  User,
+  UserCompletedGame,
+  UserGame,
+} from "../types.ts";
+
+// Sockets opened with a token are closed with this code once it's revoked.
+// Clients don't reconnect after it.
+export const tokenRevokedCloseCode = 4001;
 
 export type LobbySocketRequest =
-  | { type: "Initialize"; activeGames: ActiveGame[] }
+  | { type: "Initialize"; activeGames: ActiveGame[]; userGames: UserGame[] }
   | { type: "JoinQueue"; queueId: string }
   | { type: "LeaveQueue" }
-  | { type: "UpdateUsername"; username: string };
+  | { type: "CreateInvite"; modeId: string }
+  | { type: "JoinInvite"; inviteCode: string }
+  | { type: "CancelInvite" }
+  | { type: "UpdateUsername"; username: string }
+  | { type: "SendLobbyMessage"; text: string }
+  // Omit the cursor to get the first page of the user's completed games
+  | { type: "ListCompletedGames"; cursor?: string };
 
 export type LobbySocketResponse =
   | { type: "QueueJoined" }
   | { type: "QueueLeft" }
+  | { type: "InviteJoined"; inviteCode: string }
+  | { type: "InviteLeft" }
+  | { type: "InviteNotFound"; inviteCode: string }
   | { type: "UpdateActiveGames"; activeGames: ActiveGame[] }
+  // Sent as each active game starts or changes, after the initial list
+  | { type: "ActiveGameUpdated"; activeGame: ActiveGame }
+  | { type: "ActiveGameRemoved"; gameId: string }
+  | { type: "UpdateUserGames"; userGames: UserGame[] }
   | { type: "GameAssignment"; gameId: string }
-  | { type: "UserUpdated"; user: User };
+  | { type: "UserUpdated"; user: User }
+  | { type: "UpdateLobbyMessages"; lobbyMessages: LobbyMessage[] }
+  | {
+    type: "CompletedGamesPage";
+    games: UserCompletedGame<unknown>[];
+    // The cursor for the next page, or undefined on the last page
+    cursor: string | undefined;
+    // Whether the page follows the games already sent
+    append: boolean;
+  };
 
 export type GameSocketRequest<Move, PlayerState, PublicState> =
   | {
     type: "Initialize";
+    currentVersion: number;
     currentPublicState: PublicState;
     currentPlayerState?: PlayerState;
   }
-  | { type: "Move"; move: Move };
+  | { type: "RequestResync" }
+  // The sequence number is echoed back in state updates once the move has
+  // been processed
+  | { type: "Move"; id: string; move: Move; sequence?: number }
+  | { type: "Resign" }
+  | { type: "SendChat"; channel: ChatChannel; text: string };
 
-export type GameSocketResponse<PlayerState, PublicState, Outcome> = {
-  type: "UpdateGameState";
-  publicState: PublicState;
-  playerState: PlayerState | undefined;
-  outcome: Outcome | undefined;
-};
+export type GameSocketResponse<PlayerState, PublicState, Outcome> =
+  | {
+    type: "UpdateGameState";
+    version: number;
+    moveSequence?: number;
+    publicState: PublicState;
+    playerState: PlayerState | undefined;
+    outcome: Outcome | undefined;
+    activePlayers: number[] | undefined;
+    clocks: TurnClocks | undefined;
+  }
+  // Applies to a document containing playerState, publicState, outcome,
+  // activePlayers, and clocks.
+  // Clients that are not at baseVersion should send RequestResync.
+  | {
+    type: "PatchGameState";
+    baseVersion: number;
+    version: number;
+    moveSequence?: number;
+    patch: JsonPatchOperation[];
+  }
+  | { type: "MoveAccepted"; id: string }
+  | { type: "MoveRejected"; id: string; rejection: MoveRejection }
+  | { type: "UpdatePresence"; presence: PlayerPresence[] }
+  | { type: "ChatHistory"; messages: ChatMessage[] }
+  | { type: "NewChatMessages"; messages: ChatMessage[] };
@@ -1,2 +1,3 @@
 export { useLobbySocket } from "./client/lobbyhooks.ts";
-export { useGameSocket } from "./client/gamehooks.ts";
+export { MoveRejectedError, useGameSocket } from "./client/gamehooks.ts";
+export { createPasskey, getPasskey } from "./client/passkeys.ts";
@@ -1,22 +1,118 @@
-import type { ActiveGame, Game, GameProps, LobbyProps, User } from "./types.ts";
+import type {
+  AccountError,
+  AccountResult,
+  CompletedGameOptions,
+  CompletedGamePage,
+  Game,
+  GameBrowserOptions,
+  GameBrowserPage,
+  GameProps,
+  LeaderboardEntry,
+  Leaderboards,
+  LobbyMessage,
+  LobbyProps,
+  Mode,
+  PasskeyLoginOptions,
+  PasskeyLoginResponse,
+  PasskeyRegistrationOptions,
+  PasskeyRegistrationResponse,
+  ReplayStep,
+  User,
+  UserProfile,
+} from "./types.ts";
 import type {
   GameSocketRequest,
+  GameSocketResponse,
   LobbySocketRequest,
 } from "./common/sockettypes.ts";
 import {
-  fetchActiveGames,
+  getActiveGamesForUser,
   getPlayerId,
   getPlayerState,
   getPublicState,
+  getReplay,
+  getTurnClocks,
+  handleAbandonmentCheck,
+  handleClockCheck,
   handleMove,
+  handlePlayerLeft,
   handleRefresh,
+  type MoveResult,
 } from "./server/gamedata.ts";
 import { GameSocketStore } from "./server/gamesockets.ts";
-import { DB } from "./server/db.ts";
+import {
+  createChatRateLimiter,
+  handleChatMessage,
+  handleLobbyMessage,
+  sendAnnouncement,
+} from "./server/chat.ts";
+import {
+  type ActiveGameChange,
+  connectionRefreshIntervalMs,
+  DB,
+  type QueueConfig,
+} from "./server/db.ts";
+import { BotRunner } from "./server/bots.ts";
+import { DenoKvStorage, type Storage } from "./server/storage.ts";
 import { LobbySocketStore } from "./server/lobbysockets.ts";
+import {
+  createPasskeyLogin,
+  createPasskeyRegistration,
+  isValidUsername,
+  loginWithPasskey,
+  loginWithPassword,
+  registerWithPasskey,
+  registerWithPassword,
+} from "./server/accounts.ts";
+import type { PasskeyOptions } from "./server/passkeys.ts";
+import {
+  type AuthAdapter,
+  type AuthIdentity,
+  storeAuthIdentity,
+} from "./server/auth.ts";
+import { type Clock, systemClock } from "./server/clock.ts";
+import { consoleLogger, type Logger } from "./server/logger.ts";
 import { ulid } from "@std/ulid";
 
-const tokenTtlMs = 1000 * 60 * 60 * 24 * 30;
+const defaultTokenTtlMs = 1000 * 60 * 60 * 24 * 30;
+// Tokens are extended on use at most this often, so every request doesn't
+// write to the database
+const tokenRefreshIntervalMs = 1000 * 60 * 60;
+// Number of users on each mode's leaderboard shown in the lobby
+const lobbyLeaderboardSize = 10;
+
+export type ServerOptions = {
+  // Where games, users, and queues are stored. Defaults to the default Deno KV
+  // database.
+  storage?: Storage;
+  // A Deno KV database, or a path to open one at. Can't be combined with
+  // `storage`.
+  kv?: Deno.Kv | string;
+  // Used for every timestamp, including move times and token expiration
+  clock?: Clock;
+  logger?: Logger;
+  // How long lobby auth tokens are valid for after they were last used
+  tokenTtlMs?: number;
+  // Enables registering and logging in with passkeys
+  passkeys?: PasskeyOptions;
+  // Signs users in with an external identity provider, before falling back to
+  // the server's own tokens and guests
+  auth?: AuthAdapter;
+};
+
+async function openStorage(options: ServerOptions): Promise<Storage> {
+  if (options.storage != null) {
+    if (options.kv != null) {
+      throw new Error("Only one of storage and kv can be provided");
+    }
+    return options.storage;
+  }
+
+  const kv = options.kv == null || typeof options.kv === "string"
+    ? await Deno.openKv(options.kv)
+    : options.kv;
+  return new DenoKvStorage(kv);
+}
 
 export async function initializeServer<
   Config,
@@ -27,41 +123,144 @@ export async function initializeServer<
   Outcome,
 >(
   game: Game<Config, GameState, Move, PlayerState, PublicState, Outcome>,
+  options: ServerOptions = {},
 ): Promise<Server<Config, GameState, Move, PlayerState, PublicState, Outcome>> {
-  const kv = await Deno.openKv();
-  const db = new DB(kv);
+  const storage = await openStorage(options);
+  const db = new DB(storage, options.clock ?? systemClock);
+  const logger = options.logger ?? consoleLogger;
 
-  const activeGamesStream: ReadableStream<ActiveGame[]> = db
-    .watchForActiveGameListChanges();
+  const activeGamesStream: ReadableStream<ActiveGameChange[]> = db
+    .watchForActiveGameChanges();
 
   // Start the refresh listener if the game implements the refresh mechanism
   if (game.refresh != null) {
     const refreshStream = db.listenForRefreshes();
-    (async () => {
-      for await (const gameId of refreshStream) {
-        await handleRefresh(db, game, gameId);
-      }
-    })();
+    handleEach(
+      logger,
+      "Failed to refresh game",
+      refreshStream,
+      (gameId) => handleRefresh(db, game, gameId),
+    );
   }
 
-  const lobbySocketStore = new LobbySocketStore(db, activeGamesStream);
+  // Close connections left behind by servers that stopped without closing them
+  handleEach(
+    logger,
+    "Failed to check connection",
+    db.listenForConnectionChecks(),
+    (check) => db.checkConnection(check),
+  );
+
+  // Start the abandonment listener if the game handles players leaving
+  if (game.playerLeft != null) {
+    const abandonmentCheckStream = db.listenForAbandonmentChecks();
+    handleEach(
+      logger,
+      "Failed to check for abandonment",
+      abandonmentCheckStream,
+      (check) => handleAbandonmentCheck(db, game, check.gameId, check.playerId),
+    );
+  }
+
+  // Start the clock check listener if the game has turn clocks
+  if (game.activePlayers != null && game.timeExpired != null) {
+    const clockCheckStream = db.listenForClockChecks();
+    handleEach(
+      logger,
+      "Failed to check turn clocks",
+      clockCheckStream,
+      (check) => handleClockCheck(db, game, check.gameId),
+    );
+  }
+
+  // Start playing bot seats if the game has a bot
+  if (game.bot != null) {
+    new BotRunner(
+      db,
+      game,
+      game.bot,
+      db.listenForBotTurns(),
+      logger,
+    );
+  }
+
+  const lobbyMessagesStream: ReadableStream<LobbyMessage[]> = db
+    .watchForLobbyMessageChanges();
+
+  const lobbySocketStore = new LobbySocketStore(
+    db,
+    activeGamesStream,
+    lobbyMessagesStream,
+    logger,
+  );
   const gameSocketStore = new GameSocketStore<
     Config,
     GameState,
     PlayerState,
     PublicState,
     Outcome
-  >(db);
+  >(db, (gameData) => getTurnClocks(game, gameData));
 
   return new Server(
     game,
     db,
     lobbySocketStore,
     gameSocketStore,
+    logger,
+    options.tokenTtlMs ?? defaultTokenTtlMs,
+    options.passkeys,
+    options.auth,
   );
 }
 
+// Bots only fill seats in modes that enable them, for games with a bot, and
+// clocks are only kept for games that say whose clock is running
+function buildQueueConfig<
+  Config,
+  GameState,
+  Move,
+  PlayerState,
+  PublicState,
+  Outcome,
+>(
+  game: Game<Config, GameState, Move, PlayerState, PublicState, Outcome>,
+  queueId: string,
+  mode: Mode<Config>,
+): QueueConfig<Config> {
+  const bots = mode.bots == null || game.bot == null
+    ? undefined
+    : { ...mode.bots, username: game.bot.username };
+  const hasClocks = game.activePlayers != null && game.timeExpired != null;
+  return {
+    queueId,
+    numPlayers: mode.numPlayers,
+    config: mode.config,
+    rating: mode.rating,
+    bots,
+    timeControl: hasClocks ? mode.timeControl : undefined,
+  };
+}
+
 export type { Server };
+export type { Clock } from "./server/clock.ts";
+export type { Logger } from "./server/logger.ts";
+export type { PasskeyOptions } from "./server/passkeys.ts";
+export {
+  type AuthAdapter,
+  type AuthIdentity,
+  createJwtAuthAdapter,
+  type JwtAlgorithm,
+  type JwtAuthOptions,
+} from "./server/auth.ts";
+export {
+  DenoKvStorage,
+  MemoryStorage,
+  type Storage,
+} from "./server/storage.ts";
+
+// A signed in user, and whether they signed in with one of the server's own
+// tokens, which can be revoked
+type Authentication = AuthIdentity & { isServerToken: boolean };
 
 class Server<Config, GameState, Move, PlayerState, PublicState, Outcome> {
   constructor(
@@ -82,30 +281,25 @@ class Server<Config, GameState, Move, PlayerState, PublicState, Outcome> {
       PublicState,
       Outcome
     >,
+    private logger: Logger,
+    private tokenTtlMs: number,
+    private passkeyOptions: PasskeyOptions | undefined,
+    private authAdapter: AuthAdapter | undefined,
   ) {}
 
   async getInitialLobbyProps(
     token: string | undefined,
   ): Promise<{ props: LobbyProps; token: string }> {
-    const activeGames = await fetchActiveGames(this.db);
-    let user: User | null = null;
+    const identity = await this.authenticate(token);
+    let user: User | null = identity?.user ?? null;
+    let userId = identity?.userId;
     let lobbyToken = token;
 
-    if (token != null) {
-      const tokenData = await this.db.getToken(token);
-      if (tokenData != null && tokenData.expiration > new Date()) {
-        user = await this.db.getUser(tokenData.userId);
-      }
-    }
-
-    if (user == null) {
+    if (user == null || userId == null) {
       user = await createGuestUser(this.db);
-      const userId = ulid();
-      lobbyToken = crypto.randomUUID();
-      const expiration = new Date(Date.now() + tokenTtlMs);
-
+      userId = ulid();
       await this.db.storeUser(userId, user);
-      await this.db.storeToken(lobbyToken, { userId, expiration });
+      lobbyToken = await this.issueToken(userId);
     }
 
     if (lobbyToken == null) {
@@ -115,7 +309,22 @@ class Server<Config, GameState, Move, PlayerState, PublicState, Outcome> {
       throw new Error("Missing lobby user");
     }
 
-    return { props: { activeGames, user }, token: lobbyToken };
+    const activeGames = await this.lobbySocketStore.getActiveGames(userId);
+    const userGames = await this.db.getUserGames(userId);
+    const ratings = await this.db.getRatings(userId);
+    const stats = await this.db.getStats(userId);
+    const leaderboards: Leaderboards = {};
+    for (const modeId of Object.keys(this.game.modes)) {
+      leaderboards[modeId] = await this.db.getLeaderboard(
+        modeId,
+        lobbyLeaderboardSize,
+      );
+    }
+
+    return {
+      props: { activeGames, userGames, user, ratings, stats, leaderboards },
+      token: lobbyToken,
+    };
   }
 
   async getInitialGameProps(
@@ -136,84 +345,337 @@ class Server<Config, GameState, Move, PlayerState, PublicState, Outcome> {
       playerId = getPlayerId(gameData, userId);
     }
 
-    const publicState = getPublicState(gameData, this.game.publicState);
+    const timestamp = this.db.clock.now();
+    const publicState = getPublicState(
+      gameData,
+      this.game.publicState,
+      timestamp,
+    );
+    const presence = await this.db.getPresence(gameId);
     const playerState = playerId == null ? undefined : getPlayerState(
       gameData,
       this.game.playerState,
       playerId,
+      timestamp,
     );
 
     return {
       players: gameData.players,
+      presence,
       publicState,
       playerId,
       playerState,
       outcome: gameData.outcome,
+      version: gameData.version,
+      activePlayers: gameData.activePlayers,
+      clocks: getTurnClocks(this.game, gameData),
     } as GameProps<PlayerState, PublicState, Outcome>;
   }
 
+  // Re-runs a game from its move log, returning the public state after setup
+  // and after every accepted move and refresh.
+  async getReplay(
+    gameId: string,
+  ): Promise<ReplayStep<Move, PublicState>[]> {
+    return await getReplay(this.db, this.game, gameId);
+  }
+
+  // Returns a page of active games, optionally filtered by mode or player, for
+  // spectators to browse. Pass the returned cursor to fetch the next page.
+  async browseGames(
+    options: GameBrowserOptions = {},
+    token?: string,
+  ): Promise<GameBrowserPage> {
+    const userId = await this.getUserIdFromToken(token);
+    const { games, cursor } = await this.db.browseActiveGames({
+      ...options,
+      limit: options.limit ?? 20,
+    });
+    return { games: getActiveGamesForUser(games, userId ?? ""), cursor };
+  }
+
+  // Upgrades the token's guest user to a registered user with the username
+  // and password. They keep their token, games, ratings and stats.
+  async registerWithPassword(
+    token: string | undefined,
+    username: string,
+    password: string,
+  ): Promise<AccountResult> {
+    const userId = await this.getUserIdFromToken(token);
+    if (userId == null || token == null) {
+      return { ok: false, error: "InvalidToken" };
+    }
+    const result = await registerWithPassword(
+      this.db,
+      userId,
+      username,
+      password,
+    );
+    return result.ok ? { ...result, token } : result;
+  }
+
+  // Returns a new token for the user, such as when they log in on another
+  // device
+  async loginWithPassword(
+    username: string,
+    password: string,
+  ): Promise<AccountResult> {
+    const result = await loginWithPassword(this.db, username, password);
+    if (!result.ok) {
+      return result;
+    }
+    const token = await this.issueToken(result.userId);
+    return { ok: true, user: result.user, token };
+  }
+
+  // Starts upgrading the token's guest user with a passkey. Pass the options
+  // to navigator.credentials.create, and its result to registerWithPasskey.
+  async getPasskeyRegistrationOptions(
+    token: string | undefined,
+    username: string,
+  ): Promise<
+    | { ok: true; options: PasskeyRegistrationOptions }
+    | { ok: false; error: AccountError }
+  > {
+    if (this.passkeyOptions == null) {
+      return { ok: false, error: "PasskeysDisabled" };
+    }
+    const userId = await this.getUserIdFromToken(token);
+    if (userId == null) {
+      return { ok: false, error: "InvalidToken" };
+    }
+    return await createPasskeyRegistration(
+      this.db,
+      userId,
+      username,
+      this.passkeyOptions,
+    );
+  }
+
+  async registerWithPasskey(
+    token: string | undefined,
+    response: PasskeyRegistrationResponse,
+  ): Promise<AccountResult> {
+    if (this.passkeyOptions == null) {
+      return { ok: false, error: "PasskeysDisabled" };
+    }
+    const userId = await this.getUserIdFromToken(token);
+    if (userId == null || token == null) {
+      return { ok: false, error: "InvalidToken" };
+    }
+    const result = await registerWithPasskey(
+      this.db,
+      userId,
+      response,
+      this.passkeyOptions,
+      this.logger,
+    );
+    return result.ok ? { ...result, token } : result;
+  }
+
+  // Starts logging in with a passkey. Pass the options to
+  // navigator.credentials.get, and its result to loginWithPasskey.
+  async getPasskeyLoginOptions(): Promise<
+    | { ok: true; options: PasskeyLoginOptions }
+    | { ok: false; error: AccountError }
+  > {
+    if (this.passkeyOptions == null) {
+      return { ok: false, error: "PasskeysDisabled" };
+    }
+    const options = await createPasskeyLogin(this.db, this.passkeyOptions);
+    return { ok: true, options };
+  }
+
+  async loginWithPasskey(
+    response: PasskeyLoginResponse,
+  ): Promise<AccountResult> {
+    if (this.passkeyOptions == null) {
+      return { ok: false, error: "PasskeysDisabled" };
+    }
+    const result = await loginWithPasskey(
+      this.db,
+      response,
+      this.passkeyOptions,
+      this.logger,
+    );
+    if (!result.ok) {
+      return result;
+    }
+    const token = await this.issueToken(result.userId);
+    return { ok: true, user: result.user, token };
+  }
+
+  // Returns the users with the most wins in the mode
+  async getLeaderboard(
+    modeId: string,
+    limit = lobbyLeaderboardSize,
+  ): Promise<LeaderboardEntry[]> {
+    return await this.db.getLeaderboard(modeId, limit);
+  }
+
+  // Returns the user's ratings and statistics, or undefined if there's no
+  // user with the username
+  async getUserProfile(username: string): Promise<UserProfile | undefined> {
+    const userId = await this.db.getUserIdByUsername(username);
+    if (userId == null) {
+      return undefined;
+    }
+    const user = await this.db.getUser(userId);
+    if (user == null) {
+      return undefined;
+    }
+    const ratings = await this.db.getRatings(userId);
+    const stats = await this.db.getStats(userId);
+    return { user, ratings, stats };
+  }
+
+  // Returns a page of completed games, most recently completed first,
+  // optionally filtered by mode or player. Pass the returned cursor to fetch
+  // the next page.
+  async listCompletedGames(
+    options: CompletedGameOptions = {},
+  ): Promise<CompletedGamePage<Outcome>> {
+    return await this.db.listCompletedGames<Outcome>({
+      ...options,
+      limit: options.limit ?? 20,
+    });
+  }
+
+  // Revokes the token, closing the sockets opened with it. Returns whether it
+  // was one of the server's tokens. Tokens from the auth adapter are left to
+  // the identity provider.
+  async logout(token: string | undefined): Promise<boolean> {
+    if (token == null || token === "") {
+      return false;
+    }
+    return await this.db.revokeToken(token);
+  }
+
+  // Revokes every token of the token's user, such as when they may have been
+  // stolen. Returns whether the token was valid.
+  async logoutEverywhere(token: string | undefined): Promise<boolean> {
+    const authentication = await this.authenticate(token);
+    if (authentication == null) {
+      return false;
+    }
+    await this.db.revokeAllTokens(authentication.userId);
+    return true;
+  }
+
+  // Sends an announcement to the chat of every connected lobby
+  async announce(text: string): Promise<LobbyMessage> {
+    return await sendAnnouncement(this.db, text);
+  }
+
   async configureLobbySocket(socket: WebSocket, token: string) {
     if (token === "") {
       throw new Error("Missing lobby auth token");
     }
 
-    const tokenData = await this.db.getToken(token);
-    if (tokenData == null || tokenData.expiration <= new Date()) {
+    const authentication = await this.authenticate(token);
+    if (authentication == null) {
       throw new Error("Invalid lobby auth token");
     }
 
-    const storedUser = await this.db.getUser(tokenData.userId);
-    if (storedUser == null) {
-      throw new Error("Unknown lobby user");
-    }
-
-    let user = storedUser;
-    const userId = tokenData.userId;
+    let user = authentication.user;
+    const userId = authentication.userId;
+    const isLobbyMessageAllowed = createChatRateLimiter();
 
     const handleLobbySocketOpen = () => {
-      console.log("lobby socket opened");
-      this.lobbySocketStore.register(socket);
+      this.logger.debug("Lobby socket opened", { userId });
+      this.lobbySocketStore.register(
+        socket,
+        userId,
+        authentication.isServerToken ? token : undefined,
+      );
     };
 
     const handleLobbySocketMessage = async (event: MessageEvent) => {
       const message = event.data;
-      console.log("Lobby Socket Message", message);
+      this.logger.debug("Lobby socket message", { userId, message });
       const parsedMessage: LobbySocketRequest = JSON.parse(message);
       switch (parsedMessage.type) {
         case "Initialize":
-          this.lobbySocketStore.initialize(socket, parsedMessage.activeGames);
+          await this.lobbySocketStore.initialize(
+            socket,
+            parsedMessage.activeGames,
+            parsedMessage.userGames,
+          );
           break;
         case "JoinQueue": {
           const queue = this.game.modes[parsedMessage.queueId];
-          if (queue == null) {
-            console.log(
-              "Attempted to join non-existant queue",
-              parsedMessage.queueId,
-            );
+          if (queue == null || queue.matchmaking !== "queue") {
+            this.logger.warn("Attempted to join non-existant queue", {
+              userId,
+              queueId: parsedMessage.queueId,
+            });
             return;
           }
-          const queueConfig = {
-            queueId: parsedMessage.queueId,
-            numPlayers: queue.numPlayers,
-            config: queue.config,
-          };
+          const queueConfig = buildQueueConfig(
+            this.game,
+            parsedMessage.queueId,
+            queue,
+          );
           await this.lobbySocketStore.joinQueue(
             socket,
             queueConfig,
             userId,
             user,
-            this.game.setup,
+            this.game,
           );
           break;
         }
         case "LeaveQueue":
           await this.lobbySocketStore.leaveQueue(socket);
           break;
+        case "CreateInvite": {
+          const mode = this.game.modes[parsedMessage.modeId];
+          if (mode == null || mode.matchmaking !== "invite") {
+            this.logger.warn(
+              "Attempted to create invite for non-existant mode",
+              {
+                userId,
+                modeId: parsedMessage.modeId,
+              },
+            );
+            return;
+          }
+          const queueConfig = buildQueueConfig(
+            this.game,
+            parsedMessage.modeId,
+            mode,
+          );
+          await this.lobbySocketStore.createInvite(
+            socket,
+            queueConfig,
+            userId,
+            user,
+            this.game,
+          );
+          break;
+        }
+        case "JoinInvite":
+          await this.lobbySocketStore.joinInvite(
+            socket,
+            parsedMessage.inviteCode.toUpperCase(),
+            userId,
+            user,
+            this.game,
+          );
+          break;
+        case "CancelInvite":
+          await this.lobbySocketStore.leaveInvite(socket);
+          break;
         case "UpdateUsername": {
+          // The user may have registered since the socket was opened
+          user = await this.db.getUser(userId) ?? user;
           const newUsername = parsedMessage.username;
           if (newUsername === user.username) {
             break;
           }
+          if (!user.isGuest && !isValidUsername(newUsername)) {
+            break;
+          }
           const existingUser = await this.db.getUserByUsername(newUsername);
           if (existingUser != null) {
             break;
@@ -231,17 +693,46 @@ class Server<Config, GameState, Move, PlayerState, PublicState, Outcome> {
           ));
           break;
         }
+        case "SendLobbyMessage":
+          if (!isLobbyMessageAllowed(this.db.clock.now())) {
+            break;
+          }
+          await handleLobbyMessage(this.db, user, parsedMessage.text);
+          break;
+        case "ListCompletedGames":
+          await this.lobbySocketStore.listCompletedGames(
+            socket,
+            parsedMessage.cursor,
+          );
+          break;
       }
     };
 
     const handleLobbySocketClose = async () => {
-      console.log("lobby socket closed");
+      this.logger.debug("Lobby socket closed", { userId });
       await this.lobbySocketStore.unregister(socket);
     };
 
-    socket.addEventListener("open", handleLobbySocketOpen);
-    socket.addEventListener("message", handleLobbySocketMessage);
-    socket.addEventListener("close", handleLobbySocketClose);
+    socket.addEventListener(
+      "open",
+      logErrors(this.logger, "Lobby socket open failed", handleLobbySocketOpen),
+    );
+    socket.addEventListener(
+      "message",
+      logErrors(
+        this.logger,
+        "Lobby socket message failed",
+        handleLobbySocketMessage,
+      ),
+    );
+    socket.addEventListener(
+      "close",
+      logErrors(
+        this.logger,
+        "Lobby socket close failed",
+        handleLobbySocketClose,
+      ),
+    );
   }
 
   async configureGameSocket(
@@ -249,7 +740,8 @@ class Server<Config, GameState, Move, PlayerState, PublicState, Outcome> {
     gameId: string,
     token: string | undefined,
   ) {
-    const userId = await this.getUserIdFromToken(token);
+    const authentication = await this.authenticate(token);
+    const userId = authentication?.userId;
     const gameData = await this.db.getGameStorageData<
       Config,
       GameState,
@@ -258,15 +750,47 @@ class Server<Config, GameState, Move, PlayerState, PublicState, Outcome> {
       gameId,
     );
     const playerId = userId == null ? undefined : getPlayerId(gameData, userId);
+    const connectionId = ulid();
+    const isChatAllowed = createChatRateLimiter();
+    // Only check for abandonment if the game was incomplete when the socket opened
+    const mode = this.game.modes[gameData.modeId];
+    const abandonmentDelay =
+      this.game.playerLeft == null || gameData.outcome !== undefined
+        ? undefined
+        : mode?.disconnectTimeout;
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
 
-    const handleGameSocketOpen = () => {
+    const handleGameSocketOpen = async () => {
       this.gameSocketStore.register(
         socket,
         gameId,
         this.game.playerState,
         this.game.publicState,
         playerId,
+        authentication?.isServerToken ? token : undefined,
       );
+      if (playerId != null) {
+        await this.db.addConnection(
+          gameId,
+          playerId,
+          connectionId,
+          abandonmentDelay,
+        );
+        heartbeat = setInterval(() => {
+          this.db.refreshConnection(
+            gameId,
+            playerId,
+            connectionId,
+            abandonmentDelay,
+          ).catch((error) => {
+            this.logger.error("Failed to refresh connection", {
+              gameId,
+              playerId,
+              error,
+            });
+          });
+        }, connectionRefreshIntervalMs);
+      }
     };
 
     const handleGameSocketMessage = async (event: MessageEvent) => {
@@ -282,47 +806,219 @@ class Server<Config, GameState, Move, PlayerState, PublicState, Outcome> {
           await this.gameSocketStore.initialize(
             socket,
             gameId,
+            request.currentVersion,
             request.currentPublicState,
             playerId == null ? undefined : request.currentPlayerState,
             this.game.playerState,
             this.game.publicState,
           );
           break;
-        case "Move":
+        case "RequestResync":
+          await this.gameSocketStore.resync(
+            socket,
+            gameId,
+            this.game.playerState,
+            this.game.publicState,
+          );
+          break;
+        case "Move": {
+          let result: MoveResult = {
+            accepted: false,
+            rejection: { reason: "not-a-player" },
+          };
+          if (playerId != null) {
+            try {
+              result = await handleMove(
+                this.db,
+                this.game,
+                gameId,
+                playerId,
+                request.move,
+              );
+            } catch (error) {
+              // Such as when another update to the game was committed first
+              this.logger.error("Failed to handle move", {
+                gameId,
+                playerId,
+                error,
+              });
+              result = {
+                accepted: false,
+                rejection: { reason: "server-error" },
+              };
+            }
+          }
+          if (request.sequence != null) {
+            await this.gameSocketStore.acknowledgeMove(
+              socket,
+              gameId,
+              request.sequence,
+              this.game.playerState,
+              this.game.publicState,
+            );
+          }
+          const response: GameSocketResponse<
+            PlayerState,
+            PublicState,
+            Outcome
+          > = result.accepted ? { type: "MoveAccepted", id: request.id } : {
+            type: "MoveRejected",
+            id: request.id,
+            rejection: result.rejection,
+          };
+          socket.send(JSON.stringify(response));
+          break;
+        }
+        case "Resign":
           if (playerId == null) {
             break;
           }
-          await handleMove(
+          await handlePlayerLeft(
+            this.db,
+            this.game,
+            gameId,
+            playerId,
+            "resigned",
+          );
+          break;
+        case "SendChat": {
+          // Anonymous observers can't chat
+          if (userId == null) {
+            break;
+          }
+          const sender = playerId == null
+            ? await this.db.getUser(userId)
+            : gameData.players[playerId];
+          if (sender == null || !isChatAllowed(this.db.clock.now())) {
+            break;
+          }
+          await handleChatMessage(
             this.db,
             this.game,
             gameId,
+            sender,
             playerId,
-            request.move,
+            request.channel,
+            request.text,
           );
           break;
+        }
       }
     };
 
-    const handleGameSocketClose = () => {
+    const handleGameSocketClose = async () => {
       this.gameSocketStore.unregister(socket, gameId);
+      clearInterval(heartbeat);
+      if (playerId != null) {
+        await this.db.removeConnection(
+          gameId,
+          playerId,
+          connectionId,
+          abandonmentDelay,
+        );
+      }
     };
 
-    socket.addEventListener("open", handleGameSocketOpen);
-    socket.addEventListener("message", handleGameSocketMessage);
-    socket.addEventListener("close", handleGameSocketClose);
+    socket.addEventListener(
+      "open",
+      logErrors(this.logger, "Game socket open failed", handleGameSocketOpen),
+    );
+    socket.addEventListener(
+      "message",
+      logErrors(
+        this.logger,
+        "Game socket message failed",
+        handleGameSocketMessage,
+      ),
+    );
+    socket.addEventListener(
+      "close",
+      logErrors(this.logger, "Game socket close failed", handleGameSocketClose),
+    );
   }
 
-  private async getUserIdFromToken(
+  private async issueToken(userId: string): Promise<string> {
+    const token = crypto.randomUUID();
+    const expiration = new Date(
+      this.db.clock.now().getTime() + this.tokenTtlMs,
+    );
+    await this.db.storeToken(token, { userId, expiration });
+    return token;
+  }
+
+  // Resolves a token to its user, consulting the auth adapter before the
+  // server's own tokens. Users from the adapter are stored when they change.
+  // The server's tokens are extended whenever they're used.
+  private async authenticate(
     token: string | undefined,
-  ): Promise<string | undefined> {
+  ): Promise<Authentication | undefined> {
     if (token == null || token === "") {
       return;
     }
+    const now = this.db.clock.now();
+
+    const identity = await this.authAdapter?.authenticate(token, now);
+    if (identity != null) {
+      const user = await storeAuthIdentity(this.db, identity);
+      return { userId: identity.userId, user, isServerToken: false };
+    }
+
     const tokenData = await this.db.getToken(token);
-    if (tokenData == null || tokenData.expiration <= new Date()) {
+    if (tokenData == null || tokenData.expiration <= now) {
+      return;
+    }
+    const user = await this.db.getUser(tokenData.userId);
+    if (user == null) {
       return;
     }
-    return tokenData.userId;
+
+    const expiration = new Date(now.getTime() + this.tokenTtlMs);
+    if (
+      expiration.getTime() - tokenData.expiration.getTime() >=
+        tokenRefreshIntervalMs
+    ) {
+      await this.db.extendToken(token, expiration);
+    }
+    return { userId: tokenData.userId, user, isServerToken: true };
+  }
+
+  private async getUserIdFromToken(
+    token: string | undefined,
+  ): Promise<string | undefined> {
+    return (await this.authenticate(token))?.userId;
+  }
+}
+
+// Socket listeners can't return promises, so their errors are logged rather
+// than left as unhandled rejections, which would end the process
+function logErrors<E extends Event>(
+  logger: Logger,
+  message: string,
+  listener: (event: E) => void | Promise<void>,
+): (event: E) => Promise<void> {
+  return async (event) => {
+    try {
+      await listener(event);
+    } catch (error) {
+      logger.error(message, { error });
+    }
+  };
+}
+
+// Handles every value from the stream in turn, logging the values that fail
+// so that one failure doesn't stop the rest
+async function handleEach<T>(
+  logger: Logger,
+  message: string,
+  stream: ReadableStream<T>,
+  handler: (value: T) => Promise<void>,
+): Promise<void> {
+  for await (const value of stream) {
+    try {
+      await handler(value);
+    } catch (error) {
+      logger.error(message, { error });
+    }
   }
 }
 
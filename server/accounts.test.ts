@@ -0,0 +1,174 @@
+import { assertEquals } from "@std/assert";
+import { DB } from "./db.ts";
+import { DenoKvStorage } from "./storage.ts";
+import {
+  createPasskeyLogin,
+  createPasskeyRegistration,
+  isValidUsername,
+  loginWithPasskey,
+  loginWithPassword,
+  registerWithPassword,
+} from "./accounts.ts";
+import type { Logger } from "./logger.ts";
+
+const guest = { username: "guest-0001", isGuest: true };
+const passkeyOptions = {
+  rpId: "example.com",
+  rpName: "Example",
+  origins: ["https://example.com"],
+};
+const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+Deno.test("isValidUsername rejects guest and malformed usernames", () => {
+  assertEquals(isValidUsername("player_1"), true);
+  assertEquals(isValidUsername("guest-0001"), false);
+  assertEquals(isValidUsername("ab"), false);
+  assertEquals(isValidUsername("has space"), false);
+});
+
+Deno.test("Registering upgrades the guest in place", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  await db.storeUser("user-1", guest);
+  const gameId = await db.createGame(
+    "test-mode",
+    undefined,
+    ["user-1", "user-2"],
+    [guest, { username: "guest-0002", isGuest: true }],
+    { setup: () => 1 },
+  );
+
+  assertEquals(
+    await registerWithPassword(db, "user-1", "alice", "hunter22"),
+    { ok: true, user: { username: "alice", isGuest: false } },
+  );
+  assertEquals(await db.getUser("user-1"), {
+    username: "alice",
+    isGuest: false,
+  });
+  assertEquals(await db.getUserByUsername("guest-0001"), null);
+  assertEquals(
+    (await db.getUserGames("user-1")).map((game) => game.gameId),
+    [gameId],
+  );
+
+  assertEquals(
+    await registerWithPassword(db, "user-1", "alice2", "hunter22"),
+    { ok: false, error: "AlreadyRegistered" },
+  );
+
+  kv.close();
+});
+
+Deno.test("Registering checks the username and password", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  await db.storeUser("user-1", guest);
+  await db.storeUser("user-2", { username: "taken", isGuest: false });
+
+  assertEquals(
+    await registerWithPassword(db, "user-1", "taken", "hunter22"),
+    { ok: false, error: "UsernameTaken" },
+  );
+  assertEquals(
+    await registerWithPassword(db, "user-1", "guest-0002", "hunter22"),
+    { ok: false, error: "InvalidUsername" },
+  );
+  assertEquals(
+    await registerWithPassword(db, "user-1", "alice", "short"),
+    { ok: false, error: "WeakPassword" },
+  );
+  assertEquals(
+    await registerWithPassword(db, "user-3", "alice", "hunter22"),
+    { ok: false, error: "InvalidToken" },
+  );
+
+  kv.close();
+});
+
+Deno.test("Logging in with a password finds the registered user", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  await db.storeUser("user-1", guest);
+  await registerWithPassword(db, "user-1", "alice", "hunter22");
+
+  assertEquals(await loginWithPassword(db, "alice", "hunter22"), {
+    ok: true,
+    userId: "user-1",
+    user: { username: "alice", isGuest: false },
+  });
+  assertEquals(await loginWithPassword(db, "alice", "hunter23"), {
+    ok: false,
+    error: "InvalidCredentials",
+  });
+  assertEquals(await loginWithPassword(db, "bob", "hunter22"), {
+    ok: false,
+    error: "InvalidCredentials",
+  });
+
+  kv.close();
+});
+
+Deno.test("Passkey challenges can only be used once, before they expire", async () => {
+  const kv = await Deno.openKv(":memory:");
+  let now = new Date("2024-01-01T00:00:00Z");
+  const db = new DB(new DenoKvStorage(kv), { now: () => now });
+  await db.storeUser("user-1", guest);
+
+  const registration = await createPasskeyRegistration(
+    db,
+    "user-1",
+    "alice",
+    passkeyOptions,
+  );
+  assertEquals(registration.ok, true);
+  if (!registration.ok) {
+    return;
+  }
+  assertEquals(registration.options.username, "alice");
+  const { challenge } = registration.options;
+  assertEquals(
+    (await db.takePasskeyChallenge(challenge))?.registration,
+    { userId: "user-1", username: "alice" },
+  );
+  assertEquals(await db.takePasskeyChallenge(challenge), null);
+
+  const login = await createPasskeyLogin(db, passkeyOptions);
+  now = new Date("2024-01-01T00:10:00Z");
+  assertEquals(await db.takePasskeyChallenge(login.challenge), null);
+
+  kv.close();
+});
+
+Deno.test("Logging in with an unknown passkey fails", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const { challenge } = await createPasskeyLogin(db, passkeyOptions);
+  const clientData = btoa(JSON.stringify({
+    type: "webauthn.get",
+    challenge,
+    origin: "https://example.com",
+  }));
+
+  assertEquals(
+    await loginWithPasskey(
+      db,
+      {
+        id: "unknown",
+        clientDataJSON: clientData,
+        authenticatorData: "",
+        signature: "",
+      },
+      passkeyOptions,
+      silentLogger,
+    ),
+    { ok: false, error: "InvalidCredentials" },
+  );
+
+  kv.close();
+});
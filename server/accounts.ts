@@ -0,0 +1,240 @@
+import type { DB } from "./db.ts";
+import { decodeBase64Url, encodeBase64Url } from "../common/base64url.ts";
+import { hashPassword, verifyPassword } from "./passwords.ts";
+import {
+  createChallenge,
+  passkeyAlgorithms,
+  PasskeyError,
+  type PasskeyOptions,
+  verifyLogin,
+  verifyRegistration,
+} from "./passkeys.ts";
+import type { Logger } from "./logger.ts";
+import type {
+  AccountError,
+  PasskeyLoginOptions,
+  PasskeyLoginResponse,
+  PasskeyRegistrationOptions,
+  PasskeyRegistrationResponse,
+  User,
+} from "../types.ts";
+
+export type RegistrationResult =
+  | { ok: true; user: User }
+  | { ok: false; error: AccountError };
+
+export type LoginResult =
+  | { ok: true; userId: string; user: User }
+  | { ok: false; error: AccountError };
+
+export const minPasswordLength = 8;
+const passkeyChallengeTtlMs = 5 * 60 * 1000;
+
+// Guest usernames are generated, so registered users can't claim them
+export function isValidUsername(username: string): boolean {
+  return /^[A-Za-z0-9_-]{3,20}$/.test(username) &&
+    !username.startsWith("guest-");
+}
+
+// Checks that the user is a guest who can claim the username
+async function checkRegistration(
+  db: DB,
+  userId: string,
+  username: string,
+): Promise<AccountError | undefined> {
+  const user = await db.getUser(userId);
+  if (user == null) {
+    return "InvalidToken";
+  }
+  if (!user.isGuest) {
+    return "AlreadyRegistered";
+  }
+  if (!isValidUsername(username)) {
+    return "InvalidUsername";
+  }
+  if (
+    username !== user.username &&
+    await db.getUserByUsername(username) != null
+  ) {
+    return "UsernameTaken";
+  }
+}
+
+export async function registerWithPassword(
+  db: DB,
+  userId: string,
+  username: string,
+  password: string,
+): Promise<RegistrationResult> {
+  const error = await checkRegistration(db, userId, username);
+  if (error !== undefined) {
+    return { ok: false, error };
+  }
+  if (password.length < minPasswordLength) {
+    return { ok: false, error: "WeakPassword" };
+  }
+
+  const user = await db.registerUser(userId, username, {
+    password: await hashPassword(password),
+  });
+  if (user == null) {
+    return { ok: false, error: "UsernameTaken" };
+  }
+  return { ok: true, user };
+}
+
+export async function loginWithPassword(
+  db: DB,
+  username: string,
+  password: string,
+): Promise<LoginResult> {
+  const userId = await db.getUserIdByUsername(username);
+  const passwordHash = userId == null ? null : await db.getPasswordHash(userId);
+  if (userId == null || passwordHash == null) {
+    return { ok: false, error: "InvalidCredentials" };
+  }
+  if (!await verifyPassword(password, passwordHash)) {
+    return { ok: false, error: "InvalidCredentials" };
+  }
+
+  const user = await db.getUser(userId);
+  if (user == null) {
+    return { ok: false, error: "InvalidCredentials" };
+  }
+  return { ok: true, userId, user };
+}
+
+// Starts registering a passkey, returning the options for the browser. The
+// username is claimed when the browser's response is verified.
+export async function createPasskeyRegistration(
+  db: DB,
+  userId: string,
+  username: string,
+  options: PasskeyOptions,
+): Promise<
+  | { ok: true; options: PasskeyRegistrationOptions }
+  | { ok: false; error: AccountError }
+> {
+  const error = await checkRegistration(db, userId, username);
+  if (error !== undefined) {
+    return { ok: false, error };
+  }
+
+  const challenge = createChallenge();
+  await db.storePasskeyChallenge(challenge, {
+    registration: { userId, username },
+    expiration: new Date(db.clock.now().getTime() + passkeyChallengeTtlMs),
+  });
+  return {
+    ok: true,
+    options: {
+      challenge,
+      rpId: options.rpId,
+      rpName: options.rpName,
+      userHandle: encodeBase64Url(new TextEncoder().encode(userId)),
+      username,
+      algorithms: passkeyAlgorithms,
+    },
+  };
+}
+
+export async function registerWithPasskey(
+  db: DB,
+  userId: string,
+  response: PasskeyRegistrationResponse,
+  options: PasskeyOptions,
+  logger: Logger,
+): Promise<RegistrationResult> {
+  const challenge = getChallenge(response.clientDataJSON);
+  const challengeData = await db.takePasskeyChallenge(challenge);
+  const registration = challengeData?.registration;
+  if (registration == null || registration.userId !== userId) {
+    return { ok: false, error: "InvalidCredentials" };
+  }
+
+  // The username may have been claimed since the registration started
+  const error = await checkRegistration(db, userId, registration.username);
+  if (error !== undefined) {
+    return { ok: false, error };
+  }
+
+  let passkey;
+  try {
+    passkey = await verifyRegistration(response, challenge, options);
+  } catch (e) {
+    if (!(e instanceof PasskeyError)) {
+      throw e;
+    }
+    logger.info("Passkey registration rejected", { userId, error: e });
+    return { ok: false, error: "InvalidCredentials" };
+  }
+
+  const user = await db.registerUser(userId, registration.username, {
+    passkey,
+  });
+  if (user == null) {
+    return { ok: false, error: "UsernameTaken" };
+  }
+  return { ok: true, user };
+}
+
+export async function createPasskeyLogin(
+  db: DB,
+  options: PasskeyOptions,
+): Promise<PasskeyLoginOptions> {
+  const challenge = createChallenge();
+  await db.storePasskeyChallenge(challenge, {
+    expiration: new Date(db.clock.now().getTime() + passkeyChallengeTtlMs),
+  });
+  return { challenge, rpId: options.rpId };
+}
+
+export async function loginWithPasskey(
+  db: DB,
+  response: PasskeyLoginResponse,
+  options: PasskeyOptions,
+  logger: Logger,
+): Promise<LoginResult> {
+  const challenge = getChallenge(response.clientDataJSON);
+  const challengeData = await db.takePasskeyChallenge(challenge);
+  const passkeyData = await db.getPasskey(response.id);
+  if (
+    challengeData == null || challengeData.registration != null ||
+    passkeyData == null
+  ) {
+    return { ok: false, error: "InvalidCredentials" };
+  }
+
+  const { userId, passkey } = passkeyData;
+  try {
+    const signCount = await verifyLogin(response, challenge, passkey, options);
+    if (!await db.updatePasskeySignCount(passkey.credentialId, signCount)) {
+      return { ok: false, error: "InvalidCredentials" };
+    }
+  } catch (e) {
+    if (!(e instanceof PasskeyError)) {
+      throw e;
+    }
+    logger.info("Passkey login rejected", { userId, error: e });
+    return { ok: false, error: "InvalidCredentials" };
+  }
+
+  const user = await db.getUser(userId);
+  if (user == null) {
+    return { ok: false, error: "InvalidCredentials" };
+  }
+  return { ok: true, userId, user };
+}
+
+// The challenge is read from the client data to find the stored challenge.
+// The client data is verified against the stored challenge afterwards.
+function getChallenge(clientDataJSON: string): string {
+  try {
+    const clientData = JSON.parse(
+      new TextDecoder().decode(decodeBase64Url(clientDataJSON)),
+    );
+    return typeof clientData.challenge === "string" ? clientData.challenge : "";
+  } catch {
+    return "";
+  }
+}
@@ -0,0 +1,161 @@
+import { assertEquals } from "@std/assert";
+import { createJwtAuthAdapter, storeAuthIdentity } from "./auth.ts";
+import { encodeBase64Url } from "../common/base64url.ts";
+import { DB } from "./db.ts";
+import { DenoKvStorage } from "./storage.ts";
+
+const now = new Date("2024-01-01T00:00:00Z");
+const seconds = now.getTime() / 1000;
+
+function encodeJson(value: unknown): string {
+  return encodeBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+async function signJwt(
+  claims: Record<string, unknown>,
+  key: CryptoKey,
+  alg: "HS256" | "ES256",
+): Promise<string> {
+  const unsigned = `${encodeJson({ alg, typ: "JWT" })}.${encodeJson(claims)}`;
+  const signature = await crypto.subtle.sign(
+    alg === "HS256" ? "HMAC" : { name: "ECDSA", hash: "SHA-256" },
+    key,
+    new TextEncoder().encode(unsigned),
+  );
+  return `${unsigned}.${encodeBase64Url(new Uint8Array(signature))}`;
+}
+
+function createHmacKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode("shared-secret"),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+const claims = {
+  sub: "42",
+  preferred_username: "alice",
+  iss: "https://id.example.com",
+  aud: "games",
+  exp: seconds + 60,
+};
+
+Deno.test("createJwtAuthAdapter maps valid tokens to users", async () => {
+  const key = await createHmacKey();
+  const adapter = createJwtAuthAdapter({
+    key,
+    algorithm: "HS256",
+    issuer: "https://id.example.com",
+    audience: "games",
+  });
+
+  assertEquals(
+    await adapter.authenticate(await signJwt(claims, key, "HS256"), now),
+    { userId: "jwt:42", user: { username: "alice", isGuest: false } },
+  );
+});
+
+Deno.test("createJwtAuthAdapter rejects invalid claims", async () => {
+  const key = await createHmacKey();
+  const adapter = createJwtAuthAdapter({
+    key,
+    algorithm: "HS256",
+    issuer: "https://id.example.com",
+    audience: "games",
+  });
+  const authenticate = async (changes: Record<string, unknown>) =>
+    await adapter.authenticate(
+      await signJwt({ ...claims, ...changes }, key, "HS256"),
+      now,
+    );
+
+  assertEquals(await authenticate({ exp: seconds }), undefined);
+  assertEquals(await authenticate({ exp: undefined }), undefined);
+  assertEquals(await authenticate({ nbf: seconds + 1 }), undefined);
+  assertEquals(await authenticate({ iss: "https://other.com" }), undefined);
+  assertEquals(await authenticate({ aud: ["other"] }), undefined);
+  assertEquals(await authenticate({ preferred_username: 5 }), undefined);
+  assertEquals(await authenticate({ aud: ["other", "games"] }) != null, true);
+});
+
+Deno.test("createJwtAuthAdapter rejects forged and malformed tokens", async () => {
+  const key = await createHmacKey();
+  const adapter = createJwtAuthAdapter({ key, algorithm: "HS256" });
+  const token = await signJwt(claims, key, "HS256");
+  const [header, , signature] = token.split(".");
+  const forged = `${header}.${
+    encodeJson({ ...claims, sub: "43" })
+  }.${signature}`;
+
+  assertEquals(await adapter.authenticate(forged, now), undefined);
+  assertEquals(await adapter.authenticate("not-a-jwt", now), undefined);
+  assertEquals(await adapter.authenticate("a.b.c", now), undefined);
+  assertEquals(
+    await adapter.authenticate(crypto.randomUUID(), now),
+    undefined,
+  );
+});
+
+Deno.test("createJwtAuthAdapter verifies ES256 tokens with a public key", async () => {
+  const keyPair = await crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["sign", "verify"],
+  );
+  const adapter = createJwtAuthAdapter({
+    key: keyPair.publicKey,
+    algorithm: "ES256",
+    usernameClaim: "name",
+    userIdPrefix: "site:",
+  });
+
+  assertEquals(
+    await adapter.authenticate(
+      await signJwt({ ...claims, name: "Alice" }, keyPair.privateKey, "ES256"),
+      now,
+    ),
+    { userId: "site:42", user: { username: "Alice", isGuest: false } },
+  );
+  // Tokens can't choose a different algorithm than the one configured
+  const hmacKey = await createHmacKey();
+  assertEquals(
+    await adapter.authenticate(await signJwt(claims, hmacKey, "HS256"), now),
+    undefined,
+  );
+});
+
+Deno.test("storeAuthIdentity suffixes usernames taken by other users", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  await db.storeUser("user-1", { username: "alice", isGuest: false });
+
+  const identity = {
+    userId: "jwt:42",
+    user: { username: "alice", isGuest: false },
+  };
+  assertEquals(await storeAuthIdentity(db, identity), {
+    username: "alice-2",
+    isGuest: false,
+  });
+  assertEquals(await db.getUserIdByUsername("alice"), "user-1");
+  assertEquals(await db.getUserIdByUsername("alice-2"), "jwt:42");
+
+  // The suffixed username is kept while the requested one is taken
+  assertEquals((await storeAuthIdentity(db, identity)).username, "alice-2");
+
+  // Renames at the provider are picked up
+  assertEquals(
+    await storeAuthIdentity(db, {
+      ...identity,
+      user: { username: "alicia", isGuest: false },
+    }),
+    { username: "alicia", isGuest: false },
+  );
+  assertEquals(await db.getUserIdByUsername("alice-2"), null);
+  assertEquals(await db.getUserIdByUsername("alicia"), "jwt:42");
+
+  kv.close();
+});
@@ -0,0 +1,174 @@
+import { decodeBase64Url } from "../common/base64url.ts";
+import type { DB } from "./db.ts";
+import type { User } from "../types.ts";
+
+// A user signed in by an external identity provider
+export type AuthIdentity = {
+  // Stable across sessions, and distinct from the IDs of guests
+  userId: string;
+  user: User;
+};
+
+// Maps a credential, such as a token issued by an existing site, to a user.
+// The server consults it before its own tokens, and falls back to them and to
+// guests when it returns undefined.
+export interface AuthAdapter {
+  authenticate(
+    credential: string,
+    now: Date,
+  ): Promise<AuthIdentity | undefined>;
+}
+
+// Usernames tried, with numbered suffixes, when the provider's is taken
+const maxUsernameAttempts = 100;
+
+// Stores the identity's user when it changes, so they can be seated in games
+// like any other user, and returns the stored user. Usernames belong to
+// whoever claimed them first, so when the provider's username is taken by
+// another user, a numbered suffix is added to it.
+export async function storeAuthIdentity(
+  db: DB,
+  identity: AuthIdentity,
+): Promise<User> {
+  const { userId, user } = identity;
+  const storedUser = await db.getUser(userId);
+  if (
+    storedUser != null && storedUser.isGuest === user.isGuest &&
+    isUsernameOrSuffixed(storedUser.username, user.username)
+  ) {
+    return storedUser;
+  }
+
+  for (let attempt = 1; attempt <= maxUsernameAttempts; attempt++) {
+    const username = attempt === 1
+      ? user.username
+      : `${user.username}-${attempt}`;
+    const newUser: User = { ...user, username };
+    if (
+      await db.storeUserIfUsernameAvailable(
+        userId,
+        newUser,
+        storedUser?.username,
+      )
+    ) {
+      return newUser;
+    }
+  }
+  throw new Error(`Failed to find an available username for ${userId}`);
+}
+
+function isUsernameOrSuffixed(username: string, requested: string): boolean {
+  return username === requested ||
+    (username.startsWith(`${requested}-`) &&
+      /^\d+$/.test(username.slice(requested.length + 1)));
+}
+
+export type JwtAlgorithm = "HS256" | "RS256" | "ES256";
+
+export type JwtAuthOptions = {
+  // An HMAC secret for HS256, or the provider's public key for RS256 and ES256
+  key: CryptoKey;
+  algorithm: JwtAlgorithm;
+  // When provided, the iss claim must match
+  issuer?: string;
+  // When provided, the aud claim must include it
+  audience?: string;
+  // The claim holding the username. Defaults to "preferred_username".
+  usernameClaim?: string;
+  // Prefixed to the sub claim to form user IDs. Defaults to "jwt:".
+  userIdPrefix?: string;
+};
+
+const verifyParams: Record<
+  JwtAlgorithm,
+  AlgorithmIdentifier | EcdsaParams
+> = {
+  HS256: "HMAC",
+  RS256: "RSASSA-PKCS1-v1_5",
+  ES256: { name: "ECDSA", hash: "SHA-256" },
+};
+
+// Verifies JSON Web Tokens signed by the identity provider with the
+// configured key. Anything that isn't a valid token for the issuer and
+// audience is left to the server's own tokens.
+export function createJwtAuthAdapter(options: JwtAuthOptions): AuthAdapter {
+  const usernameClaim = options.usernameClaim ?? "preferred_username";
+  const userIdPrefix = options.userIdPrefix ?? "jwt:";
+
+  return {
+    async authenticate(credential, now) {
+      const claims = await verifyJwt(credential, options);
+      if (claims === undefined || !areClaimsValid(claims, options, now)) {
+        return undefined;
+      }
+
+      const username = claims[usernameClaim];
+      if (typeof claims.sub !== "string" || typeof username !== "string") {
+        return undefined;
+      }
+      return {
+        userId: `${userIdPrefix}${claims.sub}`,
+        user: { username, isGuest: false },
+      };
+    },
+  };
+}
+
+// Returns the token's claims if it is signed with the key, or undefined
+async function verifyJwt(
+  token: string,
+  options: JwtAuthOptions,
+): Promise<Record<string, unknown> | undefined> {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    return undefined;
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+  try {
+    const header = parseJson(encodedHeader);
+    if (header?.alg !== options.algorithm) {
+      return undefined;
+    }
+    const isValid = await crypto.subtle.verify(
+      verifyParams[options.algorithm],
+      options.key,
+      decodeBase64Url(encodedSignature),
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`),
+    );
+    return isValid ? parseJson(encodedPayload) : undefined;
+  } catch {
+    // Malformed tokens, and keys that don't match the algorithm
+    return undefined;
+  }
+}
+
+function parseJson(encoded: string): Record<string, unknown> | undefined {
+  const value = JSON.parse(new TextDecoder().decode(decodeBase64Url(encoded)));
+  return typeof value === "object" && value !== null ? value : undefined;
+}
+
+// Tokens must expire. Times are in seconds since the epoch.
+function areClaimsValid(
+  claims: Record<string, unknown>,
+  options: JwtAuthOptions,
+  now: Date,
+): boolean {
+  const seconds = now.getTime() / 1000;
+  if (typeof claims.exp !== "number" || claims.exp <= seconds) {
+    return false;
+  }
+  if (typeof claims.nbf === "number" && claims.nbf > seconds) {
+    return false;
+  }
+  if (options.issuer !== undefined && claims.iss !== options.issuer) {
+    return false;
+  }
+  if (options.audience !== undefined) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      return false;
+    }
+  }
+  return true;
+}
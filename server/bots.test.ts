@@ -0,0 +1,175 @@
+import { assertEquals } from "@std/assert";
+import { spy } from "@std/testing/mock";
+import { DB, type GameStorageData } from "./db.ts";
+import { DenoKvStorage } from "./storage.ts";
+import { BotRunner } from "./bots.ts";
+import { handleMove } from "./gamedata.ts";
+import type { Logger } from "./logger.ts";
+import type { Bot, Game, User } from "../types.ts";
+
+type TestState = { count: number; currentPlayer: number };
+
+type TestMove = { add: number };
+
+const testGame: Game<
+  undefined,
+  TestState,
+  TestMove,
+  TestState,
+  TestState,
+  { winner: number }
+> = {
+  modes: {
+    queue: { numPlayers: 2, matchmaking: "queue", config: undefined },
+  },
+  setup: () => ({ count: 0, currentPlayer: 0 }),
+  isValidMove: (state, { playerId }) => playerId === state.currentPlayer,
+  processMove: (state, { move }) => ({
+    count: state.count + move.add,
+    currentPlayer: 1 - state.currentPlayer,
+  }),
+  playerState: (state) => state,
+  publicState: (state) => state,
+  outcome: (state) =>
+    state.count >= 10 ? { winner: 1 - state.currentPlayer } : undefined,
+};
+
+// Adds 2 on its turn, and waits otherwise
+const testBot: Bot<TestMove, TestState, TestState> = {
+  username: "robot",
+  chooseMove: (playerState, _publicState, playerId) =>
+    playerState.currentPlayer === playerId ? { add: 2 } : undefined,
+};
+
+const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+const human: User = { username: "guest-0001", isGuest: true };
+const bot: User = { username: "robot", isGuest: false, isBot: true };
+
+async function readUntil(
+  reader: ReadableStreamDefaultReader<
+    GameStorageData<undefined, TestState, { winner: number }>
+  >,
+  predicate: (
+    gameData: GameStorageData<undefined, TestState, { winner: number }>,
+  ) => boolean,
+) {
+  while (true) {
+    const { value } = await reader.read();
+    if (value !== undefined && predicate(value)) {
+      return value;
+    }
+  }
+}
+
+Deno.test("BotRunner moves for bots when the game changes", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const runner = new BotRunner(
+    db,
+    testGame,
+    testBot,
+    db.listenForBotTurns(),
+    silentLogger,
+  );
+
+  const gameId = await db.createGame(
+    "queue",
+    undefined,
+    ["user-1", "bot-1"],
+    [human, bot],
+    testGame,
+  );
+  const changes = db.watchForGameChanges<undefined, TestState, {
+    winner: number;
+  }>(gameId).getReader();
+
+  await handleMove(db, testGame, gameId, 0, { add: 1 });
+  const afterBot = await readUntil(changes, (data) => data.version === 2);
+  assertEquals(afterBot.gameState, { count: 3, currentPlayer: 0 });
+
+  await changes.cancel();
+  runner.close();
+  kv.close();
+});
+
+Deno.test("BotRunner plays games between bots to completion", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const runner = new BotRunner(
+    db,
+    testGame,
+    testBot,
+    db.listenForBotTurns(),
+    silentLogger,
+  );
+
+  const gameId = await db.createGame(
+    "queue",
+    undefined,
+    ["bot-0", "bot-1"],
+    [bot, bot],
+    testGame,
+  );
+  const changes = db.watchForGameChanges<undefined, TestState, {
+    winner: number;
+  }>(gameId).getReader();
+
+  const completed = await readUntil(
+    changes,
+    (data) => data.outcome !== undefined,
+  );
+  assertEquals(completed.gameState.count, 10);
+  assertEquals(completed.outcome, { winner: 0 });
+
+  await changes.cancel();
+  runner.close();
+  kv.close();
+});
+
+Deno.test("BotRunner logs errors from the game's state callbacks", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const failingGame: typeof testGame = {
+    ...testGame,
+    playerState: () => {
+      throw new Error("playerState failed");
+    },
+  };
+  let resolveLogged: () => void;
+  const logged = new Promise<void>((resolve) => {
+    resolveLogged = resolve;
+  });
+  const logger: Logger = {
+    ...silentLogger,
+    error: spy(() => resolveLogged()),
+  };
+  const runner = new BotRunner(
+    db,
+    failingGame,
+    testBot,
+    db.listenForBotTurns(),
+    logger,
+  );
+
+  await db.createGame(
+    "queue",
+    undefined,
+    ["bot-0", "user-1"],
+    [bot, human],
+    failingGame,
+  );
+  await logged;
+  assertEquals(
+    (logger.error as ReturnType<typeof spy>).calls[0].args[0],
+    "Bot failed to move",
+  );
+
+  runner.close();
+  kv.close();
+});
@@ -0,0 +1,119 @@
+import type { BotTurn, DB, GameStorageData } from "./db.ts";
+import { getPlayerState, getPublicState, handleMove } from "./gamedata.ts";
+import type { Logger } from "./logger.ts";
+import type { Bot, Game } from "../types.ts";
+
+// Plays the bot seats of games. Bot turns are delivered through the database's
+// queue whenever a game with bots changes, so each version of a game is played
+// by a single server, even when several share the database.
+export class BotRunner<
+  Config,
+  GameState,
+  Move,
+  PlayerState,
+  PublicState,
+  Outcome,
+> {
+  private abortController = new AbortController();
+
+  constructor(
+    private db: DB,
+    private game: Game<
+      Config,
+      GameState,
+      Move,
+      PlayerState,
+      PublicState,
+      Outcome
+    >,
+    private bot: Bot<Move, PlayerState, PublicState>,
+    botTurnsStream: ReadableStream<BotTurn>,
+    private logger: Logger,
+  ) {
+    botTurnsStream.pipeTo(
+      new WritableStream({
+        // Games are played concurrently, rather than waiting on each other
+        write: (botTurn: BotTurn) => {
+          this.playTurns(botTurn);
+        },
+      }),
+      { signal: this.abortController.signal },
+    ).catch(() => {
+      // Closing aborts the pipe
+    });
+  }
+
+  // Stops playing every game
+  close() {
+    this.abortController.abort();
+  }
+
+  // Asks every bot in the game for a move, unless the game has changed since
+  // the turn was enqueued, in which case there's a newer turn to play
+  private async playTurns(botTurn: BotTurn) {
+    const { gameId, version } = botTurn;
+    let gameData: GameStorageData<Config, GameState, Outcome>;
+    try {
+      gameData = await this.db.getGameStorageData(gameId);
+    } catch (e) {
+      this.logger.error("Bot failed to load game", { gameId, error: e });
+      return;
+    }
+    if (gameData.version !== version || gameData.outcome !== undefined) {
+      return;
+    }
+
+    for (const [playerId, player] of gameData.players.entries()) {
+      if (player.isBot) {
+        await this.playTurn(gameId, gameData, playerId);
+      }
+    }
+  }
+
+  // Asks the bot for a move, and performs it. Moves that are no longer valid
+  // because another player moved first are rejected like any other.
+  private async playTurn(
+    gameId: string,
+    gameData: GameStorageData<Config, GameState, Outcome>,
+    playerId: number,
+  ) {
+    try {
+      const timestamp = this.db.clock.now();
+      const playerState = getPlayerState(
+        gameData,
+        this.game.playerState,
+        playerId,
+        timestamp,
+      );
+      const publicState = getPublicState(
+        gameData,
+        this.game.publicState,
+        timestamp,
+      );
+      const move = await this.bot.chooseMove(
+        playerState,
+        publicState,
+        playerId,
+      );
+      if (move === undefined) {
+        return;
+      }
+      const result = await handleMove(
+        this.db,
+        this.game,
+        gameId,
+        playerId,
+        move,
+      );
+      if (!result.accepted) {
+        this.logger.debug("Bot move rejected", {
+          gameId,
+          playerId,
+          rejection: result.rejection,
+        });
+      }
+    } catch (e) {
+      this.logger.error("Bot failed to move", { gameId, playerId, error: e });
+    }
+  }
+}
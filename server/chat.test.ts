@@ -0,0 +1,155 @@
+import { assertEquals, assertExists } from "@std/assert";
+import { DB, type GameStorageData } from "./db.ts";
+import { DenoKvStorage } from "./storage.ts";
+import {
+  createChatRateLimiter,
+  handleChatMessage,
+  isChatMessageVisible,
+  maxChatMessageLength,
+} from "./chat.ts";
+import type { ChatMessage, Game, User } from "../types.ts";
+
+type TestState = { value: number };
+
+const user1: User = { username: "guest-0001", isGuest: true };
+const user2: User = { username: "guest-0002", isGuest: true };
+
+const testGame: Game<
+  undefined,
+  TestState,
+  undefined,
+  TestState,
+  TestState,
+  "done"
+> = {
+  modes: {
+    queue: { numPlayers: 2, matchmaking: "queue", config: undefined },
+  },
+  setup: () => ({ value: 0 }),
+  isValidMove: () => true,
+  processMove: (state) => state,
+  playerState: (state) => state,
+  publicState: (state) => state,
+  outcome: () => undefined,
+  filterChatMessage: (text) =>
+    text.includes("darn") ? undefined : text.replaceAll("heck", "****"),
+};
+
+async function setupGame(kv: Deno.Kv, gameId: string) {
+  const gameData: GameStorageData<undefined, TestState, "done"> = {
+    modeId: "queue",
+    config: undefined,
+    gameState: { value: 0 },
+    playerUserIds: ["user-1", "user-2"],
+    players: [user1, user2],
+    outcome: undefined,
+    version: 0,
+    seed: "test-seed",
+  };
+  await kv.set(["games", gameId], gameData);
+}
+
+Deno.test("isChatMessageVisible hides the players channel from observers", () => {
+  const message: ChatMessage = {
+    id: "01A",
+    channel: "players",
+    playerId: 0,
+    username: "guest-0001",
+    text: "hello",
+    timestamp: 0,
+  };
+
+  assertEquals(isChatMessageVisible(message, 1), true);
+  assertEquals(isChatMessageVisible(message, undefined), false);
+  assertEquals(
+    isChatMessageVisible({ ...message, channel: "public" }, undefined),
+    true,
+  );
+});
+
+Deno.test("createChatRateLimiter limits messages within a window", () => {
+  const isAllowed = createChatRateLimiter();
+  const start = new Date(0);
+
+  for (let i = 0; i < 5; i++) {
+    assertEquals(isAllowed(start), true);
+  }
+  assertEquals(isAllowed(new Date(1000)), false);
+  assertEquals(isAllowed(new Date(10 * 1000)), true);
+});
+
+Deno.test("handleChatMessage filters and stores messages", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const gameId = "test-chat";
+  await setupGame(kv, gameId);
+
+  const message = await handleChatMessage(
+    db,
+    testGame,
+    gameId,
+    user1,
+    0,
+    "players",
+    "  what the heck  ",
+  );
+  assertExists(message);
+  assertEquals(message.text, "what the ****");
+  assertEquals(message.username, "guest-0001");
+
+  const dropped = await handleChatMessage(
+    db,
+    testGame,
+    gameId,
+    user1,
+    0,
+    "public",
+    "darn",
+  );
+  assertEquals(dropped, undefined);
+
+  assertEquals(await db.getChatMessages(gameId), [message]);
+
+  kv.close();
+});
+
+Deno.test("handleChatMessage rejects invalid messages", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const gameId = "test-chat-invalid";
+  await setupGame(kv, gameId);
+
+  // Observers can't send to the players channel
+  assertEquals(
+    await handleChatMessage(
+      db,
+      testGame,
+      gameId,
+      user2,
+      undefined,
+      "players",
+      "hi",
+    ),
+    undefined,
+  );
+  assertEquals(
+    await handleChatMessage(db, testGame, gameId, user1, 0, "public", "   "),
+    undefined,
+  );
+  assertEquals(
+    await handleChatMessage(
+      db,
+      testGame,
+      gameId,
+      user1,
+      0,
+      "public",
+      "a".repeat(maxChatMessageLength + 1),
+    ),
+    undefined,
+  );
+
+  assertEquals(await db.getChatMessages(gameId), []);
+
+  kv.close();
+});
@@ -0,0 +1,134 @@
+import { ulid } from "@std/ulid";
+import type { DB } from "./db.ts";
+import type {
+  ChatChannel,
+  ChatMessage,
+  Game,
+  LobbyMessage,
+  User,
+} from "../types.ts";
+
+export const maxChatMessageLength = 500;
+const rateLimitCount = 5;
+const rateLimitWindowMs = 10 * 1000;
+
+// Observers can only see messages sent to the public channel
+export function isChatMessageVisible(
+  message: ChatMessage,
+  playerId: number | undefined,
+): boolean {
+  return message.channel === "public" || playerId != null;
+}
+
+// Returns a function that reports whether another message may be sent,
+// allowing at most rateLimitCount messages in any rateLimitWindowMs window.
+export function createChatRateLimiter(): (now: Date) => boolean {
+  const sentTimes: number[] = [];
+  return (now: Date) => {
+    const windowStart = now.getTime() - rateLimitWindowMs;
+    while (sentTimes.length > 0 && sentTimes[0] <= windowStart) {
+      sentTimes.shift();
+    }
+    if (sentTimes.length >= rateLimitCount) {
+      return false;
+    }
+    sentTimes.push(now.getTime());
+    return true;
+  };
+}
+
+// Validates, filters, and stores a chat message. Returns the stored message,
+// or undefined if it was rejected.
+export async function handleChatMessage<
+  Config,
+  GameState,
+  Move,
+  PlayerState,
+  PublicState,
+  Outcome,
+>(
+  db: DB,
+  game: Game<Config, GameState, Move, PlayerState, PublicState, Outcome>,
+  gameId: string,
+  sender: User,
+  playerId: number | undefined,
+  channel: ChatChannel,
+  text: string,
+): Promise<ChatMessage | undefined> {
+  if (channel === "players" && playerId == null) {
+    return;
+  }
+  if (channel !== "players" && channel !== "public") {
+    return;
+  }
+
+  let filteredText: string | undefined = text.trim();
+  if (filteredText === "" || filteredText.length > maxChatMessageLength) {
+    return;
+  }
+
+  if (game.filterChatMessage != null) {
+    const gameData = await db.getGameStorageData<Config, GameState, Outcome>(
+      gameId,
+    );
+    filteredText = game.filterChatMessage(filteredText, {
+      config: gameData.config,
+      players: gameData.players,
+      channel,
+      playerId,
+    });
+    if (filteredText == null || filteredText === "") {
+      return;
+    }
+  }
+
+  const message: ChatMessage = {
+    id: ulid(),
+    channel,
+    playerId,
+    username: sender.username,
+    text: filteredText,
+    timestamp: db.clock.now().getTime(),
+  };
+  await db.addChatMessage(gameId, message);
+  return message;
+}
+
+// Validates and stores a lobby chat message. Returns the stored message, or
+// undefined if it was rejected.
+export async function handleLobbyMessage(
+  db: DB,
+  sender: User,
+  text: string,
+): Promise<LobbyMessage | undefined> {
+  const trimmedText = text.trim();
+  if (trimmedText === "" || trimmedText.length > maxChatMessageLength) {
+    return;
+  }
+
+  const message: LobbyMessage = {
+    id: ulid(),
+    kind: "chat",
+    username: sender.username,
+    text: trimmedText,
+    timestamp: db.clock.now().getTime(),
+  };
+  await db.addLobbyMessage(message);
+  return message;
+}
+
+// Stores an announcement from the server, which is sent to every lobby
+export async function sendAnnouncement(
+  db: DB,
+  text: string,
+): Promise<LobbyMessage> {
+  const message: LobbyMessage = {
+    id: ulid(),
+    kind: "announcement",
+    username: undefined,
+    text,
+    timestamp: db.clock.now().getTime(),
+  };
+  await db.addLobbyMessage(message);
+  return message;
+}
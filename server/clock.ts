@@ -0,0 +1,9 @@
+// Provides the current time. Inject a fixed or manually advanced clock to test
+// timer-based games deterministically.
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
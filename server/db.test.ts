@@ -1,15 +1,17 @@
 import { assertEquals, assertExists, assertRejects } from "@std/assert";
 import { FakeTime } from "@std/testing/time";
 import { DB } from "./db.ts";
+import { DenoKvStorage, MemoryStorage } from "./storage.ts";
+import type { ChatMessage } from "../types.ts";
 
 // Mock game implementation for testing
-const setupGame = () => 1;
+const gameSetup = { setup: () => 1 };
 const user1 = { username: "guest-0001", isGuest: true };
 const user2 = { username: "guest-0002", isGuest: true };
 
 Deno.test("Adds to queue, graduates, and assigns", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   const queue = { queueId: "test-queue", numPlayers: 2, config: undefined };
   const entryId = "test-entry";
@@ -17,8 +19,8 @@ Deno.test("Adds to queue, graduates, and assigns", async () => {
 
   const assignmentStream = db.watchForAssignments(entryId);
   const assignmentStream2 = db.watchForAssignments(entryId2);
-  await db.addToQueue(queue, entryId, "user-1", user1, setupGame);
-  await db.addToQueue(queue, entryId2, "user-2", user2, setupGame);
+  await db.addToQueue(queue, entryId, "user-1", user1, gameSetup);
+  await db.addToQueue(queue, entryId2, "user-2", user2, gameSetup);
 
   // Check for assignment after queue graduation
   const reader = assignmentStream.getReader();
@@ -39,7 +41,7 @@ Deno.test("Adds to queue, graduates, and assigns", async () => {
 
 Deno.test("Removes from queue", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   const queue = {
     queueId: "test-queue-remove",
@@ -48,18 +50,18 @@ Deno.test("Removes from queue", async () => {
   };
   const entryId = "test-entry-remove";
 
-  await db.addToQueue(queue, entryId, "user-1", user1, setupGame);
+  await db.addToQueue(queue, entryId, "user-1", user1, gameSetup);
   await db.removeFromQueue(queue.queueId, entryId);
 
   // Verify the entry is removed (this will implicitly check through the next test succeeding)
-  await db.addToQueue(queue, entryId, "user-1", user1, setupGame);
+  await db.addToQueue(queue, entryId, "user-1", user1, gameSetup);
 
   kv.close();
 });
 
 Deno.test("Creates game and retrieves it", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   const queue = {
     queueId: "test-queue-game",
@@ -70,8 +72,8 @@ Deno.test("Creates game and retrieves it", async () => {
   const entryId2 = "test-entry-game-2";
 
   const assignmentStream = db.watchForAssignments(entryId1);
-  await db.addToQueue(queue, entryId1, "user-1", user1, setupGame);
-  await db.addToQueue(queue, entryId2, "user-2", user2, setupGame);
+  await db.addToQueue(queue, entryId1, "user-1", user1, gameSetup);
+  await db.addToQueue(queue, entryId2, "user-2", user2, gameSetup);
 
   const reader = assignmentStream.getReader();
   const result = await reader.read();
@@ -85,12 +87,17 @@ Deno.test("Creates game and retrieves it", async () => {
   assertEquals(gameData.gameState, 1);
   assertExists(gameData.playerUserIds);
 
+  const gameLog = await db.getGameLog(gameId);
+  assertEquals(gameLog.length, 1);
+  assertEquals(gameLog[0].type, "setup");
+  assertEquals(gameLog[0].version, 0);
+
   kv.close();
 });
 
 Deno.test("Updates game data", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   // Create a game first
   const queue = {
@@ -102,8 +109,8 @@ Deno.test("Updates game data", async () => {
   const entryId2 = "test-entry-update-2";
 
   const assignmentStream = db.watchForAssignments(entryId1);
-  await db.addToQueue(queue, entryId1, "user-1", user1, setupGame);
-  await db.addToQueue(queue, entryId2, "user-2", user2, setupGame);
+  await db.addToQueue(queue, entryId1, "user-1", user1, gameSetup);
+  await db.addToQueue(queue, entryId2, "user-2", user2, gameSetup);
 
   const reader = assignmentStream.getReader();
   const result = await reader.read();
@@ -132,7 +139,7 @@ Deno.test("Updates game data", async () => {
 
 Deno.test("Watches for game changes", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   // Create a game first
   const queue = {
@@ -144,8 +151,8 @@ Deno.test("Watches for game changes", async () => {
   const entryId2 = "test-entry-watch-2";
 
   const assignmentStream = db.watchForAssignments(entryId1);
-  await db.addToQueue(queue, entryId1, "user-1", user1, setupGame);
-  await db.addToQueue(queue, entryId2, "user-2", user2, setupGame);
+  await db.addToQueue(queue, entryId1, "user-1", user1, gameSetup);
+  await db.addToQueue(queue, entryId2, "user-2", user2, gameSetup);
 
   const reader = assignmentStream.getReader();
   const result = await reader.read();
@@ -181,7 +188,7 @@ Deno.test("Watches for game changes", async () => {
 
 Deno.test("Completes game", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   // Create a game first
   const queue = {
@@ -193,8 +200,8 @@ Deno.test("Completes game", async () => {
   const entryId2 = "test-entry-complete-2";
 
   const assignmentStream = db.watchForAssignments(entryId1);
-  await db.addToQueue(queue, entryId1, "user-1", user1, setupGame);
-  await db.addToQueue(queue, entryId2, "user-2", user2, setupGame);
+  await db.addToQueue(queue, entryId1, "user-1", user1, gameSetup);
+  await db.addToQueue(queue, entryId2, "user-2", user2, gameSetup);
 
   const reader = assignmentStream.getReader();
   const result = await reader.read();
@@ -224,7 +231,7 @@ Deno.test("Completes game", async () => {
 
 Deno.test("Lists active games", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   // Create a game
   const queue = {
@@ -236,8 +243,8 @@ Deno.test("Lists active games", async () => {
   const entryId2 = "test-entry-active-2";
 
   const assignmentStream = db.watchForAssignments(entryId1);
-  await db.addToQueue(queue, entryId1, "user-1", user1, setupGame);
-  await db.addToQueue(queue, entryId2, "user-2", user2, setupGame);
+  await db.addToQueue(queue, entryId1, "user-1", user1, gameSetup);
+  await db.addToQueue(queue, entryId2, "user-2", user2, gameSetup);
 
   const reader = assignmentStream.getReader();
   const result = await reader.read();
@@ -253,12 +260,12 @@ Deno.test("Lists active games", async () => {
   kv.close();
 });
 
-Deno.test("Watches for active game count changes", async () => {
+Deno.test("Watches for active game changes", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
-  const countStream = db.watchForActiveGameListChanges();
-  const reader = countStream.getReader();
+  const changeStream = db.watchForActiveGameChanges();
+  const reader = changeStream.getReader();
 
   // Create a new game to trigger a count change
   const queue = {
@@ -269,20 +276,78 @@ Deno.test("Watches for active game count changes", async () => {
   const entryId1 = "test-entry-count-1";
   const entryId2 = "test-entry-count-2";
 
-  await db.addToQueue(queue, entryId1, "user-1", user1, setupGame);
-  await db.addToQueue(queue, entryId2, "user-2", user2, setupGame);
+  await db.addToQueue(queue, entryId1, "user-1", user1, gameSetup);
+  await db.addToQueue(queue, entryId2, "user-2", user2, gameSetup);
 
   const result = await reader.read();
   await reader.cancel();
 
   assertExists(result.value);
+  const [activeGame] = await db.getAllActiveGames();
+  assertEquals(result.value, [{ gameId: activeGame.gameId, activeGame }]);
 
   kv.close();
 });
 
+Deno.test("Logs a change to an active game after each move", async () => {
+  let time = 0;
+  const clock = { now: () => new Date(time) };
+  const storage = new MemoryStorage(clock);
+  const db = new DB(storage, clock);
+
+  const gameId = await db.createGame(
+    "test-mode",
+    undefined,
+    ["user-1", "user-2"],
+    [user1, user2],
+    gameSetup,
+  );
+  // Only changes made after the watch starts are read
+  time = 1000;
+  const reader = db.watchForActiveGameChanges().getReader();
+  const gameData = await db.getGameStorageData<undefined, number, unknown>(
+    gameId,
+  );
+
+  await db.updateGameStorageData(
+    gameId,
+    { ...gameData, version: 1 },
+    undefined,
+    {
+      logEntry: {
+        type: "move",
+        playerId: 0,
+        move: "move",
+        timestamp: new Date(time),
+        version: 1,
+      },
+      summary: "One move",
+    },
+  );
+  const moved = await reader.read();
+  assertEquals(
+    moved.value?.map(({ activeGame }) => ({
+      moveCount: activeGame?.moveCount,
+      summary: activeGame?.summary,
+    })),
+    [{ moveCount: 1, summary: "One move" }],
+  );
+
+  await db.updateGameStorageData(gameId, {
+    ...gameData,
+    version: 2,
+    outcome: "done",
+  });
+  const ended = await reader.read();
+  assertEquals(ended.value, [{ gameId, activeGame: undefined }]);
+
+  await reader.cancel();
+  storage.close();
+});
+
 Deno.test("Handles errors for non-existent games", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   await assertRejects(
     () => db.getGameStorageData("non-existent-game-id"),
@@ -295,7 +360,7 @@ Deno.test("Handles errors for non-existent games", async () => {
 
 Deno.test("updateGameStorageData with refreshDelay enqueues a game ID with delay", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   // Using FakeTime to control time progression
   using fakeTime = new FakeTime();
@@ -311,6 +376,7 @@ Deno.test("updateGameStorageData with refreshDelay enqueues a game ID with delay
     .set(activeGameTriggerKey, {})
     .set(activeGameKey, {})
     .set(gameKey, {
+      modeId: "test-mode",
       config: undefined,
       gameState: { timestamp: new Date() },
       playerUserIds: ["user-1", "user-2"],
@@ -320,6 +386,7 @@ Deno.test("updateGameStorageData with refreshDelay enqueues a game ID with delay
       ],
       outcome: undefined,
       version: 0,
+      seed: "test-seed",
     })
     .commit();
 
@@ -348,3 +415,901 @@ Deno.test("updateGameStorageData with refreshDelay enqueues a game ID with delay
   await reader.cancel();
   kv.close();
 });
+
+Deno.test("Queues with bot seats start games with bots", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const queue = {
+    queueId: "test-queue-bots",
+    numPlayers: 3,
+    config: undefined,
+    bots: { seats: 2, username: "robot" },
+  };
+  const assignments = db.watchForAssignments("entry-bots").getReader();
+  await db.addToQueue(queue, "entry-bots", "user-1", user1, gameSetup);
+
+  const result = await assignments.read();
+  await assignments.cancel();
+  assertExists(result.value);
+
+  const gameData = await db.getGameStorageData(result.value.gameId);
+  assertEquals(gameData.playerUserIds, ["user-1", "bot-1", "bot-2"]);
+  assertEquals(gameData.players, [
+    user1,
+    { username: "robot", isGuest: false, isBot: true },
+    { username: "robot", isGuest: false, isBot: true },
+  ]);
+
+  kv.close();
+});
+
+Deno.test("Queues fill seats with bots after players wait long enough", async () => {
+  const kv = await Deno.openKv(":memory:");
+  let now = 0;
+  const db = new DB(new DenoKvStorage(kv), { now: () => new Date(now) });
+
+  const queue = {
+    queueId: "test-queue-bot-fill",
+    numPlayers: 2,
+    config: undefined,
+    bots: { fillAfter: 30_000, username: "robot" },
+  };
+  await db.addToQueue(queue, "entry-fill", "user-1", user1, gameSetup);
+
+  now = 29_999;
+  await db.retryQueue(queue, gameSetup);
+  assertEquals(await db.getAllActiveGames(), []);
+
+  now = 30_000;
+  await db.retryQueue(queue, gameSetup);
+  const [activeGame] = await db.getAllActiveGames();
+  assertExists(activeGame);
+  const gameData = await db.getGameStorageData(activeGame.gameId);
+  assertEquals(gameData.playerUserIds, ["user-1", "bot-1"]);
+
+  kv.close();
+});
+
+Deno.test("Invites graduate once enough players join", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const queue = {
+    queueId: "test-invite-mode",
+    numPlayers: 2,
+    config: undefined,
+  };
+  const inviteCode = "ABC123";
+  const entryId1 = "test-invite-entry-1";
+  const entryId2 = "test-invite-entry-2";
+
+  assertEquals(await db.createInvite(inviteCode, queue), true);
+  assertEquals(await db.createInvite(inviteCode, queue), false);
+
+  const assignmentStream = db.watchForAssignments(entryId1);
+  assertEquals(
+    await db.joinInvite(inviteCode, entryId1, "user-1", user1, gameSetup),
+    true,
+  );
+  assertEquals(
+    await db.joinInvite(inviteCode, entryId2, "user-2", user2, gameSetup),
+    true,
+  );
+
+  const reader = assignmentStream.getReader();
+  const result = await reader.read();
+  await reader.cancel();
+
+  assertExists(result.value);
+  const gameData = await db.getGameStorageData(result.value.gameId);
+  assertEquals(gameData.playerUserIds, ["user-1", "user-2"]);
+
+  // The invite is consumed once the game starts
+  assertEquals((await kv.get(["invites", inviteCode])).value, null);
+
+  kv.close();
+});
+
+Deno.test("Joining an unknown invite fails", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const joined = await db.joinInvite(
+    "NOPE00",
+    "test-invite-entry",
+    "user-1",
+    user1,
+    gameSetup,
+  );
+  assertEquals(joined, false);
+
+  kv.close();
+});
+
+Deno.test("Invites are deleted when their last entry leaves", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const queue = {
+    queueId: "test-invite-mode",
+    numPlayers: 3,
+    config: undefined,
+  };
+  const inviteCode = "XYZ789";
+
+  await db.createInvite(inviteCode, queue);
+  await db.joinInvite(inviteCode, "entry-1", "user-1", user1, gameSetup);
+  await db.joinInvite(inviteCode, "entry-2", "user-2", user2, gameSetup);
+
+  await db.leaveInvite(inviteCode, "entry-1");
+  assertExists((await kv.get(["invites", inviteCode])).value);
+
+  await db.leaveInvite(inviteCode, "entry-2");
+  assertEquals((await kv.get(["invites", inviteCode])).value, null);
+
+  kv.close();
+});
+
+Deno.test("Rated queues only match players with similar ratings", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const queue = {
+    queueId: "test-rated-queue",
+    numPlayers: 2,
+    config: undefined,
+    rating: { initialWindow: 100, windowGrowthPerSecond: 0 },
+  };
+
+  await kv.set(["ratings", "user-2", queue.queueId], 1900);
+
+  await db.addToQueue(queue, "rated-entry-1", "user-1", user1, gameSetup);
+  await db.addToQueue(queue, "rated-entry-2", "user-2", user2, gameSetup);
+  assertEquals(await db.getAllActiveGames(), []);
+
+  const assignmentStream = db.watchForAssignments("rated-entry-1");
+  await db.addToQueue(queue, "rated-entry-3", "user-3", user1, gameSetup);
+
+  const reader = assignmentStream.getReader();
+  const result = await reader.read();
+  await reader.cancel();
+
+  assertExists(result.value);
+  const gameData = await db.getGameStorageData(result.value.gameId);
+  assertEquals(gameData.playerUserIds, ["user-1", "user-3"]);
+  assertEquals(gameData.players.map((player) => player.rating), [1500, 1500]);
+
+  kv.close();
+});
+
+Deno.test("Rated invites start regardless of the players' ratings", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const queue = {
+    queueId: "test-rated-invite",
+    numPlayers: 2,
+    config: undefined,
+    rating: { initialWindow: 100, windowGrowthPerSecond: 0 },
+  };
+  const inviteCode = "RATED2";
+
+  await kv.set(["ratings", "user-2", queue.queueId], 1900);
+  await db.createInvite(inviteCode, queue);
+
+  const assignmentStream = db.watchForAssignments("invite-entry-1");
+  await db.joinInvite(inviteCode, "invite-entry-1", "user-1", user1, gameSetup);
+  await db.joinInvite(inviteCode, "invite-entry-2", "user-2", user2, gameSetup);
+
+  const reader = assignmentStream.getReader();
+  const result = await reader.read();
+  await reader.cancel();
+
+  assertExists(result.value);
+  const gameData = await db.getGameStorageData(result.value.gameId);
+  assertEquals(gameData.playerUserIds, ["user-1", "user-2"]);
+  assertEquals(gameData.players.map((player) => player.rating), [1500, 1900]);
+
+  kv.close();
+});
+
+Deno.test("Completing a game with placements updates ratings", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const gameId = "test-rated-game";
+  const gameData = {
+    modeId: "rated-mode",
+    config: undefined,
+    gameState: 1,
+    playerUserIds: ["user-1", "user-2"],
+    players: [user1, user2],
+    outcome: undefined as string | undefined,
+    version: 0,
+    seed: "test-seed",
+  };
+  await kv.set(["games", gameId], gameData);
+
+  await db.updateGameStorageData(
+    gameId,
+    { ...gameData, outcome: "user-2 wins", version: 1 },
+    undefined,
+    { placements: [1, 0] },
+  );
+
+  assertEquals(await db.getRating("user-1", "rated-mode"), 1484);
+  assertEquals(await db.getRatings("user-2"), { "rated-mode": 1516 });
+
+  kv.close();
+});
+
+Deno.test("Completing a game against a bot only rates the player", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const bot = { username: "robot", isGuest: false, isBot: true };
+  const gameId = await db.createGame(
+    "rated-mode",
+    undefined,
+    ["user-1", "bot-1"],
+    [user1, bot],
+    gameSetup,
+  );
+  const gameData = await db.getGameStorageData<undefined, number, string>(
+    gameId,
+  );
+  await db.updateGameStorageData(
+    gameId,
+    { ...gameData, outcome: "user-1 wins", version: 1 },
+    undefined,
+    { placements: [0, 1] },
+  );
+
+  assertEquals(await db.getRating("user-1", "rated-mode"), 1516);
+  assertEquals(await db.getRatings("bot-1"), {});
+
+  kv.close();
+});
+
+Deno.test("Completing a game with results updates stats and leaderboards", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  await db.storeUser("user-1", user1);
+  await db.storeUser("user-2", user2);
+
+  const play = async (winner: number) => {
+    const gameId = await db.createGame(
+      "test-mode",
+      undefined,
+      ["user-1", "user-2"],
+      [user1, user2],
+      gameSetup,
+    );
+    const gameData = await db.getGameStorageData<undefined, number, string>(
+      gameId,
+    );
+    await db.updateGameStorageData(
+      gameId,
+      { ...gameData, outcome: "done", version: 1 },
+      undefined,
+      { results: winner === 0 ? ["win", "loss"] : ["loss", "win"] },
+    );
+  };
+  await play(0);
+  await play(0);
+  await play(1);
+
+  assertEquals(await db.getStats("user-1"), {
+    "test-mode": {
+      gamesPlayed: 3,
+      wins: 2,
+      losses: 1,
+      draws: 0,
+      streak: -1,
+      bestStreak: 2,
+    },
+  });
+  assertEquals(
+    (await db.getLeaderboard("test-mode", 10)).map((entry) => [
+      entry.username,
+      entry.stats.wins,
+    ]),
+    [["guest-0001", 2], ["guest-0002", 1]],
+  );
+  assertEquals(
+    (await db.getLeaderboard("test-mode", 1)).map((entry) => entry.username),
+    ["guest-0001"],
+  );
+  assertEquals(await db.getLeaderboard("other-mode", 10), []);
+
+  kv.close();
+});
+
+Deno.test("Games completing at the same time both update ratings and stats", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  await db.storeUser("user-1", user1);
+  await db.storeUser("user-2", user2);
+
+  const gameIds = await Promise.all([0, 1].map(() =>
+    db.createGame(
+      "rated-mode",
+      undefined,
+      ["user-1", "user-2"],
+      [user1, user2],
+      gameSetup,
+    )
+  ));
+  await Promise.all(gameIds.map(async (gameId) => {
+    const gameData = await db.getGameStorageData<undefined, number, string>(
+      gameId,
+    );
+    await db.updateGameStorageData(
+      gameId,
+      { ...gameData, outcome: "user-1 wins", version: 1 },
+      undefined,
+      { placements: [0, 1], results: ["win", "loss"] },
+    );
+  }));
+
+  assertEquals(await db.getRating("user-1", "rated-mode"), 1531);
+  assertEquals((await db.getStats("user-1"))["rated-mode"].wins, 2);
+  assertEquals((await db.getStats("user-2"))["rated-mode"].losses, 2);
+
+  kv.close();
+});
+
+Deno.test("Only one of two conflicting updates to a game succeeds", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const gameId = await db.createGame(
+    "rated-mode",
+    undefined,
+    ["user-1", "user-2"],
+    [user1, user2],
+    gameSetup,
+  );
+  const gameData = await db.getGameStorageData<undefined, number, string>(
+    gameId,
+  );
+
+  const results = await Promise.allSettled(
+    [0, 1].map(() =>
+      db.updateGameStorageData(
+        gameId,
+        { ...gameData, outcome: "user-1 wins", version: 1 },
+        undefined,
+        { placements: [0, 1], results: ["win", "loss"] },
+      )
+    ),
+  );
+
+  assertEquals(
+    results.map((result) => result.status).sort(),
+    ["fulfilled", "rejected"],
+  );
+  assertEquals((await db.getStats("user-1"))["rated-mode"].wins, 1);
+
+  kv.close();
+});
+
+Deno.test("Looks up user IDs by their current username", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  await db.storeUser("user-1", user1);
+  assertEquals(await db.getUserIdByUsername("guest-0001"), "user-1");
+
+  await db.storeUser("user-1", { ...user1, username: "renamed" }, "guest-0001");
+  assertEquals(await db.getUserIdByUsername("guest-0001"), null);
+  assertEquals(await db.getUserIdByUsername("renamed"), "user-1");
+
+  kv.close();
+});
+
+Deno.test("Extends and revokes tokens, one at a time or by user", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const expiration = new Date(Date.now() + 60000);
+  await db.storeToken("token-1", { userId: "user-1", expiration });
+  await db.storeToken("token-2", { userId: "user-1", expiration });
+  await db.storeToken("token-3", { userId: "user-2", expiration });
+
+  const extended = new Date(Date.now() + 120000);
+  assertEquals(await db.extendToken("token-1", extended), true);
+  assertEquals(await db.getToken("token-1"), {
+    userId: "user-1",
+    expiration: extended,
+  });
+
+  assertEquals(await db.revokeToken("token-1"), true);
+  assertEquals(await db.revokeToken("token-1"), false);
+  assertEquals(await db.getToken("token-1"), null);
+  // A revoked token can't be brought back by extending it
+  assertEquals(await db.extendToken("token-1", extended), false);
+  assertEquals(await db.getToken("token-1"), null);
+
+  assertEquals(await db.revokeAllTokens("user-1"), 1);
+  assertEquals(await db.getToken("token-2"), null);
+  assertEquals(await db.getToken("token-3"), {
+    userId: "user-2",
+    expiration,
+  });
+  assertEquals(await db.revokeAllTokens("user-1"), 0);
+
+  kv.close();
+});
+
+Deno.test("Streams a token's data until it's revoked", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const expiration = new Date(Date.now() + 60000);
+  await db.storeToken("token-1", { userId: "user-1", expiration });
+  const reader = db.watchToken("token-1").getReader();
+  assertEquals((await reader.read()).value, { userId: "user-1", expiration });
+
+  await db.revokeToken("token-1");
+  assertEquals((await reader.read()).value, null);
+
+  await reader.cancel();
+  kv.close();
+});
+
+Deno.test("Indexes each user's games until they complete", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const now = new Date("2024-01-01T00:00:00Z");
+  const db = new DB(new DenoKvStorage(kv), { now: () => now });
+  const bot = { username: "robot", isGuest: false, isBot: true };
+
+  const gameId = await db.createGame(
+    "test-mode",
+    undefined,
+    ["user-1", "bot-1"],
+    [user1, bot],
+    { setup: () => 1, activePlayers: () => [0] },
+  );
+
+  assertEquals(await db.getUserGames("user-1"), [{
+    gameId,
+    modeId: "test-mode",
+    playerId: 0,
+    players: [user1, bot],
+    startedAt: now.getTime(),
+    moveCount: 0,
+    summary: undefined,
+    isYourTurn: true,
+  }]);
+  assertEquals(await db.getUserGames("bot-1"), []);
+
+  const gameData = await db.getGameStorageData<undefined, number, string>(
+    gameId,
+  );
+  await db.updateGameStorageData(gameId, {
+    ...gameData,
+    activePlayers: [1],
+    version: 1,
+  });
+  assertEquals(
+    (await db.getUserGames("user-1")).map((game) => game.isYourTurn),
+    [false],
+  );
+
+  await db.updateGameStorageData(gameId, {
+    ...gameData,
+    outcome: "done",
+    activePlayers: [],
+    version: 2,
+  });
+  assertEquals(await db.getUserGames("user-1"), []);
+
+  kv.close();
+});
+
+Deno.test("Browses active games by mode and player in pages", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const user3 = { username: "guest-0003", isGuest: true };
+
+  const gameIds = [
+    await db.createGame("mode-a", undefined, ["user-1", "user-2"], [
+      user1,
+      user2,
+    ], gameSetup),
+    await db.createGame("mode-a", undefined, ["user-1", "user-3"], [
+      user1,
+      user3,
+    ], gameSetup),
+    await db.createGame("mode-b", undefined, ["user-2", "user-3"], [
+      user2,
+      user3,
+    ], gameSetup),
+  ];
+  const sortedIds = [...gameIds].sort();
+  const browse = async (options: {
+    modeId?: string;
+    username?: string;
+    limit?: number;
+    cursor?: string;
+  }) => {
+    const page = await db.browseActiveGames({ limit: 20, ...options });
+    return {
+      gameIds: page.games.map((game) => game.gameId),
+      cursor: page.cursor,
+    };
+  };
+
+  const firstPage = await browse({ limit: 2 });
+  assertEquals(firstPage, {
+    gameIds: sortedIds.slice(0, 2),
+    cursor: sortedIds[2],
+  });
+  assertEquals(await browse({ limit: 2, cursor: firstPage.cursor }), {
+    gameIds: sortedIds.slice(2),
+    cursor: undefined,
+  });
+
+  assertEquals(
+    (await browse({ modeId: "mode-a" })).gameIds,
+    gameIds.slice(0, 2).sort(),
+  );
+  assertEquals(
+    (await browse({ username: "guest-0002" })).gameIds,
+    [gameIds[0], gameIds[2]].sort(),
+  );
+  assertEquals(
+    (await browse({ username: "guest-0002", modeId: "mode-b" })).gameIds,
+    [gameIds[2]],
+  );
+
+  const gameData = await db.getGameStorageData<undefined, number, string>(
+    gameIds[2],
+  );
+  await db.updateGameStorageData(gameIds[2], {
+    ...gameData,
+    outcome: "done",
+    version: 1,
+  });
+  assertEquals((await browse({ modeId: "mode-b" })).gameIds, []);
+  assertEquals(
+    (await browse({ username: "guest-0002" })).gameIds,
+    [gameIds[0]],
+  );
+
+  kv.close();
+});
+
+Deno.test("Counts moves and updates the summary of active games", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const gameId = await db.createGame(
+    "test-mode",
+    undefined,
+    ["user-1", "user-2"],
+    [user1, user2],
+    { setup: () => 1, summary: (state) => `Value ${state}` },
+  );
+  const [created] = await db.getAllActiveGames();
+  assertEquals(created.moveCount, 0);
+  assertEquals(created.summary, "Value 1");
+
+  const gameData = await db.getGameStorageData<undefined, number, string>(
+    gameId,
+  );
+  await db.updateGameStorageData(
+    gameId,
+    { ...gameData, gameState: 2, version: 1 },
+    undefined,
+    {
+      logEntry: {
+        type: "move",
+        playerId: 0,
+        move: "increment",
+        timestamp: new Date(),
+        version: 1,
+      },
+      summary: "Value 2",
+    },
+  );
+  await db.updateGameStorageData(
+    gameId,
+    { ...gameData, gameState: 2, version: 2 },
+    undefined,
+    {
+      logEntry: { type: "refresh", timestamp: new Date(), version: 2 },
+      summary: "Value 2",
+    },
+  );
+
+  const [updated] = await db.getAllActiveGames();
+  assertEquals(updated.moveCount, 1);
+  assertEquals(updated.summary, "Value 2");
+
+  kv.close();
+});
+
+Deno.test("Archives completed games by time, mode, player, and user", async () => {
+  const kv = await Deno.openKv(":memory:");
+  let now = new Date("2024-01-01T00:00:00Z");
+  const db = new DB(new DenoKvStorage(kv), { now: () => now });
+  const bot = { username: "robot", isGuest: false, isBot: true };
+
+  const complete = async (gameId: string, placements?: number[]) => {
+    const gameData = await db.getGameStorageData<undefined, number, string>(
+      gameId,
+    );
+    await db.updateGameStorageData(
+      gameId,
+      { ...gameData, outcome: "done", version: 1 },
+      undefined,
+      {
+        logEntry: {
+          type: "move",
+          playerId: 0,
+          move: "finish",
+          timestamp: now,
+          version: 1,
+        },
+        placements,
+      },
+    );
+  };
+
+  const first = await db.createGame(
+    "mode-a",
+    undefined,
+    [
+      "user-1",
+      "user-2",
+    ],
+    [user1, user2],
+    gameSetup,
+  );
+  const second = await db.createGame(
+    "mode-b",
+    undefined,
+    [
+      "user-1",
+      "bot-1",
+    ],
+    [user1, bot],
+    gameSetup,
+  );
+  const third = await db.createGame(
+    "mode-a",
+    undefined,
+    [
+      "user-2",
+      "bot-1",
+    ],
+    [user2, bot],
+    gameSetup,
+  );
+
+  await complete(first, [0, 1]);
+  now = new Date("2024-01-01T00:01:00Z");
+  await complete(second);
+  now = new Date("2024-01-01T00:02:00Z");
+  await complete(third);
+
+  const list = async (options: {
+    modeId?: string;
+    username?: string;
+    limit?: number;
+    cursor?: string;
+  }) => {
+    const page = await db.listCompletedGames({ limit: 20, ...options });
+    return {
+      gameIds: page.games.map((game) => game.gameId),
+      cursor: page.cursor,
+    };
+  };
+
+  const firstPage = await list({ limit: 2 });
+  assertEquals(firstPage, { gameIds: [third, second], cursor: first });
+  assertEquals(await list({ limit: 2, cursor: firstPage.cursor }), {
+    gameIds: [first],
+    cursor: undefined,
+  });
+  assertEquals((await list({ modeId: "mode-a" })).gameIds, [third, first]);
+  assertEquals((await list({ username: "robot" })).gameIds, [third, second]);
+  assertEquals(
+    (await list({ username: "robot", modeId: "mode-b" })).gameIds,
+    [second],
+  );
+
+  const userPage = await db.listUserCompletedGames<string>("user-1", {
+    limit: 20,
+  });
+  assertEquals(userPage.games, [
+    {
+      gameId: second,
+      modeId: "mode-b",
+      players: [user1, bot],
+      startedAt: new Date("2024-01-01T00:00:00Z").getTime(),
+      completedAt: new Date("2024-01-01T00:01:00Z").getTime(),
+      moveCount: 1,
+      outcome: "done",
+      placements: undefined,
+      playerId: 0,
+    },
+    {
+      gameId: first,
+      modeId: "mode-a",
+      players: [user1, user2],
+      startedAt: new Date("2024-01-01T00:00:00Z").getTime(),
+      completedAt: new Date("2024-01-01T00:00:00Z").getTime(),
+      moveCount: 1,
+      outcome: "done",
+      placements: [0, 1],
+      playerId: 0,
+    },
+  ]);
+  assertEquals(
+    (await db.listUserCompletedGames("bot-1", { limit: 20 })).games,
+    [],
+  );
+
+  kv.close();
+});
+
+Deno.test("Removing the last connection enqueues an abandonment check", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const gameId = "test-abandon-game";
+  const abandonmentChecks = db.listenForAbandonmentChecks().getReader();
+
+  await db.addConnection(gameId, 0, "connection-1");
+  await db.addConnection(gameId, 0, "connection-2");
+  assertEquals(await db.isConnected(gameId, 0), true);
+
+  await db.removeConnection(gameId, 0, "connection-1", 10);
+  assertEquals(await db.isConnected(gameId, 0), true);
+
+  await db.removeConnection(gameId, 0, "connection-2", 10);
+  assertEquals(await db.isConnected(gameId, 0), false);
+
+  const result = await abandonmentChecks.read();
+  assertEquals(result.value, {
+    type: "abandonmentCheck",
+    gameId,
+    playerId: 0,
+  });
+
+  await abandonmentChecks.cancel();
+  kv.close();
+});
+
+Deno.test("Closes connections that are no longer refreshed", async () => {
+  let time = 0;
+  const clock = { now: () => new Date(time) };
+  const storage = new MemoryStorage(clock);
+  const db = new DB(storage, clock);
+
+  const gameId = "test-expired-connection-game";
+  const connectionChecks = db.listenForConnectionChecks().getReader();
+  const abandonmentChecks = db.listenForAbandonmentChecks().getReader();
+
+  await db.addConnection(gameId, 0, "connection-1", 10);
+  time = 30_000;
+  await db.refreshConnection(gameId, 0, "connection-1", 10);
+
+  // The first check finds the refreshed connection and checks again later
+  time = 60_000;
+  storage.deliverDue();
+  await db.checkConnection((await connectionChecks.read()).value!);
+  assertEquals(await db.isConnected(gameId, 0), true);
+
+  // The server holding the connection stopped refreshing it
+  time = 90_000;
+  assertEquals(await db.isConnected(gameId, 0), false);
+  storage.deliverDue();
+  await db.checkConnection((await connectionChecks.read()).value!);
+  assertEquals(await db.getPresence(gameId), [
+    { playerId: 0, isConnected: false, lastSeen: 30_000 },
+  ]);
+
+  time = 90_010;
+  storage.deliverDue();
+  const result = await abandonmentChecks.read();
+  assertEquals(result.value, {
+    type: "abandonmentCheck",
+    gameId,
+    playerId: 0,
+  });
+
+  await connectionChecks.cancel();
+  await abandonmentChecks.cancel();
+  storage.close();
+});
+
+Deno.test("Tracks player presence across connections", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const gameId = "test-presence-game";
+  assertEquals(await db.getPresence(gameId), []);
+
+  const presenceReader = db.watchForPresenceChanges(gameId).getReader();
+
+  await db.addConnection(gameId, 0, "connection-1");
+  await db.addConnection(gameId, 1, "connection-2");
+  await db.removeConnection(gameId, 1, "connection-2");
+
+  const presence = await db.getPresence(gameId);
+  assertEquals(
+    presence.map(({ playerId, isConnected }) => ({ playerId, isConnected })),
+    [
+      { playerId: 0, isConnected: true },
+      { playerId: 1, isConnected: false },
+    ],
+  );
+  assertExists(presence[1].lastSeen);
+
+  const result = await presenceReader.read();
+  assertExists(result.value);
+  await presenceReader.cancel();
+
+  kv.close();
+});
+
+Deno.test("Stores chat messages and streams new ones", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const gameId = "test-chat-game";
+  const buildMessage = (id: string, text: string): ChatMessage => ({
+    id,
+    channel: "public",
+    playerId: 0,
+    username: "guest-0001",
+    text,
+    timestamp: 0,
+  });
+
+  await db.addChatMessage(gameId, buildMessage("01A", "first"));
+  const chatReader = db.watchForChatMessages(gameId).getReader();
+  await new Promise((resolve) => setTimeout(resolve, 50));
+
+  await db.addChatMessage(gameId, buildMessage("01B", "second"));
+  const result = await chatReader.read();
+  assertEquals(result.value?.map((message) => message.text), ["second"]);
+  await chatReader.cancel();
+
+  const history = await db.getChatMessages(gameId);
+  assertEquals(history.map((message) => message.text), ["first", "second"]);
+  const after = await db.getChatMessages(gameId, "01A");
+  assertEquals(after.map((message) => message.text), ["second"]);
+
+  kv.close();
+});
+
+Deno.test("Retains a bounded lobby message history", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  for (let i = 0; i < 105; i++) {
+    await db.addLobbyMessage({
+      id: `01${i.toString().padStart(3, "0")}`,
+      kind: "chat",
+      username: "guest-0001",
+      text: `message ${i}`,
+      timestamp: i,
+    });
+  }
+
+  const messages = await db.getLobbyMessages();
+  assertEquals(messages.length, 100);
+  assertEquals(messages[0].text, "message 5");
+  assertEquals(messages[99].text, "message 104");
+  assertEquals(
+    (await Array.fromAsync(kv.list({ prefix: ["lobbymessages"] }))).length,
+    100,
+  );
+
+  kv.close();
+});
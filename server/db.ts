@@ -1,31 +1,221 @@
-import { ulid } from "@std/ulid";
-import type { ActiveGame, SetupObject, TokenData, User } from "../types.ts";
+import { monotonicUlid, ulid } from "@std/ulid";
+import { createRandom, generateSeed } from "./random.ts";
+import {
+  computeNewRatings,
+  defaultRating,
+  selectRatedEntries,
+} from "./ratings.ts";
+import { addResult, emptyStats } from "./stats.ts";
+import type {
+  ActiveGame,
+  ActivePlayersObject,
+  BotOptions,
+  ChatMessage,
+  CompletedGame,
+  LeaderboardEntry,
+  LobbyMessage,
+  PlayerLeftReason,
+  PlayerPresence,
+  PlayerResult,
+  RatingOptions,
+  Ratings,
+  SetupObject,
+  SummaryObject,
+  TimeControl,
+  TokenData,
+  User,
+  UserCompletedGame,
+  UserGame,
+  UserStats,
+  UserStatsByMode,
+} from "../types.ts";
+import type {
+  AtomicOperation,
+  Storage,
+  StorageEntry,
+  StorageKey,
+} from "./storage.ts";
+import { type Clock, systemClock } from "./clock.ts";
+import type { PasswordHash } from "./passwords.ts";
+import type { StoredPasskey } from "./passkeys.ts";
+import {
+  type ClockCheck,
+  createTurnClocks,
+  type StoredTurnClocks,
+} from "./turnclocks.ts";
 
 export type QueueConfig<Config> = {
   queueId: string;
   numPlayers: number;
   config: Config;
+  rating?: RatingOptions;
+  // Seats filled by the game's bot, which plays under the username
+  bots?: BotOptions & { username: string };
+  timeControl?: TimeControl;
+};
+
+// The parts of a game used to start it
+export type GameSetup<Config, GameState> = {
+  setup(o: SetupObject<Config>): GameState;
+  activePlayers?(state: GameState, o: ActivePlayersObject<Config>): number[];
+  summary?(state: GameState, o: SummaryObject<Config>): string;
 };
 
 type QueueEntryValue = {
   timestamp: Date;
   userId: string;
   user: User;
+  rating?: number;
 };
 
 export type GameStorageData<Config, GameState, Outcome> = {
+  modeId: string;
   config: Config;
   gameState: GameState;
   playerUserIds: string[];
   players: User[];
   outcome: Outcome | undefined;
   version: number;
+  seed: string;
+  // IDs of the players expected to act, for games that define activePlayers
+  activePlayers?: number[];
+  // Each player's clock, for modes with a timeControl
+  clocks?: StoredTurnClocks;
+};
+
+export type ActiveGameStorageData = Omit<ActiveGame, "isYourTurn"> & {
+  // User IDs of the game's activePlayers
+  activeUserIds: string[];
+};
+
+// Logged for each change to an active game that lobbies show, so that they can
+// be updated one game at a time
+export type ActiveGameChange = {
+  gameId: string;
+  // Undefined once the game has an outcome
+  activeGame: ActiveGameStorageData | undefined;
+};
+
+// Stored for each game without an outcome
+type ActiveGameValue = Omit<ActiveGameStorageData, "gameId">;
+
+// Stored for each player of a game without an outcome, so users can find their
+// games. The rest of the game's details come from the active game.
+type UserGameValue = Pick<UserGame, "playerId">;
+
+// Stored for each game once it has an outcome
+type CompletedGameValue<Outcome> = Omit<CompletedGame<Outcome>, "gameId">;
+
+// Stored in the archive of each player who isn't a bot
+type UserCompletedGameValue = Pick<UserCompletedGame<unknown>, "playerId">;
+
+// Largest page of games returned when browsing active or completed games
+const maxBrowserLimit = 100;
+
+// Tokens revoked per transaction. Each one deletes two keys, which keeps the
+// transaction well within the mutation limit.
+const tokenRevocationBatchSize = 200;
+
+export type GameLogEntry<Move> =
+  | { type: "setup"; timestamp: Date; version: number }
+  | {
+    type: "move";
+    playerId: number;
+    move: Move;
+    timestamp: Date;
+    version: number;
+  }
+  | { type: "refresh"; timestamp: Date; version: number }
+  | {
+    type: "playerLeft";
+    playerId: number;
+    reason: PlayerLeftReason;
+    timestamp: Date;
+    version: number;
+  }
+  | { type: "timeExpired"; playerId: number; timestamp: Date; version: number };
+
+// Enqueued when a player's last connection to a game closes
+export type AbandonmentCheck = {
+  type: "abandonmentCheck";
+  gameId: string;
+  playerId: number;
+};
+
+// Enqueued when a player connects to a game, and again for as long as the
+// connection's heartbeat keeps it alive, so that connections left behind by a
+// server that stopped are still closed
+export type ConnectionCheck = {
+  type: "connectionCheck";
+  gameId: string;
+  playerId: number;
+  connectionId: string;
+  abandonmentDelay?: number;
+};
+
+// Enqueued whenever a game with bot seats changes, so that each version of the
+// game is played by a single server
+export type BotTurn = {
+  type: "botTurn";
+  gameId: string;
+  version: number;
+};
+
+export type GameUpdateOptions<Move> = {
+  // Entry appended to the game's log
+  logEntry?: GameLogEntry<Move>;
+  // Placement of each player, used to update ratings when the game completes
+  placements?: number[];
+  // Result of each player, used to update statistics when the game completes
+  results?: PlayerResult[];
+  // Delay until a running clock could run out, to schedule a clock check
+  clockCheckDelay?: number;
+  // The game's summary of the updated state, shown in lists of active games
+  summary?: string;
+};
+
+// The credentials a user registers with. Users can have both.
+export type UserCredentials = {
+  password?: PasswordHash;
+  passkey?: StoredPasskey;
+};
+
+export type PasskeyStorageData = {
+  userId: string;
+  passkey: StoredPasskey;
+};
+
+// Stored for each challenge sent to a browser creating or using a passkey,
+// until the browser responds or it expires. Registration challenges are for a
+// user and the username they're claiming.
+export type PasskeyChallengeStorageData = {
+  registration?: { userId: string; username: string };
+  expiration: Date;
+};
+
+export type InviteStorageData<Config> = {
+  queueConfig: QueueConfig<Config>;
+};
+
+export type ConnectionStorageData = {
+  // When the connection was opened or last refreshed
+  timestamp: Date;
 };
 
 export type AssignmentStorageData = {
   gameId: string;
 };
 
+const inviteTtlMs = 1000 * 60 * 60 * 24;
+
+const activeGameChangeTtlMs = 1000 * 60;
+
+// Connections are treated as closed if they haven't been refreshed for this
+// long, and servers refresh them several times within it. The stored keys
+// outlive that so that the connection check can still find them.
+const connectionTtlMs = 1000 * 60;
+export const connectionRefreshIntervalMs = connectionTtlMs / 3;
+
 async function repeatUntilSuccess(fn: () => Promise<{ ok: boolean }>) {
   let res = { ok: false };
   while (!res.ok) {
@@ -40,6 +230,28 @@ function getQueuePrefix(queueId: string) {
 function getQueueEntryKey(queueId: string, entryId: string) {
   return ["queueentry", queueId, entryId];
 }
+function getInviteKey(inviteCode: string) {
+  return ["invites", inviteCode];
+}
+function getInviteEntryPrefix(inviteCode: string) {
+  return ["inviteentry", inviteCode];
+}
+function getInviteEntryKey(inviteCode: string, entryId: string) {
+  return ["inviteentry", inviteCode, entryId];
+}
+// Bots aren't stored users, so each seat gets an ID that can't collide with one
+function getBotUserId(playerId: number) {
+  return `bot-${playerId}`;
+}
+
+// Seats left for queued players once bots have taken theirs
+function getPlayerSeats<Config>(queueConfig: QueueConfig<Config>) {
+  return Math.max(
+    1,
+    queueConfig.numPlayers - (queueConfig.bots?.seats ?? 0),
+  );
+}
+
 function getAssignmentKey(entryId: string) {
   return ["assignments", entryId];
 }
@@ -52,23 +264,372 @@ function getActiveGamePrefix() {
 function getActiveGameKey(gameId: string) {
   return ["activegames", gameId];
 }
+function getActiveGameChangePrefix() {
+  return ["activegamechanges"];
+}
+function getActiveGameChangeKey(timestamp: number, changeId: string) {
+  return ["activegamechanges", timestamp, changeId];
+}
+function getActiveGameByModePrefix(modeId: string) {
+  return ["activegamesbymode", modeId];
+}
+function getActiveGameByModeKey(modeId: string, gameId: string) {
+  return ["activegamesbymode", modeId, gameId];
+}
+function getActiveGameByPlayerPrefix(username: string) {
+  return ["activegamesbyplayer", username];
+}
+function getActiveGameByPlayerKey(username: string, gameId: string) {
+  return ["activegamesbyplayer", username, gameId];
+}
+// Keys that are stored along with each active game, so they can be browsed
+function getActiveGameIndexKeys<Config, GameState, Outcome>(
+  gameId: string,
+  gameData: GameStorageData<Config, GameState, Outcome>,
+): StorageKey[] {
+  const usernames = new Set(gameData.players.map((player) => player.username));
+  return [
+    getActiveGameByModeKey(gameData.modeId, gameId),
+    ...[...usernames].map((username) =>
+      getActiveGameByPlayerKey(username, gameId)
+    ),
+  ];
+}
+function getCompletedGameKey(gameId: string) {
+  return ["completedgames", gameId];
+}
+// Completed games are indexed by the negated completion time, so the most
+// recently completed games are listed first
+function getCompletedGameByTimePrefix() {
+  return ["completedgamesbytime"];
+}
+function getCompletedGameByModePrefix(modeId: string) {
+  return ["completedgamesbymode", modeId];
+}
+function getCompletedGameByPlayerPrefix(username: string) {
+  return ["completedgamesbyplayer", username];
+}
+function getCompletedGameByUserPrefix(userId: string) {
+  return ["completedgamesbyuser", userId];
+}
+function getCompletedGameIndexKey(
+  prefix: StorageKey,
+  completedAt: number,
+  gameId: string,
+) {
+  return [...prefix, -completedAt, gameId];
+}
+function getUserGamePrefix(userId: string) {
+  return ["usergames", userId];
+}
+function getUserGameKey(userId: string, gameId: string) {
+  return ["usergames", userId, gameId];
+}
+function getUserGameTriggerKey(userId: string) {
+  return ["usergametrigger", userId];
+}
+// Stores the user and indexes them by username, releasing their previous one
+function addUserUpdates(
+  transaction: AtomicOperation,
+  userId: string,
+  user: User,
+  previousUsername: string | undefined,
+): AtomicOperation {
+  transaction = transaction
+    .set(getUserKey(userId), user)
+    .set(getUserByUsernameKey(user.username), user)
+    .set(getUserIdByUsernameKey(user.username), userId);
+
+  if (previousUsername != null && previousUsername !== user.username) {
+    transaction = transaction
+      .delete(getUserByUsernameKey(previousUsername))
+      .delete(getUserIdByUsernameKey(previousUsername));
+  }
+  return transaction;
+}
+// Bot user IDs are shared between games, so only other players are indexed
+function getIndexedUserIds<Config, GameState, Outcome>(
+  gameData: GameStorageData<Config, GameState, Outcome>,
+): string[] {
+  return gameData.playerUserIds.filter((_, playerId) =>
+    !gameData.players[playerId].isBot
+  );
+}
+function getActiveUserIds<Config, GameState, Outcome>(
+  gameData: GameStorageData<Config, GameState, Outcome>,
+): string[] {
+  return (gameData.activePlayers ?? []).map((playerId) =>
+    gameData.playerUserIds[playerId]
+  );
+}
 function getGameKey(gameId: string) {
   return ["games", gameId];
 }
+function getGameLogPrefix(gameId: string) {
+  return ["gamelog", gameId];
+}
+function getGameLogKey(gameId: string, version: number) {
+  return ["gamelog", gameId, version];
+}
+function getGameConnectionPrefix(gameId: string) {
+  return ["connections", gameId];
+}
+function getConnectionPrefix(gameId: string, playerId: number) {
+  return ["connections", gameId, playerId];
+}
+function getConnectionKey(
+  gameId: string,
+  playerId: number,
+  connectionId: string,
+) {
+  return ["connections", gameId, playerId, connectionId];
+}
+function getLastSeenPrefix(gameId: string) {
+  return ["lastseen", gameId];
+}
+function getLastSeenKey(gameId: string, playerId: number) {
+  return ["lastseen", gameId, playerId];
+}
+function getPresenceTriggerKey(gameId: string) {
+  return ["presencetrigger", gameId];
+}
+function getChatPrefix(gameId: string) {
+  return ["chat", gameId];
+}
+function getChatKey(gameId: string, messageId: string) {
+  return ["chat", gameId, messageId];
+}
+function getChatTriggerKey(gameId: string) {
+  return ["chattrigger", gameId];
+}
+function getLobbyMessagePrefix() {
+  return ["lobbymessages"];
+}
+function getLobbyMessageKey(messageId: string) {
+  return ["lobbymessages", messageId];
+}
+function getLobbyMessageTriggerKey() {
+  return ["lobbymessagetrigger"];
+}
 function getUserKey(userId: string) {
   return ["users", userId];
 }
 function getUserByUsernameKey(username: string) {
   return ["usersByUsername", username];
 }
+function getUserIdByUsernameKey(username: string) {
+  return ["userIdsByUsername", username];
+}
+function getPasswordKey(userId: string) {
+  return ["passwords", userId];
+}
+function getPasskeyKey(credentialId: string) {
+  return ["passkeys", credentialId];
+}
+function getPasskeyChallengeKey(challenge: string) {
+  return ["passkeychallenges", challenge];
+}
 function getTokenKey(token: string) {
   return ["tokens", token];
 }
+function getUserTokenPrefix(userId: string) {
+  return ["usertokens", userId];
+}
+function getUserTokenKey(userId: string, token: string) {
+  return ["usertokens", userId, token];
+}
+function getRatingPrefix(userId: string) {
+  return ["ratings", userId];
+}
+function getRatingKey(userId: string, modeId: string) {
+  return ["ratings", userId, modeId];
+}
+function getStatsPrefix(userId: string) {
+  return ["stats", userId];
+}
+function getStatsKey(userId: string, modeId: string) {
+  return ["stats", userId, modeId];
+}
+function getLeaderboardPrefix(modeId: string) {
+  return ["leaderboards", modeId];
+}
+// Users are ranked by negated wins, so those with the most are listed first
+function getLeaderboardKey(modeId: string, wins: number, userId: string) {
+  return ["leaderboards", modeId, -wins, userId];
+}
+
+type NewGame<Config, GameState> = {
+  gameStorageData: GameStorageData<Config, GameState, undefined>;
+  setupLogEntry: GameLogEntry<never>;
+  summary: string | undefined;
+  // Delay until the first clock could run out, for games with clocks
+  clockCheckDelay?: number;
+};
+
+// Runs the game's setup, and builds the data stored for a new game
+function setupNewGame<Config, GameState>(
+  modeId: string,
+  config: Config,
+  playerUserIds: string[],
+  players: User[],
+  gameSetup: GameSetup<Config, GameState>,
+  timestamp: Date,
+  seed: string,
+  timeControl: TimeControl | undefined,
+): NewGame<Config, GameState> {
+  const gameState = gameSetup.setup({
+    timestamp,
+    players,
+    config,
+    random: createRandom(seed, 0),
+  });
+  const gameStorageData: GameStorageData<Config, GameState, undefined> = {
+    modeId,
+    config,
+    gameState,
+    playerUserIds,
+    players,
+    outcome: undefined,
+    version: 0,
+    seed,
+  };
+  if (gameSetup.activePlayers) {
+    gameStorageData.activePlayers = gameSetup.activePlayers(gameState, {
+      players,
+      config,
+    });
+  }
+  const summary = gameSetup.summary?.(gameState, { players, config });
+  const setupLogEntry: GameLogEntry<never> = {
+    type: "setup",
+    timestamp,
+    version: 0,
+  };
+  if (timeControl === undefined) {
+    return { gameStorageData, setupLogEntry, summary };
+  }
+
+  // Every clock starts with the same time, so the first can't run out sooner
+  gameStorageData.clocks = createTurnClocks(
+    timeControl,
+    players.length,
+    timestamp,
+  );
+  return {
+    gameStorageData,
+    setupLogEntry,
+    summary,
+    clockCheckDelay: timeControl.initialTime + (timeControl.delay ?? 0),
+  };
+}
+
+// Adds a bot turn for the game's version to the transaction, if it has bots
+// and is still in progress
+function addBotTurn<Config, GameState, Outcome>(
+  transaction: AtomicOperation,
+  gameId: string,
+  gameData: GameStorageData<Config, GameState, Outcome>,
+) {
+  if (
+    gameData.outcome === undefined &&
+    gameData.players.some((player) => player.isBot)
+  ) {
+    const botTurn: BotTurn = {
+      type: "botTurn",
+      gameId,
+      version: gameData.version,
+    };
+    transaction.enqueue(botTurn);
+  }
+}
+
+// Logs a change to an active game and touches the trigger key that lobbies
+// watch. Changes are kept for long enough that every server has read them.
+function addActiveGameChange(
+  transaction: AtomicOperation,
+  timestamp: Date,
+  change: ActiveGameChange,
+) {
+  transaction
+    .set(
+      getActiveGameChangeKey(timestamp.getTime(), monotonicUlid()),
+      change,
+      { expireIn: activeGameChangeTtlMs },
+    )
+    .set(getActiveGameTriggerKey(), {});
+}
+
+// Adds a new game to the transaction, marking it as active
+function addNewGame<Config, GameState>(
+  transaction: AtomicOperation,
+  gameId: string,
+  newGame: NewGame<Config, GameState>,
+) {
+  const { modeId, players, playerUserIds } = newGame.gameStorageData;
+  const activeGameKey = getActiveGameKey(gameId);
+  const activeGameValue: ActiveGameValue = {
+    modeId,
+    players,
+    startedAt: newGame.setupLogEntry.timestamp.getTime(),
+    moveCount: 0,
+    summary: newGame.summary,
+    activeUserIds: getActiveUserIds(newGame.gameStorageData),
+  };
+  const gameKey = getGameKey(gameId);
+  const setupLogKey = getGameLogKey(gameId, 0);
+  addActiveGameChange(transaction, newGame.setupLogEntry.timestamp, {
+    gameId,
+    activeGame: { gameId, ...activeGameValue },
+  });
+  transaction
+    .check({ key: activeGameKey, versionstamp: null })
+    .set(activeGameKey, activeGameValue)
+    .check({ key: gameKey, versionstamp: null })
+    .set(gameKey, newGame.gameStorageData)
+    .check({ key: setupLogKey, versionstamp: null })
+    .set(setupLogKey, newGame.setupLogEntry);
+
+  for (const key of getActiveGameIndexKeys(gameId, newGame.gameStorageData)) {
+    transaction.set(key, {});
+  }
+  for (const userId of getIndexedUserIds(newGame.gameStorageData)) {
+    const userGameValue: UserGameValue = {
+      playerId: playerUserIds.indexOf(userId),
+    };
+    transaction
+      .set(getUserGameKey(userId, gameId), userGameValue)
+      .set(getUserGameTriggerKey(userId), {});
+  }
+
+  if (newGame.clockCheckDelay !== undefined) {
+    const clockCheck: ClockCheck = { type: "clockCheck", gameId };
+    transaction.enqueue(clockCheck, { delay: newGame.clockCheckDelay });
+  }
+  addBotTurn(transaction, gameId, newGame.gameStorageData);
+}
+
+// Chat messages are kept for a week, and at most this many are sent to a
+// socket when it first connects.
+const chatTtlMs = 1000 * 60 * 60 * 24 * 7;
+const chatHistoryLimit = 50;
+
+// Only the most recent lobby messages are retained
+const lobbyMessageHistoryLimit = 100;
 
 export class DB {
-  private kv: Deno.Kv;
+  private kv: Storage;
+  private isListeningToQueue = false;
+  private refreshController?: ReadableStreamDefaultController<string>;
+  private abandonmentCheckController?: ReadableStreamDefaultController<
+    AbandonmentCheck
+  >;
+  private clockCheckController?: ReadableStreamDefaultController<ClockCheck>;
+  private connectionCheckController?: ReadableStreamDefaultController<
+    ConnectionCheck
+  >;
+  private botTurnController?: ReadableStreamDefaultController<BotTurn>;
 
-  constructor(kv: Deno.Kv) {
+  constructor(kv: Storage, public readonly clock: Clock = systemClock) {
     this.kv = kv;
   }
 
@@ -77,18 +638,46 @@ export class DB {
     entryId: string,
     userId: string,
     user: User,
-    setupGame: (setupObject: SetupObject<Config>) => GameState,
+    gameSetup: GameSetup<Config, GameState>,
   ): Promise<void> {
+    const entryValue = await this.buildQueueEntryValue(
+      queueConfig,
+      userId,
+      user,
+    );
     await repeatUntilSuccess(async () => {
       const entryKey = getQueueEntryKey(queueConfig.queueId, entryId);
       return await this.kv
         .atomic()
         .check({ key: entryKey, versionstamp: null })
-        .set(entryKey, { timestamp: new Date(), userId, user })
+        .set(entryKey, entryValue)
         .commit();
     });
 
-    await this.maybeGraduateFromQueue(queueConfig, setupGame);
+    await this.maybeGraduateFromQueue(queueConfig, gameSetup);
+  }
+
+  // Attempts to start a game from the queue again. Used for rated queues, where
+  // rating windows widen over time without any new entries joining, and for
+  // queues that fill seats with bots once players have waited long enough.
+  public async retryQueue<Config, GameState>(
+    queueConfig: QueueConfig<Config>,
+    gameSetup: GameSetup<Config, GameState>,
+  ): Promise<void> {
+    await this.maybeGraduateFromQueue(queueConfig, gameSetup);
+  }
+
+  private async buildQueueEntryValue<Config>(
+    queueConfig: QueueConfig<Config>,
+    userId: string,
+    user: User,
+  ): Promise<QueueEntryValue> {
+    const timestamp = this.clock.now();
+    if (queueConfig.rating == null) {
+      return { timestamp, userId, user };
+    }
+    const rating = await this.getRating(userId, queueConfig.queueId);
+    return { timestamp, userId, user, rating };
   }
 
   public async removeFromQueue(
@@ -104,25 +693,150 @@ export class DB {
     });
   }
 
+  // Stores a new invite for the given queue config. Returns false if the
+  // invite code is already in use.
+  public async createInvite<Config>(
+    inviteCode: string,
+    queueConfig: QueueConfig<Config>,
+  ): Promise<boolean> {
+    const inviteKey = getInviteKey(inviteCode);
+    const inviteValue: InviteStorageData<Config> = { queueConfig };
+    const res = await this.kv.atomic()
+      .check({ key: inviteKey, versionstamp: null })
+      .set(inviteKey, inviteValue, { expireIn: inviteTtlMs })
+      .commit();
+    return res.ok;
+  }
+
+  // Adds an entry to an existing invite, and starts the game if enough players
+  // have joined. Returns false if the invite does not exist.
+  public async joinInvite<Config, GameState>(
+    inviteCode: string,
+    entryId: string,
+    userId: string,
+    user: User,
+    gameSetup: GameSetup<Config, GameState>,
+  ): Promise<boolean> {
+    const queueConfig = await this.addInviteEntry<Config>(
+      inviteCode,
+      entryId,
+      userId,
+      user,
+    );
+    if (queueConfig == null) {
+      return false;
+    }
+
+    await this.maybeGraduateEntries(
+      getInviteEntryPrefix(inviteCode),
+      queueConfig,
+      gameSetup,
+      [getInviteKey(inviteCode)],
+    );
+    return true;
+  }
+
+  // Writes the entry and touches the invite so that concurrent leaves retry.
+  // Returns the invite's queue config, or null if the invite does not exist.
+  private async addInviteEntry<Config>(
+    inviteCode: string,
+    entryId: string,
+    userId: string,
+    user: User,
+  ): Promise<QueueConfig<Config> | null> {
+    const inviteKey = getInviteKey(inviteCode);
+    const entryKey = getInviteEntryKey(inviteCode, entryId);
+
+    while (true) {
+      const inviteEntry = await this.kv.get<InviteStorageData<Config>>(
+        inviteKey,
+      );
+      if (inviteEntry.value == null) {
+        return null;
+      }
+
+      const entryValue = await this.buildQueueEntryValue(
+        inviteEntry.value.queueConfig,
+        userId,
+        user,
+      );
+      const res = await this.kv.atomic()
+        .check(inviteEntry)
+        .set(inviteKey, inviteEntry.value, { expireIn: inviteTtlMs })
+        .check({ key: entryKey, versionstamp: null })
+        .set(entryKey, entryValue)
+        .commit();
+      if (res.ok) {
+        return inviteEntry.value.queueConfig;
+      }
+    }
+  }
+
+  // Removes an entry from an invite. The invite is deleted once it has no
+  // remaining entries.
+  public async leaveInvite(
+    inviteCode: string,
+    entryId: string,
+  ): Promise<void> {
+    await this.kv.delete(getInviteEntryKey(inviteCode, entryId));
+
+    const inviteEntryPrefix = getInviteEntryPrefix(inviteCode);
+    await repeatUntilSuccess(async () => {
+      const inviteEntry = await this.kv.get(getInviteKey(inviteCode));
+      const remainingEntries = await Array.fromAsync(
+        this.kv.list({ prefix: inviteEntryPrefix }, { limit: 1 }),
+      );
+      if (inviteEntry.value == null || remainingEntries.length > 0) {
+        return { ok: true };
+      }
+
+      return await this.kv.atomic()
+        .check(inviteEntry)
+        .delete(inviteEntry.key)
+        .commit();
+    });
+  }
+
+  // Queued players are matched by rating, and those who have waited longer
+  // than the mode's bots.fillAfter have the rest of their game's seats filled
+  // by bots.
   private async maybeGraduateFromQueue<Config, GameState>(
     queueConfig: QueueConfig<Config>,
-    setupGame: (o: SetupObject<Config>) => GameState,
+    gameSetup: GameSetup<Config, GameState>,
+  ): Promise<void> {
+    await this.maybeGraduateEntries(
+      getQueuePrefix(queueConfig.queueId),
+      queueConfig,
+      gameSetup,
+      [],
+      true,
+    );
+  }
+
+  // Starts a game with entries under the given prefix, if there are enough of
+  // them. Invites and unrated queues take the first entries, and rated queues
+  // take entries within each other's rating windows. Seats not taken by
+  // entries are filled by bots. Any additional keys are deleted when the game
+  // starts.
+  private async maybeGraduateEntries<Config, GameState>(
+    queuePrefix: StorageKey,
+    queueConfig: QueueConfig<Config>,
+    gameSetup: GameSetup<Config, GameState>,
+    additionalDeletes: StorageKey[] = [],
+    isQueue = false,
   ): Promise<void> {
     const gameId = ulid();
-    const queuePrefix = getQueuePrefix(queueConfig.queueId);
-    const gameKey = getGameKey(gameId);
-    const activeGameKey = getActiveGameKey(gameId);
-    const activeGameTriggerKey = getActiveGameTriggerKey();
 
     await repeatUntilSuccess(async () => {
       // Get desired queue entries, if they exist
-      const queueEntries = await Array.fromAsync(this.kv.list<QueueEntryValue>(
-        { prefix: queuePrefix },
-        { limit: queueConfig.numPlayers },
-      ));
+      const queueEntries = await this.selectQueueEntries(
+        queuePrefix,
+        queueConfig,
+        isQueue,
+      );
 
-      // If the queue doesn't have enough entrants, stop
-      if (queueEntries.length < queueConfig.numPlayers) {
+      // If the queue doesn't have enough matching entrants, stop
+      if (queueEntries == null) {
         return { ok: true };
       }
 
@@ -130,34 +844,44 @@ export class DB {
       const playerUserIds: string[] = [];
       const players: User[] = [];
 
-      for (let i = 0; i < queueConfig.numPlayers; i++) {
-        playerUserIds[i] = queueEntries[i].value.userId;
-        players[i] = queueEntries[i].value.user;
+      for (const [i, entry] of queueEntries.entries()) {
+        const { userId, user, rating } = entry.value;
+        playerUserIds[i] = userId;
+        players[i] = rating == null ? user : { ...user, rating };
+      }
+      for (let i = queueEntries.length; i < queueConfig.numPlayers; i++) {
+        playerUserIds[i] = getBotUserId(i);
+        players[i] = {
+          username: queueConfig.bots!.username,
+          isGuest: false,
+          isBot: true,
+        };
       }
-      const timestamp = new Date();
-      const setupObject = { timestamp, players, config: queueConfig.config };
-      const gameState = setupGame(setupObject);
-      const gameStorageData: GameStorageData<Config, GameState, undefined> = {
-        config: queueConfig.config,
-        gameState,
-        playerUserIds,
-        players,
-        outcome: undefined,
-        version: 0,
-      };
-
       // Create a transaction that will update the ActiveGameCount, add an activeGameKey, and write the Storage Data
-      const transaction = this.kv.atomic()
-        .set(activeGameTriggerKey, {})
-        .check({ key: activeGameKey, versionstamp: null })
-        .set(activeGameKey, {})
-        .check({ key: gameKey, versionstamp: null })
-        .set(gameKey, gameStorageData);
+      const transaction = this.kv.atomic();
+      addNewGame(
+        transaction,
+        gameId,
+        setupNewGame(
+          queueConfig.queueId,
+          queueConfig.config,
+          playerUserIds,
+          players,
+          gameSetup,
+          this.clock.now(),
+          generateSeed(),
+          queueConfig.timeControl,
+        ),
+      );
+
+      for (const key of additionalDeletes) {
+        transaction.delete(key);
+      }
 
       let playerId = 0;
       // For each player
       for (const entry of queueEntries) {
-        const entryId = entry.key[2] as string;
+        const entryId = entry.key[entry.key.length - 1] as string;
         const assignmentKey = getAssignmentKey(entryId);
         const assignmentValue: AssignmentStorageData = {
           gameId,
@@ -176,6 +900,99 @@ export class DB {
     });
   }
 
+  // Starts a game with the given players directly, without matchmaking.
+  // Returns the new game's ID.
+  public async createGame<Config, GameState>(
+    modeId: string,
+    config: Config,
+    playerUserIds: string[],
+    players: User[],
+    gameSetup: GameSetup<Config, GameState>,
+    options: { seed?: string; timeControl?: TimeControl } = {},
+  ): Promise<string> {
+    const gameId = ulid();
+    const transaction = this.kv.atomic();
+    addNewGame(
+      transaction,
+      gameId,
+      setupNewGame(
+        modeId,
+        config,
+        playerUserIds,
+        players,
+        gameSetup,
+        this.clock.now(),
+        options.seed ?? generateSeed(),
+        options.timeControl,
+      ),
+    );
+    const res = await transaction.commit();
+    if (!res.ok) {
+      throw new Error(`Failed to create game ${gameId}`);
+    }
+    return gameId;
+  }
+
+  // Invited players chose to play each other, so only queues match by rating
+  // and fill seats with bots for players who have waited
+  private async selectQueueEntries<Config>(
+    queuePrefix: StorageKey,
+    queueConfig: QueueConfig<Config>,
+    isQueue: boolean,
+  ): Promise<StorageEntry<QueueEntryValue>[] | undefined> {
+    const playerSeats = getPlayerSeats(queueConfig);
+    const fillWithBots = (queueEntries: StorageEntry<QueueEntryValue>[]) =>
+      isQueue
+        ? this.selectEntriesToFillWithBots(queueEntries, queueConfig)
+        : undefined;
+
+    if (queueConfig.rating == null || !isQueue) {
+      const queueEntries = await Array.fromAsync(this.kv.list<QueueEntryValue>(
+        { prefix: queuePrefix },
+        { limit: playerSeats },
+      ));
+      if (queueEntries.length < playerSeats) {
+        return fillWithBots(queueEntries);
+      }
+      return queueEntries;
+    }
+
+    const queueEntries = await Array.fromAsync(this.kv.list<QueueEntryValue>(
+      { prefix: queuePrefix },
+    ));
+    const ratedEntries = queueEntries.map((entry) => ({
+      entry,
+      rating: entry.value.rating ?? defaultRating,
+      timestamp: entry.value.timestamp,
+    }));
+    const selected = selectRatedEntries(
+      ratedEntries,
+      playerSeats,
+      queueConfig.rating,
+      this.clock.now(),
+    );
+    return selected?.map(({ entry }) => entry) ?? fillWithBots(queueEntries);
+  }
+
+  // Once the longest-waiting entry has waited for bots.fillAfter, takes the
+  // entries in the order they joined (entry IDs are ULIDs), leaving the
+  // remaining seats for bots.
+  private selectEntriesToFillWithBots<Config>(
+    queueEntries: StorageEntry<QueueEntryValue>[],
+    queueConfig: QueueConfig<Config>,
+  ): StorageEntry<QueueEntryValue>[] | undefined {
+    const fillAfter = queueConfig.bots?.fillAfter;
+    if (fillAfter == null || queueEntries.length === 0) {
+      return undefined;
+    }
+    const waited = this.clock.now().getTime() -
+      queueEntries[0].value.timestamp.getTime();
+    if (waited < fillAfter) {
+      return undefined;
+    }
+    return queueEntries.slice(0, getPlayerSeats(queueConfig));
+  }
+
   public watchForAssignments(
     entryId: string,
   ): ReadableStream<AssignmentStorageData> {
@@ -198,14 +1015,16 @@ export class DB {
    * @param gameId The ID of the game to update
    * @param gameData The updated game data
    * @param refreshDelay Optional delay in milliseconds for scheduling a refresh
+   * @param options Optional log entry, placements and results, written in the same transaction
    */
-  public async updateGameStorageData<Config, GameState, Outcome>(
+  public async updateGameStorageData<Config, GameState, Outcome, Move>(
     gameId: string,
     gameData: GameStorageData<Config, GameState, Outcome>,
     refreshDelay?: number,
+    options: GameUpdateOptions<Move> = {},
   ): Promise<void> {
+    const { logEntry, placements, results, clockCheckDelay, summary } = options;
     const gameKey = getGameKey(gameId);
-    const activeGameTriggerKey = getActiveGameTriggerKey();
 
     const entry = await this.kv.get<
       GameStorageData<Config, GameState, Outcome>
@@ -216,27 +1035,102 @@ export class DB {
       throw new Error(`Appending moves to unknown unstored ${gameId}`);
     }
 
-    let transaction = this.kv.atomic()
-      .check(entry)
-      .set(gameKey, gameData);
+    // Ratings and statistics are shared with the players' other games, so the
+    // transaction is retried when another game changes them first. It fails if
+    // this game has changed since it was read.
+    await repeatUntilSuccess(async () => {
+      let transaction = this.kv.atomic()
+        .check(entry)
+        .set(gameKey, gameData);
 
-    if (gameData.outcome !== undefined) {
       const activeGameKey = getActiveGameKey(gameId);
-      transaction = transaction
-        .delete(activeGameKey)
-        .set(activeGameTriggerKey, {});
-    }
+      const activeGame = await this.kv.get<ActiveGameValue>(activeGameKey);
+      if (gameData.outcome !== undefined) {
+        transaction = transaction.delete(activeGameKey);
+        addActiveGameChange(transaction, this.clock.now(), {
+          gameId,
+          activeGame: undefined,
+        });
+        for (const key of getActiveGameIndexKeys(gameId, gameData)) {
+          transaction = transaction.delete(key);
+        }
+        for (const userId of getIndexedUserIds(gameData)) {
+          transaction = transaction
+            .delete(getUserGameKey(userId, gameId))
+            .set(getUserGameTriggerKey(userId), {});
+        }
+        if (activeGame.value != null) {
+          transaction = this.addCompletedGame(
+            transaction,
+            gameId,
+            gameData,
+            activeGame.value,
+            logEntry?.type === "move",
+            placements,
+          );
+        }
+      } else if (activeGame.value != null) {
+        const activeUserIds = getActiveUserIds(gameData);
+        const activeGameValue: ActiveGameValue = {
+          ...activeGame.value,
+          moveCount: activeGame.value.moveCount +
+            (logEntry?.type === "move" ? 1 : 0),
+          summary,
+          activeUserIds,
+        };
+        transaction = transaction.set(activeGameKey, activeGameValue);
 
-    // If refreshDelay is provided, enqueue a refresh as part of the same transaction
-    if (refreshDelay !== undefined && gameData.outcome === undefined) {
-      transaction = transaction.enqueue(gameId, { delay: refreshDelay });
-    }
+        if (
+          JSON.stringify(activeGameValue) !== JSON.stringify(activeGame.value)
+        ) {
+          addActiveGameChange(transaction, this.clock.now(), {
+            gameId,
+            activeGame: { gameId, ...activeGameValue },
+          });
+          for (const userId of getIndexedUserIds(gameData)) {
+            transaction = transaction.set(getUserGameTriggerKey(userId), {});
+          }
+        }
+      }
 
-    const res = await transaction.commit();
+      // If refreshDelay is provided, enqueue a refresh as part of the same transaction
+      if (refreshDelay !== undefined && gameData.outcome === undefined) {
+        transaction = transaction.enqueue(gameId, { delay: refreshDelay });
+      }
 
-    if (!res.ok) {
-      throw new Error(`Failed to update game ${gameId}`);
-    }
+      if (clockCheckDelay !== undefined && gameData.outcome === undefined) {
+        const clockCheck: ClockCheck = { type: "clockCheck", gameId };
+        transaction = transaction.enqueue(clockCheck, {
+          delay: clockCheckDelay,
+        });
+      }
+
+      addBotTurn(transaction, gameId, gameData);
+
+      if (logEntry !== undefined) {
+        const logKey = getGameLogKey(gameId, logEntry.version);
+        transaction = transaction
+          .check({ key: logKey, versionstamp: null })
+          .set(logKey, logEntry);
+      }
+
+      if (placements !== undefined && gameData.outcome !== undefined) {
+        await this.addRatingUpdates(transaction, gameData, placements);
+      }
+
+      if (results !== undefined && gameData.outcome !== undefined) {
+        await this.addStatsUpdates(transaction, gameData, results);
+      }
+
+      const res = await transaction.commit();
+      if (!res.ok) {
+        const current = await this.kv.get(gameKey);
+        if (current.versionstamp !== entry.versionstamp) {
+          throw new Error(`Failed to update game ${gameId}`);
+        }
+      }
+      return res;
+    });
   }
 
   public async getGameStorageData<Config, GameState, Outcome>(
@@ -255,6 +1149,20 @@ export class DB {
     }
   }
 
+  // Returns every log entry for the game, ordered by version
+  public async getGameLog<Move>(gameId: string): Promise<GameLogEntry<Move>[]> {
+    const iter = this.kv.list<GameLogEntry<Move>>({
+      prefix: getGameLogPrefix(gameId),
+    });
+    const response: GameLogEntry<Move>[] = [];
+
+    for await (const res of iter) {
+      response.push(res.value);
+    }
+
+    return response;
+  }
+
   public watchForGameChanges<Config, GameState, Outcome>(
     gameId: string,
   ): ReadableStream<GameStorageData<Config, GameState, Outcome>> {
@@ -274,50 +1182,689 @@ export class DB {
     );
   }
 
-  public async getAllActiveGames(): Promise<ActiveGame[]> {
+  // Lists every active game. Lobbies load them once, then follow
+  // watchForActiveGameChanges.
+  public async getAllActiveGames(): Promise<ActiveGameStorageData[]> {
     const key = getActiveGamePrefix();
-    const iter = this.kv.list<string>({ prefix: key });
-    const response: ActiveGame[] = [];
+    const iter = this.kv.list<ActiveGameValue>({ prefix: key });
+    const response: ActiveGameStorageData[] = [];
 
     for await (const res of iter) {
       const gameId = res.key[res.key.length - 1] as string;
-      response.push({ gameId });
+      response.push({ gameId, ...res.value });
     }
 
     return response;
   }
 
-  // Watches for changes to the activeGameTriggerKey, which is an empty key only used
-  // to trigger this method.
-  public watchForActiveGameListChanges(): ReadableStream<ActiveGame[]> {
-    const activeGameTriggerKey = getActiveGameTriggerKey();
-    const stream = this.kv.watch([activeGameTriggerKey]);
-    return stream.pipeThrough(
-      new TransformStream({
-        transform: async (_events, controller) => {
-          const allGames = await this.getAllActiveGames();
-          controller.enqueue(allGames);
-        },
-      }),
+  // Returns a page of active games in the order they started, using the index
+  // for the mode or player when filtering by one. The cursor is the ID of the
+  // first game on the next page.
+  public async browseActiveGames(
+    options: {
+      modeId?: string;
+      username?: string;
+      limit: number;
+      cursor?: string;
+    },
+  ): Promise<{ games: ActiveGameStorageData[]; cursor: string | undefined }> {
+    const { modeId, username, cursor } = options;
+    const limit = Math.min(Math.max(1, options.limit), maxBrowserLimit);
+    const prefix = username !== undefined
+      ? getActiveGameByPlayerPrefix(username)
+      : modeId !== undefined
+      ? getActiveGameByModePrefix(modeId)
+      : getActiveGamePrefix();
+    const iter = this.kv.list<unknown>(
+      cursor === undefined
+        ? { prefix }
+        : { prefix, start: [...prefix, cursor] },
     );
-  }
 
-  public listenForRefreshes(): ReadableStream<string> {
-    let controller: ReadableStreamDefaultController<string>;
+    const games: ActiveGameStorageData[] = [];
+    for await (const res of iter) {
+      const gameId = res.key[res.key.length - 1] as string;
+      if (games.length === limit) {
+        return { games, cursor: gameId };
+      }
+      const activeGame = await this.kv.get<ActiveGameValue>(
+        getActiveGameKey(gameId),
+      );
+      // Games filtered by player also need to match the mode
+      if (
+        activeGame.value != null &&
+        (modeId === undefined || activeGame.value.modeId === modeId)
+      ) {
+        games.push({ gameId, ...activeGame.value });
+      }
+    }
+    return { games, cursor: undefined };
+  }
 
+  // Archives a game as it gets its outcome, indexed by completion time, mode,
+  // each player's username, and each user who isn't a bot
+  private addCompletedGame<Config, GameState, Outcome>(
+    transaction: AtomicOperation,
+    gameId: string,
+    gameData: GameStorageData<Config, GameState, Outcome>,
+    activeGame: ActiveGameValue,
+    isMove: boolean,
+    placements: number[] | undefined,
+  ): AtomicOperation {
+    const completedAt = this.clock.now().getTime();
+    const completedGameValue: CompletedGameValue<Outcome> = {
+      modeId: gameData.modeId,
+      players: gameData.players,
+      startedAt: activeGame.startedAt,
+      completedAt,
+      moveCount: activeGame.moveCount + (isMove ? 1 : 0),
+      outcome: gameData.outcome as Outcome,
+      placements,
+    };
+    transaction = transaction
+      .set(getCompletedGameKey(gameId), completedGameValue)
+      .set(
+        getCompletedGameIndexKey(
+          getCompletedGameByTimePrefix(),
+          completedAt,
+          gameId,
+        ),
+        {},
+      )
+      .set(
+        getCompletedGameIndexKey(
+          getCompletedGameByModePrefix(gameData.modeId),
+          completedAt,
+          gameId,
+        ),
+        {},
+      );
+
+    const usernames = new Set(
+      gameData.players.map((player) => player.username),
+    );
+    for (const username of usernames) {
+      transaction = transaction.set(
+        getCompletedGameIndexKey(
+          getCompletedGameByPlayerPrefix(username),
+          completedAt,
+          gameId,
+        ),
+        {},
+      );
+    }
+    for (const userId of getIndexedUserIds(gameData)) {
+      const userCompletedGameValue: UserCompletedGameValue = {
+        playerId: gameData.playerUserIds.indexOf(userId),
+      };
+      transaction = transaction.set(
+        getCompletedGameIndexKey(
+          getCompletedGameByUserPrefix(userId),
+          completedAt,
+          gameId,
+        ),
+        userCompletedGameValue,
+      );
+    }
+    return transaction;
+  }
+
+  // Returns a page of completed games, most recently completed first, using
+  // the index for the player or mode when filtering by one. The cursor is the
+  // ID of the first game on the next page.
+  public async listCompletedGames<Outcome>(
+    options: {
+      modeId?: string;
+      username?: string;
+      limit: number;
+      cursor?: string;
+    },
+  ): Promise<{ games: CompletedGame<Outcome>[]; cursor: string | undefined }> {
+    const { modeId, username } = options;
+    const prefix = username !== undefined
+      ? getCompletedGameByPlayerPrefix(username)
+      : modeId !== undefined
+      ? getCompletedGameByModePrefix(modeId)
+      : getCompletedGameByTimePrefix();
+    const page = await this.listCompletedGameIndex<Outcome, unknown>(
+      prefix,
+      options,
+    );
+    return {
+      games: page.entries.map(({ game }) => game),
+      cursor: page.cursor,
+    };
+  }
+
+  // Returns a page of the games the user played, most recently completed first
+  public async listUserCompletedGames<Outcome>(
+    userId: string,
+    options: { modeId?: string; limit: number; cursor?: string },
+  ): Promise<
+    { games: UserCompletedGame<Outcome>[]; cursor: string | undefined }
+  > {
+    const page = await this.listCompletedGameIndex<
+      Outcome,
+      UserCompletedGameValue
+    >(getCompletedGameByUserPrefix(userId), options);
+    return {
+      games: page.entries.map(({ game, indexValue }) => ({
+        ...game,
+        playerId: indexValue.playerId,
+      })),
+      cursor: page.cursor,
+    };
+  }
+
+  private async listCompletedGameIndex<Outcome, IndexValue>(
+    prefix: StorageKey,
+    options: { modeId?: string; limit: number; cursor?: string },
+  ): Promise<{
+    entries: { game: CompletedGame<Outcome>; indexValue: IndexValue }[];
+    cursor: string | undefined;
+  }> {
+    const { modeId, cursor } = options;
+    const limit = Math.min(Math.max(1, options.limit), maxBrowserLimit);
+
+    let start: StorageKey | undefined;
+    if (cursor !== undefined) {
+      const cursorGame = await this.kv.get<CompletedGameValue<Outcome>>(
+        getCompletedGameKey(cursor),
+      );
+      if (cursorGame.value == null) {
+        return { entries: [], cursor: undefined };
+      }
+      start = getCompletedGameIndexKey(
+        prefix,
+        cursorGame.value.completedAt,
+        cursor,
+      );
+    }
+    const iter = this.kv.list<IndexValue>(
+      start === undefined ? { prefix } : { prefix, start },
+    );
+
+    const entries: {
+      game: CompletedGame<Outcome>;
+      indexValue: IndexValue;
+    }[] = [];
+    for await (const res of iter) {
+      const gameId = res.key[res.key.length - 1] as string;
+      if (entries.length === limit) {
+        return { entries, cursor: gameId };
+      }
+      const completedGame = await this.kv.get<CompletedGameValue<Outcome>>(
+        getCompletedGameKey(gameId),
+      );
+      // Games filtered by player also need to match the mode
+      if (
+        completedGame.value != null &&
+        (modeId === undefined || completedGame.value.modeId === modeId)
+      ) {
+        entries.push({
+          game: { gameId, ...completedGame.value },
+          indexValue: res.value,
+        });
+      }
+    }
+    return { entries, cursor: undefined };
+  }
+
+  // Watches for changes to active games made after the stream starts. The
+  // activeGameTriggerKey is touched with each change, and the changes since the
+  // last one read are then listed from the change log.
+  public watchForActiveGameChanges(): ReadableStream<ActiveGameChange[]> {
+    const prefix = getActiveGameChangePrefix();
+    let start: StorageKey = [...prefix, this.clock.now().getTime()];
+    let lastChangeId: string | undefined;
+    const stream = this.kv.watch([getActiveGameTriggerKey()]);
+    return stream.pipeThrough(
+      new TransformStream({
+        transform: async (_events, controller) => {
+          const changes: ActiveGameChange[] = [];
+          const entries = this.kv.list<ActiveGameChange>({ prefix, start });
+          for await (const res of entries) {
+            const changeId = res.key[res.key.length - 1] as string;
+            if (changeId === lastChangeId) {
+              continue;
+            }
+            changes.push(res.value);
+            start = res.key;
+            lastChangeId = changeId;
+          }
+          if (changes.length > 0) {
+            controller.enqueue(changes);
+          }
+        },
+      }),
+    );
+  }
+
+  // Returns the games without an outcome that the user is playing, in the
+  // order they started
+  public async getUserGames(userId: string): Promise<UserGame[]> {
+    const entries = await Array.fromAsync(
+      this.kv.list<UserGameValue>({ prefix: getUserGamePrefix(userId) }),
+    );
+    const userGames: UserGame[] = [];
+    for (const entry of entries) {
+      const gameId = entry.key[entry.key.length - 1] as string;
+      const activeGame = await this.kv.get<ActiveGameValue>(
+        getActiveGameKey(gameId),
+      );
+      if (activeGame.value == null) {
+        continue;
+      }
+      const { activeUserIds, ...details } = activeGame.value;
+      userGames.push({
+        gameId,
+        ...details,
+        isYourTurn: activeUserIds.includes(userId),
+        playerId: entry.value.playerId,
+      });
+    }
+    return userGames;
+  }
+
+  // Watches for changes to the user's trigger key, which is touched whenever
+  // one of their games starts, ends, or changes what lobbies show of it
+  public watchForUserGameChanges(userId: string): ReadableStream<UserGame[]> {
+    const stream = this.kv.watch([getUserGameTriggerKey(userId)]);
+    return stream.pipeThrough(
+      new TransformStream({
+        transform: async (_events, controller) => {
+          controller.enqueue(await this.getUserGames(userId));
+        },
+      }),
+    );
+  }
+
+  public listenForRefreshes(): ReadableStream<string> {
     const stream = new ReadableStream<string>({
-      start(c) {
-        controller = c;
+      start: (c) => {
+        this.refreshController = c;
+      },
+    });
+
+    this.listenToQueue();
+    return stream;
+  }
+
+  public listenForAbandonmentChecks(): ReadableStream<AbandonmentCheck> {
+    const stream = new ReadableStream<AbandonmentCheck>({
+      start: (c) => {
+        this.abandonmentCheckController = c;
+      },
+    });
+
+    this.listenToQueue();
+    return stream;
+  }
+
+  public listenForClockChecks(): ReadableStream<ClockCheck> {
+    const stream = new ReadableStream<ClockCheck>({
+      start: (c) => {
+        this.clockCheckController = c;
       },
     });
 
-    this.kv.listenQueue((message: string) => {
+    this.listenToQueue();
+    return stream;
+  }
+
+  public listenForConnectionChecks(): ReadableStream<ConnectionCheck> {
+    const stream = new ReadableStream<ConnectionCheck>({
+      start: (c) => {
+        this.connectionCheckController = c;
+      },
+    });
+
+    this.listenToQueue();
+    return stream;
+  }
+
+  public listenForBotTurns(): ReadableStream<BotTurn> {
+    const stream = new ReadableStream<BotTurn>({
+      start: (c) => {
+        this.botTurnController = c;
+      },
+    });
+
+    this.listenToQueue();
+    return stream;
+  }
+
+  // A KV can only have a single queue listener, so messages are dispatched to
+  // the appropriate stream by type. Refreshes are enqueued as bare game IDs.
+  private listenToQueue() {
+    if (this.isListeningToQueue) {
+      return;
+    }
+    this.isListeningToQueue = true;
+
+    this.kv.listenQueue((value: unknown) => {
+      const message = value as
+        | string
+        | AbandonmentCheck
+        | ClockCheck
+        | ConnectionCheck
+        | BotTurn;
       if (typeof message === "string") {
-        controller.enqueue(message);
+        this.refreshController?.enqueue(message);
+      } else if (message?.type === "abandonmentCheck") {
+        this.abandonmentCheckController?.enqueue(message);
+      } else if (message?.type === "clockCheck") {
+        this.clockCheckController?.enqueue(message);
+      } else if (message?.type === "connectionCheck") {
+        this.connectionCheckController?.enqueue(message);
+      } else if (message?.type === "botTurn") {
+        this.botTurnController?.enqueue(message);
       }
     });
+  }
 
-    return stream;
+  /**
+   * Records that a player has a socket connected to a game, which must be
+   * refreshed every connectionRefreshIntervalMs to stay connected.
+   * @param abandonmentDelay Optional delay in milliseconds before the abandonment check
+   */
+  public async addConnection(
+    gameId: string,
+    playerId: number,
+    connectionId: string,
+    abandonmentDelay?: number,
+  ): Promise<void> {
+    const timestamp = this.clock.now();
+    const check: ConnectionCheck = {
+      type: "connectionCheck",
+      gameId,
+      playerId,
+      connectionId,
+      abandonmentDelay,
+    };
+    const res = await this.kv.atomic()
+      .set(
+        getConnectionKey(gameId, playerId, connectionId),
+        { timestamp },
+        { expireIn: connectionTtlMs * 2 },
+      )
+      .set(getLastSeenKey(gameId, playerId), timestamp)
+      .set(getPresenceTriggerKey(gameId), {})
+      .enqueue(check, { delay: connectionTtlMs })
+      .commit();
+    if (!res.ok) {
+      throw new Error(`Failed to add connection to ${gameId}`);
+    }
+  }
+
+  // Keeps a connection alive, adding it again if it was already closed
+  public async refreshConnection(
+    gameId: string,
+    playerId: number,
+    connectionId: string,
+    abandonmentDelay?: number,
+  ): Promise<void> {
+    const key = getConnectionKey(gameId, playerId, connectionId);
+    const entry = await this.kv.get<ConnectionStorageData>(key);
+    if (entry.value == null || this.isExpired(entry.value)) {
+      await this.addConnection(
+        gameId,
+        playerId,
+        connectionId,
+        abandonmentDelay,
+      );
+      return;
+    }
+    await this.kv.atomic()
+      .check(entry)
+      .set(key, { timestamp: this.clock.now() }, {
+        expireIn: connectionTtlMs * 2,
+      })
+      .commit();
+  }
+
+  /**
+   * Removes a player's connection to a game, and enqueues an abandonment check
+   * if it was their last one.
+   * @param abandonmentDelay Optional delay in milliseconds before the abandonment check
+   */
+  public async removeConnection(
+    gameId: string,
+    playerId: number,
+    connectionId: string,
+    abandonmentDelay?: number,
+  ): Promise<void> {
+    const res = await this.kv.atomic()
+      .delete(getConnectionKey(gameId, playerId, connectionId))
+      .set(getLastSeenKey(gameId, playerId), this.clock.now())
+      .set(getPresenceTriggerKey(gameId), {})
+      .commit();
+    if (!res.ok) {
+      throw new Error(`Failed to remove connection from ${gameId}`);
+    }
+    await this.enqueueAbandonmentCheck(gameId, playerId, abandonmentDelay);
+  }
+
+  // Closes the connection if it is no longer being refreshed, such as when the
+  // server holding it stopped, or checks it again once it could have expired.
+  // Connections that were removed normally have nothing left to check.
+  public async checkConnection(check: ConnectionCheck): Promise<void> {
+    const { gameId, playerId, connectionId, abandonmentDelay } = check;
+    const key = getConnectionKey(gameId, playerId, connectionId);
+    const entry = await this.kv.get<ConnectionStorageData>(key);
+    if (entry.value == null) {
+      return;
+    }
+
+    if (!this.isExpired(entry.value)) {
+      const expiresAt = entry.value.timestamp.getTime() + connectionTtlMs;
+      await this.kv.enqueue(check, {
+        delay: expiresAt - this.clock.now().getTime(),
+      });
+      return;
+    }
+
+    const res = await this.kv.atomic()
+      .check(entry)
+      .delete(key)
+      .set(getLastSeenKey(gameId, playerId), entry.value.timestamp)
+      .set(getPresenceTriggerKey(gameId), {})
+      .commit();
+    if (!res.ok) {
+      // Refreshed or removed in the meantime
+      await this.checkConnection(check);
+      return;
+    }
+    await this.enqueueAbandonmentCheck(gameId, playerId, abandonmentDelay);
+  }
+
+  private async enqueueAbandonmentCheck(
+    gameId: string,
+    playerId: number,
+    abandonmentDelay?: number,
+  ): Promise<void> {
+    if (abandonmentDelay === undefined) {
+      return;
+    }
+    if (await this.isConnected(gameId, playerId)) {
+      return;
+    }
+
+    const message: AbandonmentCheck = {
+      type: "abandonmentCheck",
+      gameId,
+      playerId,
+    };
+    await this.kv.enqueue(message, { delay: abandonmentDelay });
+  }
+
+  private isExpired(connection: ConnectionStorageData): boolean {
+    return connection.timestamp.getTime() + connectionTtlMs <=
+      this.clock.now().getTime();
+  }
+
+  public async isConnected(gameId: string, playerId: number): Promise<boolean> {
+    const connections = this.kv.list<ConnectionStorageData>({
+      prefix: getConnectionPrefix(gameId, playerId),
+    });
+    for await (const res of connections) {
+      if (!this.isExpired(res.value)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Returns the presence of every player who has ever connected to the game
+  public async getPresence(gameId: string): Promise<PlayerPresence[]> {
+    const connectedPlayerIds = new Set<number>();
+    const connections = this.kv.list<ConnectionStorageData>({
+      prefix: getGameConnectionPrefix(gameId),
+    });
+    for await (const res of connections) {
+      if (!this.isExpired(res.value)) {
+        connectedPlayerIds.add(res.key[2] as number);
+      }
+    }
+
+    const presence: PlayerPresence[] = [];
+    const lastSeens = this.kv.list<Date>({ prefix: getLastSeenPrefix(gameId) });
+    for await (const res of lastSeens) {
+      const playerId = res.key[res.key.length - 1] as number;
+      presence.push({
+        playerId,
+        isConnected: connectedPlayerIds.has(playerId),
+        lastSeen: res.value.getTime(),
+      });
+    }
+
+    return presence;
+  }
+
+  // Watches for connections to the game opening or closing, using a trigger
+  // key that is only used to trigger this method.
+  public watchForPresenceChanges(
+    gameId: string,
+  ): ReadableStream<PlayerPresence[]> {
+    const stream = this.kv.watch([getPresenceTriggerKey(gameId)]);
+    return stream.pipeThrough(
+      new TransformStream({
+        transform: async (_events, controller) => {
+          controller.enqueue(await this.getPresence(gameId));
+        },
+      }),
+    );
+  }
+
+  // Stores a chat message, which expires after chatTtlMs. Message IDs must be
+  // ULIDs so that messages are listed in the order they were sent.
+  public async addChatMessage(
+    gameId: string,
+    message: ChatMessage,
+  ): Promise<void> {
+    const res = await this.kv.atomic()
+      .set(getChatKey(gameId, message.id), message, { expireIn: chatTtlMs })
+      .set(getChatTriggerKey(gameId), message.id)
+      .commit();
+    if (!res.ok) {
+      throw new Error(`Failed to add chat message to ${gameId}`);
+    }
+  }
+
+  /**
+   * Returns chat messages for a game, oldest first.
+   * @param afterId Optional ID; only messages sent after it are returned
+   */
+  public async getChatMessages(
+    gameId: string,
+    afterId?: string,
+  ): Promise<ChatMessage[]> {
+    if (afterId != null) {
+      const entries = await Array.fromAsync(this.kv.list<ChatMessage>({
+        prefix: getChatPrefix(gameId),
+        start: getChatKey(gameId, afterId),
+      }));
+      return entries
+        .map((entry) => entry.value)
+        .filter((message) => message.id !== afterId);
+    }
+
+    const entries = await Array.fromAsync(this.kv.list<ChatMessage>(
+      { prefix: getChatPrefix(gameId) },
+      { limit: chatHistoryLimit, reverse: true },
+    ));
+    return entries.map((entry) => entry.value).reverse();
+  }
+
+  // Watches for new chat messages, using a trigger key that holds the ID of
+  // the latest message. Only messages sent after the watch starts are emitted.
+  public watchForChatMessages(gameId: string): ReadableStream<ChatMessage[]> {
+    const stream = this.kv.watch<[string]>([getChatTriggerKey(gameId)]);
+    let lastId: string | null | undefined;
+    return stream.pipeThrough(
+      new TransformStream({
+        transform: async ([entry], controller) => {
+          if (lastId === undefined) {
+            lastId = entry.value;
+            return;
+          }
+          const messages = await this.getChatMessages(
+            gameId,
+            lastId ?? undefined,
+          );
+          if (messages.length > 0) {
+            lastId = messages[messages.length - 1].id;
+            controller.enqueue(messages);
+          }
+        },
+      }),
+    );
+  }
+
+  // Stores a lobby message, and deletes the oldest messages beyond the history
+  // limit. Message IDs must be ULIDs so that messages are kept in order.
+  public async addLobbyMessage(message: LobbyMessage): Promise<void> {
+    const res = await this.kv.atomic()
+      .set(getLobbyMessageKey(message.id), message)
+      .set(getLobbyMessageTriggerKey(), {})
+      .commit();
+    if (!res.ok) {
+      throw new Error("Failed to add lobby message");
+    }
+
+    const expired = this.kv.list(
+      { prefix: getLobbyMessagePrefix() },
+      { reverse: true },
+    );
+    let count = 0;
+    for await (const res of expired) {
+      count++;
+      if (count > lobbyMessageHistoryLimit) {
+        await this.kv.delete(res.key);
+      }
+    }
+  }
+
+  // Returns the retained lobby messages, oldest first
+  public async getLobbyMessages(): Promise<LobbyMessage[]> {
+    const entries = await Array.fromAsync(this.kv.list<LobbyMessage>(
+      { prefix: getLobbyMessagePrefix() },
+      { limit: lobbyMessageHistoryLimit, reverse: true },
+    ));
+    return entries.map((entry) => entry.value).reverse();
+  }
+
+  // Watches for changes to the lobbyMessageTriggerKey, which is an empty key
+  // only used to trigger this method.
+  public watchForLobbyMessageChanges(): ReadableStream<LobbyMessage[]> {
+    const stream = this.kv.watch([getLobbyMessageTriggerKey()]);
+    return stream.pipeThrough(
+      new TransformStream({
+        transform: async (_events, controller) => {
+          controller.enqueue(await this.getLobbyMessages());
+        },
+      }),
+    );
   }
 
   public async storeUser(
@@ -325,20 +1872,44 @@ export class DB {
     user: User,
     previousUsername?: string,
   ): Promise<void> {
-    let transaction = this.kv.atomic()
-      .set(getUserKey(userId), user)
-      .set(getUserByUsernameKey(user.username), user);
-
-    if (previousUsername != null && previousUsername !== user.username) {
-      transaction = transaction.delete(getUserByUsernameKey(previousUsername));
-    }
-
+    const transaction = addUserUpdates(
+      this.kv.atomic(),
+      userId,
+      user,
+      previousUsername,
+    );
     const res = await transaction.commit();
     if (!res.ok) {
       throw new Error(`Failed to store user ${userId}`);
     }
   }
 
+  // Stores the user unless another user has the username. Returns whether
+  // the user was stored.
+  public async storeUserIfUsernameAvailable(
+    userId: string,
+    user: User,
+    previousUsername?: string,
+  ): Promise<boolean> {
+    const [userEntry, userIdEntry] = await this.kv.getMany<[User, string]>([
+      getUserByUsernameKey(user.username),
+      getUserIdByUsernameKey(user.username),
+    ]);
+    // Users stored before their IDs were indexed by username are taken too
+    if (userEntry.value != null && userIdEntry.value !== userId) {
+      return false;
+    }
+
+    const transaction = addUserUpdates(
+      this.kv.atomic().check(userEntry, userIdEntry),
+      userId,
+      user,
+      previousUsername,
+    );
+    const res = await transaction.commit();
+    return res.ok;
+  }
+
   public async getUser(userId: string): Promise<User | null> {
     const entry = await this.kv.get<User>(getUserKey(userId));
     return entry.value ?? null;
@@ -349,17 +1920,326 @@ export class DB {
     return entry.value ?? null;
   }
 
+  // Upgrades a guest to a registered user with the username and credentials.
+  // The user keeps their user ID, so their games, ratings and stats are kept.
+  // Returns null if the user isn't a guest, or the username is taken.
+  public async registerUser(
+    userId: string,
+    username: string,
+    credentials: UserCredentials,
+  ): Promise<User | null> {
+    const entry = await this.kv.get<User>(getUserKey(userId));
+    if (entry.value == null || !entry.value.isGuest) {
+      return null;
+    }
+
+    const previousUsername = entry.value.username;
+    const user: User = { ...entry.value, username, isGuest: false };
+    let transaction = this.kv.atomic()
+      .check(entry)
+      .set(getUserKey(userId), user)
+      .set(getUserByUsernameKey(username), user)
+      .set(getUserIdByUsernameKey(username), userId);
+    if (username !== previousUsername) {
+      transaction = transaction
+        .check({ key: getUserByUsernameKey(username), versionstamp: null })
+        .delete(getUserByUsernameKey(previousUsername))
+        .delete(getUserIdByUsernameKey(previousUsername));
+    }
+
+    if (credentials.password !== undefined) {
+      transaction = transaction.set(
+        getPasswordKey(userId),
+        credentials.password,
+      );
+    }
+    if (credentials.passkey !== undefined) {
+      const passkeyKey = getPasskeyKey(credentials.passkey.credentialId);
+      const passkeyData: PasskeyStorageData = {
+        userId,
+        passkey: credentials.passkey,
+      };
+      transaction = transaction
+        .check({ key: passkeyKey, versionstamp: null })
+        .set(passkeyKey, passkeyData);
+    }
+
+    const res = await transaction.commit();
+    return res.ok ? user : null;
+  }
+
+  public async getPasswordHash(userId: string): Promise<PasswordHash | null> {
+    const entry = await this.kv.get<PasswordHash>(getPasswordKey(userId));
+    return entry.value ?? null;
+  }
+
+  public async getPasskey(
+    credentialId: string,
+  ): Promise<PasskeyStorageData | null> {
+    const entry = await this.kv.get<PasskeyStorageData>(
+      getPasskeyKey(credentialId),
+    );
+    return entry.value ?? null;
+  }
+
+  // Returns false if the passkey was used concurrently
+  public async updatePasskeySignCount(
+    credentialId: string,
+    signCount: number,
+  ): Promise<boolean> {
+    const entry = await this.kv.get<PasskeyStorageData>(
+      getPasskeyKey(credentialId),
+    );
+    if (entry.value == null) {
+      return false;
+    }
+    const passkeyData: PasskeyStorageData = {
+      ...entry.value,
+      passkey: { ...entry.value.passkey, signCount },
+    };
+    const res = await this.kv.atomic()
+      .check(entry)
+      .set(entry.key, passkeyData)
+      .commit();
+    return res.ok;
+  }
+
+  public async storePasskeyChallenge(
+    challenge: string,
+    challengeData: PasskeyChallengeStorageData,
+  ): Promise<void> {
+    const expireIn = challengeData.expiration.getTime() -
+      this.clock.now().getTime();
+    const res = await this.kv.atomic()
+      .set(getPasskeyChallengeKey(challenge), challengeData, { expireIn })
+      .commit();
+    if (!res.ok) {
+      throw new Error("Failed to store passkey challenge");
+    }
+  }
+
+  // Deletes the challenge so it can only be used once, returning it if it
+  // hasn't expired
+  public async takePasskeyChallenge(
+    challenge: string,
+  ): Promise<PasskeyChallengeStorageData | null> {
+    const entry = await this.kv.get<PasskeyChallengeStorageData>(
+      getPasskeyChallengeKey(challenge),
+    );
+    if (entry.value == null) {
+      return null;
+    }
+    const res = await this.kv.atomic()
+      .check(entry)
+      .delete(entry.key)
+      .commit();
+    if (!res.ok || entry.value.expiration <= this.clock.now()) {
+      return null;
+    }
+    return entry.value;
+  }
+
+  // Users stored before their IDs were indexed by username aren't found
+  public async getUserIdByUsername(username: string): Promise<string | null> {
+    const entry = await this.kv.get<string>(getUserIdByUsernameKey(username));
+    return entry.value ?? null;
+  }
+
+  // Stores or extends the token. It's indexed by user so every token of the
+  // user can be revoked, and both entries are deleted once it expires.
   public async storeToken(token: string, tokenData: TokenData): Promise<void> {
+    const expireIn = tokenData.expiration.getTime() -
+      this.clock.now().getTime();
     const res = await this.kv.atomic()
-      .set(getTokenKey(token), tokenData)
+      .set(getTokenKey(token), tokenData, { expireIn })
+      .set(getUserTokenKey(tokenData.userId, token), {}, { expireIn })
       .commit();
     if (!res.ok) {
       throw new Error(`Failed to store token`);
     }
   }
 
+  // Moves the token's expiration, unless it was revoked or expired since it
+  // was read. Returns whether it was extended.
+  public async extendToken(token: string, expiration: Date): Promise<boolean> {
+    const entry = await this.kv.get<TokenData>(getTokenKey(token));
+    if (entry.value == null) {
+      return false;
+    }
+    const tokenData: TokenData = { ...entry.value, expiration };
+    const expireIn = expiration.getTime() - this.clock.now().getTime();
+    const res = await this.kv.atomic()
+      .check(entry)
+      .set(getTokenKey(token), tokenData, { expireIn })
+      .set(getUserTokenKey(tokenData.userId, token), {}, { expireIn })
+      .commit();
+    return res.ok;
+  }
+
+  // Returns whether the token existed
+  public async revokeToken(token: string): Promise<boolean> {
+    const entry = await this.kv.get<TokenData>(getTokenKey(token));
+    if (entry.value == null) {
+      return false;
+    }
+    const res = await this.kv.atomic()
+      .delete(getTokenKey(token))
+      .delete(getUserTokenKey(entry.value.userId, token))
+      .commit();
+    if (!res.ok) {
+      throw new Error("Failed to revoke token");
+    }
+    return true;
+  }
+
+  // Revokes every token of the user, returning how many there were
+  public async revokeAllTokens(userId: string): Promise<number> {
+    const tokens: string[] = [];
+    for await (
+      const entry of this.kv.list({ prefix: getUserTokenPrefix(userId) })
+    ) {
+      tokens.push(entry.key[entry.key.length - 1] as string);
+    }
+
+    for (let i = 0; i < tokens.length; i += tokenRevocationBatchSize) {
+      let transaction = this.kv.atomic();
+      for (const token of tokens.slice(i, i + tokenRevocationBatchSize)) {
+        transaction = transaction
+          .delete(getTokenKey(token))
+          .delete(getUserTokenKey(userId, token));
+      }
+      const res = await transaction.commit();
+      if (!res.ok) {
+        throw new Error("Failed to revoke tokens");
+      }
+    }
+    return tokens.length;
+  }
+
+  public async getRating(userId: string, modeId: string): Promise<number> {
+    const entry = await this.kv.get<number>(getRatingKey(userId, modeId));
+    return entry.value ?? defaultRating;
+  }
+
+  public async getRatings(userId: string): Promise<Ratings> {
+    const iter = this.kv.list<number>({ prefix: getRatingPrefix(userId) });
+    const ratings: Ratings = {};
+
+    for await (const res of iter) {
+      const modeId = res.key[res.key.length - 1] as string;
+      ratings[modeId] = res.value;
+    }
+
+    return ratings;
+  }
+
+  // Adds checked rating updates for every player to the transaction. Bot seats
+  // share user IDs across games, so bots play at the default rating and aren't
+  // rated themselves.
+  private async addRatingUpdates<Config, GameState, Outcome>(
+    transaction: AtomicOperation,
+    gameData: GameStorageData<Config, GameState, Outcome>,
+    placements: number[],
+  ): Promise<void> {
+    const ratedPlayerIds = gameData.players.flatMap((player, playerId) =>
+      player.isBot ? [] : [playerId]
+    );
+    const ratingEntries = await this.kv.getMany<number[]>(
+      ratedPlayerIds.map((playerId) =>
+        getRatingKey(gameData.playerUserIds[playerId], gameData.modeId)
+      ),
+    );
+    const ratings = gameData.players.map(() => defaultRating);
+    ratingEntries.forEach((entry, i) => {
+      ratings[ratedPlayerIds[i]] = entry.value ?? defaultRating;
+    });
+    const newRatings = computeNewRatings(ratings, placements);
+
+    ratingEntries.forEach((entry, i) => {
+      transaction.check(entry).set(entry.key, newRatings[ratedPlayerIds[i]]);
+    });
+  }
+
+  // Adds checked statistics updates for every player who isn't a bot to the
+  // transaction, moving them on the leaderboard as their wins change
+  private async addStatsUpdates<Config, GameState, Outcome>(
+    transaction: AtomicOperation,
+    gameData: GameStorageData<Config, GameState, Outcome>,
+    results: PlayerResult[],
+  ): Promise<void> {
+    const { modeId, playerUserIds } = gameData;
+    const userIds = [...new Set(getIndexedUserIds(gameData))].filter((
+      userId,
+    ) => results[playerUserIds.indexOf(userId)] !== undefined);
+    const statsEntries = await this.kv.getMany<UserStats[]>(
+      userIds.map((userId) => getStatsKey(userId, modeId)),
+    );
+
+    statsEntries.forEach((entry, i) => {
+      const userId = userIds[i];
+      const result = results[playerUserIds.indexOf(userId)];
+      const newStats = addResult(entry.value ?? emptyStats, result);
+      transaction.check(entry).set(entry.key, newStats);
+      if (entry.value != null) {
+        transaction.delete(getLeaderboardKey(modeId, entry.value.wins, userId));
+      }
+      transaction.set(getLeaderboardKey(modeId, newStats.wins, userId), {});
+    });
+  }
+
+  public async getStats(userId: string): Promise<UserStatsByMode> {
+    const iter = this.kv.list<UserStats>({ prefix: getStatsPrefix(userId) });
+    const stats: UserStatsByMode = {};
+
+    for await (const res of iter) {
+      const modeId = res.key[res.key.length - 1] as string;
+      stats[modeId] = res.value;
+    }
+
+    return stats;
+  }
+
+  // Returns the users with the most wins in the mode, with their current
+  // usernames
+  public async getLeaderboard(
+    modeId: string,
+    limit: number,
+  ): Promise<LeaderboardEntry[]> {
+    const iter = this.kv.list(
+      { prefix: getLeaderboardPrefix(modeId) },
+      { limit },
+    );
+    const leaderboard: LeaderboardEntry[] = [];
+
+    for await (const res of iter) {
+      const userId = res.key[res.key.length - 1] as string;
+      const [user, stats] = await this.kv.getMany<[User, UserStats]>([
+        getUserKey(userId),
+        getStatsKey(userId, modeId),
+      ]);
+      if (user.value != null && stats.value != null) {
+        leaderboard.push({ username: user.value.username, stats: stats.value });
+      }
+    }
+
+    return leaderboard;
+  }
+
   public async getToken(token: string): Promise<TokenData | null> {
     const entry = await this.kv.get<TokenData>(getTokenKey(token));
     return entry.value ?? null;
   }
+
+  // Streams the token's data whenever it's stored, extended, or revoked, with
+  // null once it's gone
+  public watchToken(token: string): ReadableStream<TokenData | null> {
+    const stream = this.kv.watch([getTokenKey(token)]);
+    return stream.pipeThrough(
+      new TransformStream({
+        transform(events, controller) {
+          controller.enqueue((events[0].value as TokenData | null) ?? null);
+        },
+      }),
+    );
+  }
 }
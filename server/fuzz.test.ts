@@ -0,0 +1,128 @@
+import { assertEquals, assertExists } from "@std/assert";
+import { fuzzGame } from "./fuzz.ts";
+import type { Game } from "../types.ts";
+
+// Players take turns removing 1 to 3 stones, and whoever takes the last stone
+// wins. Each player also has a secret number only they can see.
+type NimState = {
+  stones: number;
+  currentPlayer: number;
+  secrets: number[];
+};
+
+type NimMove = { take: number };
+
+type NimPlayerState = { stones: number; secret: number };
+
+type NimGame = Game<
+  undefined,
+  NimState,
+  NimMove,
+  NimPlayerState,
+  { stones: number },
+  { winner: number }
+>;
+
+const nim: NimGame = {
+  modes: {
+    queue: { numPlayers: 2, matchmaking: "queue", config: undefined },
+  },
+  setup: ({ players, random }) => ({
+    stones: 10,
+    currentPlayer: 0,
+    secrets: players.map(() => random.integer(0, 100)),
+  }),
+  isValidMove: (state, { playerId, move }) =>
+    playerId === state.currentPlayer && move.take >= 1 && move.take <= 3 &&
+    move.take <= state.stones,
+  processMove: (state, { move }) => ({
+    ...state,
+    stones: state.stones - move.take,
+    currentPlayer: 1 - state.currentPlayer,
+  }),
+  playerState: (state, { playerId }) => ({
+    stones: state.stones,
+    secret: state.secrets[playerId],
+  }),
+  publicState: (state) => ({ stones: state.stones }),
+  outcome: (state) =>
+    state.stones === 0 ? { winner: 1 - state.currentPlayer } : undefined,
+};
+
+const fuzzOptions = {
+  legalMoves: (state: NimState, playerId: number): NimMove[] =>
+    playerId === state.currentPlayer
+      ? [1, 2, 3].filter((n) => n <= state.stones).map((take) => ({ take }))
+      : [],
+  hideFrom: (state: NimState, playerId: number): NimState => ({
+    ...state,
+    secrets: state.secrets.map((secret, i) => i === playerId ? secret : -1),
+  }),
+  playouts: 100,
+};
+
+Deno.test("fuzzGame passes a correct game", () => {
+  assertEquals(fuzzGame(nim, fuzzOptions), undefined);
+});
+
+Deno.test("fuzzGame finds moves isValidMove accepts but legalMoves doesn't", () => {
+  const failure = fuzzGame(
+    { ...nim, isValidMove: (state, { move }) => move.take <= state.stones },
+    fuzzOptions,
+  );
+
+  assertExists(failure);
+  assertEquals(failure.check, "legal-moves");
+  assertEquals(failure.moves, []);
+});
+
+Deno.test("fuzzGame shrinks failures to a short move sequence", () => {
+  const failure = fuzzGame({
+    ...nim,
+    processMove: (state, o) => {
+      if (state.stones - o.move.take === 4) {
+        throw new Error("Four stones left");
+      }
+      return nim.processMove(state, o);
+    },
+  }, fuzzOptions);
+
+  assertExists(failure);
+  assertEquals(failure.check, "process-move");
+  // Removing any move would no longer leave four stones
+  assertEquals(
+    failure.moves.reduce((total, { move }) => total + move.take, 0),
+    6,
+  );
+  assertEquals(failure.moves.length <= 3, true);
+});
+
+Deno.test("fuzzGame finds mutations and leaked hidden data", () => {
+  const mutation = fuzzGame({
+    ...nim,
+    processMove: (state, { move }) => {
+      const mutable = state as NimState;
+      mutable.stones -= move.take;
+      mutable.currentPlayer = 1 - mutable.currentPlayer;
+      return mutable;
+    },
+  }, fuzzOptions);
+  assertEquals(mutation?.check, "mutation");
+
+  const leak = fuzzGame({
+    ...nim,
+    playerState: (state, { playerId }) => ({
+      stones: state.stones,
+      secret: state.secrets[1 - playerId],
+    }),
+  }, fuzzOptions);
+  assertEquals(leak?.check, "hidden-data");
+  assertEquals(leak?.moves, []);
+});
+
+Deno.test("fuzzGame fails games that never reach an outcome", () => {
+  const failure = fuzzGame({ ...nim, outcome: () => undefined }, fuzzOptions);
+
+  assertExists(failure);
+  assertEquals(failure.check, "no-outcome");
+});
@@ -0,0 +1,418 @@
+import { equal } from "@std/assert";
+import { createRandom } from "./random.ts";
+import type { Game, MoveObject, User } from "../types.ts";
+
+export type FuzzOptions<GameState, Move> = {
+  // Every move the player can make in the state. An empty list means the
+  // player can't currently move.
+  legalMoves(state: Readonly<GameState>, playerId: number): Move[];
+  // Returns the state with everything hidden from the player changed, such as
+  // other players' hands. When provided, the player's playerState must be the
+  // same for both states.
+  hideFrom?(state: Readonly<GameState>, playerId: number): GameState;
+  // Defaults to the first mode the game defines
+  modeId?: string;
+  // Defaults to guest users, one for each of the mode's players
+  players?: User[];
+  // Defaults to 1000
+  playouts?: number;
+  // Playouts fail if the game has no outcome after this many moves and
+  // refreshes. Defaults to 1000.
+  maxSteps?: number;
+  // Seeds the choice of moves and the game's random. Defaults to "fuzz".
+  seed?: string;
+};
+
+export type FuzzMove<Move> = {
+  playerId: number;
+  move: Move;
+};
+
+export type FuzzCheck =
+  | "legal-moves"
+  | "process-move"
+  | "mutation"
+  | "hidden-data"
+  | "no-outcome";
+
+export type FuzzFailure<Move> = {
+  check: FuzzCheck;
+  message: string;
+  // The game's seed for the failing playout
+  seed: string;
+  // The shortest sequence of moves found that reproduces the failure
+  moves: FuzzMove<Move>[];
+};
+
+type PlayoutResult<Move> =
+  | { type: "complete" }
+  // A replayed move was no longer legal
+  | { type: "diverged" }
+  | {
+    type: "failed";
+    check: FuzzCheck;
+    message: string;
+    moves: FuzzMove<Move>[];
+    step: number;
+  };
+
+// Picks the next move from every player's legal moves, or returns undefined
+// to end the playout
+type ChooseMove<Move> = (
+  legalMoves: FuzzMove<Move>[],
+  index: number,
+) => FuzzMove<Move> | undefined;
+
+class FuzzError extends Error {
+  constructor(readonly check: FuzzCheck, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Plays random games using legalMoves to pick each move, returning the first
+ * failure found, or undefined if every playout passes. At every step it checks
+ * that:
+ *
+ * - isValidMove accepts every legal move, and rejects moves that are legal for
+ *   other players or that have already been played
+ * - processMove doesn't throw
+ * - no game function mutates the state it is passed
+ * - playerState doesn't depend on data hidden from the player, if hideFrom is
+ *   provided
+ * - the game reaches an outcome within maxSteps
+ *
+ * Failures are shrunk to the shortest move sequence found that still fails the
+ * same check.
+ */
+export function fuzzGame<
+  Config,
+  GameState,
+  Move,
+  PlayerState,
+  PublicState,
+  Outcome,
+>(
+  game: Game<Config, GameState, Move, PlayerState, PublicState, Outcome>,
+  options: FuzzOptions<GameState, Move>,
+): FuzzFailure<Move> | undefined {
+  const modeId = options.modeId ?? Object.keys(game.modes)[0];
+  const mode = game.modes[modeId];
+  if (mode === undefined) {
+    throw new Error(`Unknown mode ${modeId}`);
+  }
+  const players = options.players ??
+    Array.from({ length: mode.numPlayers }, (_, i) => ({
+      username: `guest-${String(i + 1).padStart(4, "0")}`,
+      isGuest: true,
+    }));
+  const baseSeed = options.seed ?? "fuzz";
+  const maxSteps = options.maxSteps ?? 1000;
+
+  const play = (seed: string, chooseMove: ChooseMove<Move>) =>
+    playout(game, options, mode.config, players, seed, maxSteps, chooseMove);
+
+  for (let i = 0; i < (options.playouts ?? 1000); i++) {
+    const seed = `${baseSeed}:${i}`;
+    const random = createRandom(`${baseSeed}:moves`, i);
+    const result = play(
+      seed,
+      (legalMoves) => legalMoves[random.integer(0, legalMoves.length)],
+    );
+    if (result.type !== "failed") {
+      continue;
+    }
+
+    // Playouts that ran out of steps can't be made any shorter
+    const moves = result.step >= maxSteps
+      ? result.moves
+      : shrink(result.moves, (candidate) => {
+        const replayed = play(seed, (_, index) => candidate[index]);
+        return replayed.type === "failed" && replayed.check === result.check
+          ? replayed.moves
+          : undefined;
+      });
+    return { check: result.check, message: result.message, seed, moves };
+  }
+  return undefined;
+}
+
+// Removes progressively smaller runs of moves for as long as the failure still
+// reproduces. The reproduction returns the moves it failed after, which may be
+// shorter than the candidate.
+function shrink<Move>(
+  moves: FuzzMove<Move>[],
+  reproduce: (candidate: FuzzMove<Move>[]) => FuzzMove<Move>[] | undefined,
+): FuzzMove<Move>[] {
+  let shortest = moves;
+  for (
+    let size = Math.max(1, Math.floor(shortest.length / 2));
+    size >= 1;
+    size = Math.floor(size / 2)
+  ) {
+    let start = 0;
+    while (start < shortest.length) {
+      const candidate = [
+        ...shortest.slice(0, start),
+        ...shortest.slice(start + size),
+      ];
+      const reproduced = reproduce(candidate);
+      if (reproduced !== undefined) {
+        shortest = reproduced;
+      } else {
+        start += size;
+      }
+    }
+  }
+  return shortest;
+}
+
+function playout<
+  Config,
+  GameState,
+  Move,
+  PlayerState,
+  PublicState,
+  Outcome,
+>(
+  game: Game<Config, GameState, Move, PlayerState, PublicState, Outcome>,
+  options: FuzzOptions<GameState, Move>,
+  config: Config,
+  players: User[],
+  seed: string,
+  maxSteps: number,
+  chooseMove: ChooseMove<Move>,
+): PlayoutResult<Move> {
+  const moves: FuzzMove<Move>[] = [];
+  // Each setup, move, and refresh is a step with its own randomness and
+  // timestamp, as on the server
+  let step = 0;
+  const timestamp = () => new Date(step * 1000);
+
+  try {
+    let state = game.setup({
+      timestamp: timestamp(),
+      players,
+      config,
+      random: createRandom(seed, step),
+    });
+
+    while (true) {
+      const outcome = withoutMutation(
+        "outcome",
+        state,
+        () => game.outcome(state, { players, config }),
+      );
+      if (outcome !== undefined) {
+        return { type: "complete" };
+      }
+      if (step >= maxSteps) {
+        throw new FuzzError(
+          "no-outcome",
+          `The game has no outcome after ${maxSteps} steps`,
+        );
+      }
+
+      checkProjections(game, options, state, config, players, timestamp());
+      step++;
+      const legalMoves = checkLegalMoves(
+        game,
+        options,
+        state,
+        players.length,
+        moves,
+        (playerId, move) => ({
+          playerId,
+          move,
+          timestamp: timestamp(),
+          players,
+          config,
+          random: createRandom(seed, step),
+        }),
+      );
+
+      if (legalMoves.length === 0) {
+        if (!game.refresh) {
+          throw new FuzzError(
+            "no-outcome",
+            "No player has a legal move, but the game has no outcome",
+          );
+        }
+        const refreshObject = {
+          timestamp: timestamp(),
+          players,
+          config,
+          random: createRandom(seed, step),
+        };
+        state = withoutMutation(
+          "refresh",
+          state,
+          () => game.refresh!(state, refreshObject),
+        );
+        continue;
+      }
+
+      const chosen = chooseMove(legalMoves, moves.length);
+      if (chosen === undefined) {
+        return { type: "complete" };
+      }
+      if (!legalMoves.some((legal) => isSameMove(legal, chosen))) {
+        return { type: "diverged" };
+      }
+      moves.push(chosen);
+
+      const moveObject: MoveObject<Config, Move> = {
+        ...chosen,
+        timestamp: timestamp(),
+        players,
+        config,
+        random: createRandom(seed, step),
+      };
+      const previousState = state;
+      state = withoutMutation("processMove", state, () => {
+        try {
+          return game.processMove(previousState, moveObject);
+        } catch (e) {
+          throw new FuzzError("process-move", `processMove threw: ${e}`);
+        }
+      });
+    }
+  } catch (e) {
+    if (e instanceof FuzzError) {
+      return {
+        type: "failed",
+        check: e.check,
+        message: e.message,
+        moves,
+        step,
+      };
+    }
+    throw e;
+  }
+}
+
+// Returns every player's legal moves, after checking that isValidMove accepts
+// them and rejects the rest of the candidates
+function checkLegalMoves<
+  Config,
+  GameState,
+  Move,
+  PlayerState,
+  PublicState,
+  Outcome,
+>(
+  game: Game<Config, GameState, Move, PlayerState, PublicState, Outcome>,
+  options: FuzzOptions<GameState, Move>,
+  state: Readonly<GameState>,
+  numPlayers: number,
+  previousMoves: FuzzMove<Move>[],
+  buildMoveObject: (playerId: number, move: Move) => MoveObject<Config, Move>,
+): FuzzMove<Move>[] {
+  const legalMoves: FuzzMove<Move>[] = [];
+  for (let playerId = 0; playerId < numPlayers; playerId++) {
+    const moves = withoutMutation(
+      "legalMoves",
+      state,
+      () => options.legalMoves(state, playerId),
+    );
+    legalMoves.push(...moves.map((move) => ({ playerId, move })));
+  }
+
+  const candidates = new Map<string, Move>();
+  for (const { move } of [...legalMoves, ...previousMoves]) {
+    candidates.set(JSON.stringify(move), move);
+  }
+
+  for (let playerId = 0; playerId < numPlayers; playerId++) {
+    for (const move of candidates.values()) {
+      const isLegal = legalMoves.some((legal) =>
+        isSameMove(legal, { playerId, move })
+      );
+      const validity = withoutMutation(
+        "isValidMove",
+        state,
+        () => game.isValidMove(state, buildMoveObject(playerId, move)),
+      );
+      if (isLegal && validity !== true) {
+        throw new FuzzError(
+          "legal-moves",
+          `isValidMove rejected legal move ${
+            JSON.stringify(move)
+          } for player ${playerId}`,
+        );
+      }
+      if (!isLegal && validity === true) {
+        throw new FuzzError(
+          "legal-moves",
+          `isValidMove accepted move ${
+            JSON.stringify(move)
+          } for player ${playerId}, which legalMoves didn't return`,
+        );
+      }
+    }
+  }
+  return legalMoves;
+}
+
+// Checks that the state views don't mutate the state, and that each player's
+// state doesn't change when data hidden from them does
+function checkProjections<
+  Config,
+  GameState,
+  Move,
+  PlayerState,
+  PublicState,
+  Outcome,
+>(
+  game: Game<Config, GameState, Move, PlayerState, PublicState, Outcome>,
+  options: FuzzOptions<GameState, Move>,
+  state: Readonly<GameState>,
+  config: Config,
+  players: User[],
+  timestamp: Date,
+) {
+  withoutMutation(
+    "publicState",
+    state,
+    () => game.publicState(state, { players, config, timestamp }),
+  );
+  for (let playerId = 0; playerId < players.length; playerId++) {
+    const playerStateObject = { playerId, players, config, timestamp };
+    const playerState = withoutMutation(
+      "playerState",
+      state,
+      () => game.playerState(state, playerStateObject),
+    );
+    if (!options.hideFrom) {
+      continue;
+    }
+    const hiddenState = withoutMutation(
+      "hideFrom",
+      state,
+      () => options.hideFrom!(state, playerId),
+    );
+    if (!equal(game.playerState(hiddenState, playerStateObject), playerState)) {
+      throw new FuzzError(
+        "hidden-data",
+        `playerState for player ${playerId} depends on data hidden from them`,
+      );
+    }
+  }
+}
+
+function withoutMutation<GameState, T>(
+  name: string,
+  state: Readonly<GameState>,
+  callback: () => T,
+): T {
+  const before = structuredClone(state);
+  const result = callback();
+  if (!equal(state, before)) {
+    throw new FuzzError("mutation", `${name} mutated the game state`);
+  }
+  return result;
+}
+
+function isSameMove<Move>(a: FuzzMove<Move>, b: FuzzMove<Move>): boolean {
+  return a.playerId === b.playerId && equal(a.move, b.move);
+}
@@ -1,16 +1,21 @@
 import { assertEquals } from "@std/assert";
 import { assertSpyCalls, spy } from "@std/testing/mock";
 import { DB } from "./db.ts";
+import { DenoKvStorage } from "./storage.ts";
 import {
-  fetchActiveGames,
+  getActiveGamesForUser,
   getPlayerId,
   getPlayerState,
   getPublicState,
+  getReplay,
+  handleAbandonmentCheck,
+  handleClockCheck,
   handleMove,
+  handlePlayerLeft,
   handleRefresh,
 } from "./gamedata.ts";
 import type { Game, User } from "../types.ts";
-import type { GameStorageData } from "./db.ts";
+import type { GameLogEntry, GameStorageData } from "./db.ts";
 import { ulid } from "@std/ulid";
 
 // Helper functions for test use only
@@ -22,6 +27,10 @@ function getGameKey(gameId: string) {
   return ["games", gameId];
 }
 
+function getGameLogKey(gameId: string, version: number) {
+  return ["gamelog", gameId, version];
+}
+
 type TestConfig = undefined;
 
 // Test game state
@@ -119,9 +128,9 @@ const testGame: Game<
   },
 };
 
-Deno.test("fetchActiveGames returns active games from the database", async () => {
+Deno.test("getActiveGamesForUser returns active games from the database", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   // Create some active games
   const id1 = ulid();
@@ -136,20 +145,29 @@ Deno.test("fetchActiveGames returns active games from the database", async () =>
     ];
 
     const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+      modeId: "queue",
       config: undefined,
       gameState: { value: 0, moveHistory: [] },
       playerUserIds: [],
       players,
       outcome: undefined,
       version: 0,
+      seed: "test-seed",
     };
 
     // Set up active game keys
-    await kv.set(getActiveGameKey(gameId), {});
+    await kv.set(getActiveGameKey(gameId), {
+      modeId: "queue",
+      players,
+      startedAt: 0,
+      moveCount: 0,
+      summary: undefined,
+      activeUserIds: [],
+    });
     await kv.set(getGameKey(gameId), gameData);
   }
 
-  const result = await fetchActiveGames(db);
+  const result = getActiveGamesForUser(await db.getAllActiveGames(), "user-1");
 
   // Sort arrays for consistent comparison
   assertEquals(result.map((g) => g.gameId).sort(), [id1, id2, id3].sort());
@@ -159,7 +177,7 @@ Deno.test("fetchActiveGames returns active games from the database", async () =>
 
 Deno.test("getPlayerState returns correct player state", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   // Create a game with initial value 1
   const gameId = ulid();
@@ -171,12 +189,14 @@ Deno.test("getPlayerState returns correct player state", async () => {
   ];
 
   const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
     config: undefined,
     gameState: { value: 1, moveHistory: ["Player 0: increment"] },
     playerUserIds,
     players,
     outcome: undefined,
     version: 0,
+    seed: "test-seed",
   };
 
   // Set up active game key and game data
@@ -199,6 +219,7 @@ Deno.test("getPlayerState returns correct player state", async () => {
       gameData,
       testGame.playerState,
       playerId,
+      new Date(),
     );
 
     assertEquals(playerId, playerUserIds.indexOf(userId));
@@ -211,7 +232,7 @@ Deno.test("getPlayerState returns correct player state", async () => {
 
 Deno.test("getPlayerState handles completed games", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   // Create a completed game
   const gameId = ulid();
@@ -223,12 +244,14 @@ Deno.test("getPlayerState handles completed games", async () => {
   ];
 
   const initialGameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
     config: undefined,
     gameState: { value: 5, moveHistory: ["Player 0: increment"] },
     playerUserIds,
     players,
     outcome: undefined,
     version: 0,
+    seed: "test-seed",
   };
 
   // Set up active game key and game data
@@ -252,7 +275,12 @@ Deno.test("getPlayerState handles completed games", async () => {
   if (playerId == null) {
     throw new Error("Missing player id");
   }
-  const playerState = getPlayerState(gameData, testGame.playerState, playerId);
+  const playerState = getPlayerState(
+    gameData,
+    testGame.playerState,
+    playerId,
+    new Date(),
+  );
 
   assertEquals(playerId, playerUserIds.indexOf(userId));
   assertEquals(playerState.canMove, false);
@@ -262,7 +290,7 @@ Deno.test("getPlayerState handles completed games", async () => {
 
 Deno.test("getPublicState returns correct public state", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   const gameId = ulid();
 
@@ -272,12 +300,14 @@ Deno.test("getPublicState returns correct public state", async () => {
   ];
 
   const initialGameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
     config: undefined,
     gameState: { value: 1, moveHistory: ["Player 0: increment"] },
     playerUserIds: [],
     players,
     outcome: undefined,
     version: 0,
+    seed: "test-seed",
   };
 
   // Set up active game key and game data
@@ -291,7 +321,11 @@ Deno.test("getPublicState returns correct public state", async () => {
   >(
     gameId,
   );
-  const publicState = getPublicState(gameData, testGame.publicState);
+  const publicState = getPublicState(
+    gameData,
+    testGame.publicState,
+    new Date(),
+  );
 
   assertEquals(publicState.currentValue, 1);
   assertEquals(publicState.moves, 1);
@@ -301,7 +335,7 @@ Deno.test("getPublicState returns correct public state", async () => {
 
 Deno.test("getPublicState handles completed games", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   // Create a completed game
   const gameId = ulid();
@@ -312,12 +346,14 @@ Deno.test("getPublicState handles completed games", async () => {
   ];
 
   const initialGameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
     config: undefined,
     gameState: { value: 1, moveHistory: ["Player 0: increment"] },
     playerUserIds: [],
     players,
     outcome: undefined,
     version: 0,
+    seed: "test-seed",
   };
 
   // Set up active game key and game data
@@ -346,6 +382,7 @@ Deno.test("getPublicState handles completed games", async () => {
   const publicState = getPublicState(
     updatedGameData,
     testGame.publicState,
+    new Date(),
   );
 
   assertEquals(publicState.currentValue, 1);
@@ -356,7 +393,7 @@ Deno.test("getPublicState handles completed games", async () => {
 
 Deno.test("handleMove processes valid moves and updates game state", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   // Create a game with initial value 1
   const gameId = ulid();
@@ -367,12 +404,14 @@ Deno.test("handleMove processes valid moves and updates game state", async () =>
   ];
 
   const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
     config: undefined,
     gameState: { value: 1, moveHistory: ["Player 0: increment"] },
     playerUserIds: [],
     players,
     outcome: undefined,
     version: 0,
+    seed: "test-seed",
   };
 
   // Set up active game key and game data
@@ -382,7 +421,8 @@ Deno.test("handleMove processes valid moves and updates game state", async () =>
   const playerId = 0;
   const move = { action: "increment" };
 
-  await handleMove(db, testGame, gameId, playerId, move);
+  const result = await handleMove(db, testGame, gameId, playerId, move);
+  assertEquals(result, { accepted: true });
 
   // Get the updated game state
   const updatedGameData = await db.getGameStorageData<
@@ -403,7 +443,7 @@ Deno.test("handleMove processes valid moves and updates game state", async () =>
 
 Deno.test("handleMove properly marks game as complete when threshold reached", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   // Create a game with value 4 (one increment away from being complete)
   const gameId = ulid();
@@ -414,6 +454,7 @@ Deno.test("handleMove properly marks game as complete when threshold reached", a
   ];
 
   const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
     config: undefined,
     gameState: {
       value: 4,
@@ -428,6 +469,7 @@ Deno.test("handleMove properly marks game as complete when threshold reached", a
     players,
     outcome: undefined,
     version: 0,
+    seed: "test-seed",
   };
 
   // Set up active game key and game data
@@ -457,7 +499,7 @@ Deno.test("handleMove properly marks game as complete when threshold reached", a
 
 Deno.test("handleMove rejects invalid moves", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   const gameId = ulid();
 
@@ -467,12 +509,14 @@ Deno.test("handleMove rejects invalid moves", async () => {
   ];
 
   const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
     config: undefined,
     gameState: { value: 1, moveHistory: ["Player 0: increment"] },
     playerUserIds: [],
     players,
     outcome: undefined,
     version: 0,
+    seed: "test-seed",
   };
 
   // Set up active game key and game data
@@ -490,7 +534,11 @@ Deno.test("handleMove rejects invalid moves", async () => {
   const playerId = 0;
   const invalidMove = { action: "invalid_action" };
 
-  await handleMove(db, testGame, gameId, playerId, invalidMove);
+  const result = await handleMove(db, testGame, gameId, playerId, invalidMove);
+  assertEquals(result, {
+    accepted: false,
+    rejection: { reason: "invalid-move" },
+  });
 
   // Get the game state and verify it hasn't changed
   const updatedGameData = await db.getGameStorageData<
@@ -515,7 +563,7 @@ Deno.test("handleMove rejects invalid moves", async () => {
 
 Deno.test("handleMove doesn't update completed games", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   // Create a completed game
   const gameId = ulid();
@@ -526,12 +574,14 @@ Deno.test("handleMove doesn't update completed games", async () => {
   ];
 
   const initialGameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
     config: undefined,
     gameState: { value: 1, moveHistory: ["Player 0: increment"] },
     playerUserIds: [],
     players,
     outcome: undefined,
     version: 0,
+    seed: "test-seed",
   };
 
   // Set up active game key and game data
@@ -562,7 +612,11 @@ Deno.test("handleMove doesn't update completed games", async () => {
   const playerId = 0;
   const move = { action: "increment" };
 
-  await handleMove(db, testGame, gameId, playerId, move);
+  const result = await handleMove(db, testGame, gameId, playerId, move);
+  assertEquals(result, {
+    accepted: false,
+    rejection: { reason: "game-complete" },
+  });
 
   // Get the updated game state
   const updatedGameData = await db.getGameStorageData<
@@ -589,7 +643,7 @@ Deno.test("handleMove doesn't update completed games", async () => {
 
 Deno.test("handleRefresh updates game state", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   // Create a game with initial value 1
   const gameId = ulid();
@@ -600,12 +654,14 @@ Deno.test("handleRefresh updates game state", async () => {
   ];
 
   const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
     config: undefined,
     gameState: { value: 1, moveHistory: ["Player 0: increment"] },
     playerUserIds: [],
     players,
     outcome: undefined,
     version: 0,
+    seed: "test-seed",
   };
 
   // Set up active game key and game data
@@ -634,7 +690,7 @@ Deno.test("handleRefresh updates game state", async () => {
 
 Deno.test("handleRefresh properly marks game as complete when threshold reached", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   // Create a game with value 4 (one refresh away from being complete)
   const gameId = ulid();
@@ -645,6 +701,7 @@ Deno.test("handleRefresh properly marks game as complete when threshold reached"
   ];
 
   const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
     config: undefined,
     gameState: {
       value: 4,
@@ -659,6 +716,7 @@ Deno.test("handleRefresh properly marks game as complete when threshold reached"
     players,
     outcome: undefined,
     version: 0,
+    seed: "test-seed",
   };
 
   // Set up active game key and game data
@@ -685,7 +743,7 @@ Deno.test("handleRefresh properly marks game as complete when threshold reached"
 
 Deno.test("handleRefresh doesn't update completed games", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   // Create a completed game
   const gameId = ulid();
@@ -696,12 +754,14 @@ Deno.test("handleRefresh doesn't update completed games", async () => {
   ];
 
   const initialGameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
     config: undefined,
     gameState: { value: 1, moveHistory: ["Player 0: increment"] },
     playerUserIds: [],
     players,
     outcome: undefined,
     version: 0,
+    seed: "test-seed",
   };
 
   // Set up active game key and game data
@@ -756,7 +816,7 @@ Deno.test("handleRefresh doesn't update completed games", async () => {
 
 Deno.test("handleMove schedules refresh with refreshTimeout", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   // Create a spy on the updateGameStorageData method
   const updateGameStorageDataSpy = spy(db, "updateGameStorageData");
@@ -770,12 +830,14 @@ Deno.test("handleMove schedules refresh with refreshTimeout", async () => {
   ];
 
   const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
     config: undefined,
     gameState: { value: 1, moveHistory: ["Player 0: increment"] },
     playerUserIds: [],
     players,
     outcome: undefined,
     version: 0,
+    seed: "test-seed",
   };
 
   // Set up active game key and game data
@@ -798,7 +860,7 @@ Deno.test("handleMove schedules refresh with refreshTimeout", async () => {
 
 Deno.test("handleMove doesn't schedule refresh when refreshTimeout returns undefined", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   // Create a spy on the updateGameStorageData method
   const updateGameStorageDataSpy = spy(db, "updateGameStorageData");
@@ -811,6 +873,7 @@ Deno.test("handleMove doesn't schedule refresh when refreshTimeout returns undef
   ];
 
   const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
     config: undefined,
     gameState: {
       value: 3,
@@ -824,6 +887,7 @@ Deno.test("handleMove doesn't schedule refresh when refreshTimeout returns undef
     players,
     outcome: undefined,
     version: 0,
+    seed: "test-seed",
   };
 
   // Set up active game key and game data
@@ -845,7 +909,7 @@ Deno.test("handleMove doesn't schedule refresh when refreshTimeout returns undef
 
 Deno.test("handleRefresh schedules refresh with refreshTimeout", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
 
   // Create a spy on the updateGameStorageData method
   const updateGameStorageDataSpy = spy(db, "updateGameStorageData");
@@ -859,12 +923,14 @@ Deno.test("handleRefresh schedules refresh with refreshTimeout", async () => {
   ];
 
   const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
     config: undefined,
     gameState: { value: 1, moveHistory: ["Player 0: increment"] },
     playerUserIds: [],
     players,
     outcome: undefined,
     version: 0,
+    seed: "test-seed",
   };
 
   // Set up active game key and game data
@@ -880,3 +946,578 @@ Deno.test("handleRefresh schedules refresh with refreshTimeout", async () => {
 
   kv.close();
 });
+
+Deno.test("handleMove and handleRefresh append to the game log", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const gameId = ulid();
+
+  const players: User[] = [
+    { username: "Player 1", isGuest: false },
+    { username: "Player 2", isGuest: false },
+  ];
+
+  const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
+    config: undefined,
+    gameState: { value: 0, moveHistory: [] },
+    playerUserIds: [],
+    players,
+    outcome: undefined,
+    version: 0,
+    seed: "test-seed",
+  };
+
+  await kv.set(getActiveGameKey(gameId), {});
+  await kv.set(getGameKey(gameId), gameData);
+
+  await handleMove(db, testGame, gameId, 1, { action: "increment" });
+  await handleMove(db, testGame, gameId, 0, { action: "invalid_action" });
+  await handleRefresh(db, testGame, gameId);
+
+  const log = await db.getGameLog<TestMove>(gameId);
+
+  // The invalid move should not be logged
+  assertEquals(log.length, 2);
+  assertEquals(log[0].type, "move");
+  assertEquals(log[0].version, 1);
+  if (log[0].type === "move") {
+    assertEquals(log[0].playerId, 1);
+    assertEquals(log[0].move, { action: "increment" });
+  }
+  assertEquals(log[1].type, "refresh");
+  assertEquals(log[1].version, 2);
+
+  kv.close();
+});
+
+Deno.test("getReplay rebuilds the public state after every step", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const gameId = ulid();
+
+  const players: User[] = [
+    { username: "Player 1", isGuest: false },
+    { username: "Player 2", isGuest: false },
+  ];
+
+  const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
+    config: undefined,
+    gameState: { value: 0, moveHistory: [] },
+    playerUserIds: [],
+    players,
+    outcome: undefined,
+    version: 0,
+    seed: "test-seed",
+  };
+
+  await kv.set(getActiveGameKey(gameId), {});
+  await kv.set(getGameKey(gameId), gameData);
+  await kv.set(getGameLogKey(gameId, 0), {
+    type: "setup",
+    timestamp: new Date(),
+    version: 0,
+  });
+
+  await handleMove(db, testGame, gameId, 0, { action: "increment" });
+  await handleMove(db, testGame, gameId, 1, { action: "decrement" });
+  await handleRefresh(db, testGame, gameId);
+
+  const replay = await getReplay(db, testGame, gameId);
+
+  assertEquals(replay.map((step) => step.type), [
+    "setup",
+    "move",
+    "move",
+    "refresh",
+  ]);
+  assertEquals(replay.map((step) => step.version), [0, 1, 2, 3]);
+  assertEquals(replay.map((step) => step.publicState), [
+    { currentValue: 0, moves: 0 },
+    { currentValue: 1, moves: 1 },
+    { currentValue: 0, moves: 2 },
+    { currentValue: 1, moves: 3 },
+  ]);
+
+  // The final replayed state matches the stored state
+  const storedGameData = await db.getGameStorageData<
+    TestConfig,
+    TestState,
+    TestOutcome
+  >(gameId);
+  assertEquals(
+    replay[replay.length - 1].publicState,
+    getPublicState(storedGameData, testGame.publicState, new Date()),
+  );
+
+  kv.close();
+});
+
+Deno.test("getReplay reproduces moves that use randomness", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const randomGame: typeof testGame = {
+    ...testGame,
+    processMove: (state, { random }) => ({
+      value: state.value + random.integer(1, 100),
+      moveHistory: [...state.moveHistory, "random"],
+    }),
+    outcome: () => undefined,
+  };
+
+  const gameId = ulid();
+
+  const players: User[] = [
+    { username: "Player 1", isGuest: false },
+    { username: "Player 2", isGuest: false },
+  ];
+
+  const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
+    config: undefined,
+    gameState: { value: 0, moveHistory: [] },
+    playerUserIds: [],
+    players,
+    outcome: undefined,
+    version: 0,
+    seed: "test-seed",
+  };
+
+  await kv.set(getActiveGameKey(gameId), {});
+  await kv.set(getGameKey(gameId), gameData);
+  await kv.set(getGameLogKey(gameId, 0), {
+    type: "setup",
+    timestamp: new Date(),
+    version: 0,
+  });
+
+  await handleMove(db, randomGame, gameId, 0, { action: "increment" });
+  await handleMove(db, randomGame, gameId, 1, { action: "increment" });
+
+  const storedGameData = await db.getGameStorageData<
+    TestConfig,
+    TestState,
+    TestOutcome
+  >(gameId);
+  const replay = await getReplay(db, randomGame, gameId);
+
+  assertEquals(
+    replay[replay.length - 1].publicState,
+    getPublicState(storedGameData, randomGame.publicState, new Date()),
+  );
+
+  kv.close();
+});
+
+Deno.test("handleMove passes placements when a rated game completes", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const ratedGame: typeof testGame = {
+    ...testGame,
+    modes: {
+      queue: {
+        numPlayers: 2,
+        matchmaking: "queue",
+        config: undefined,
+        rating: { initialWindow: 100, windowGrowthPerSecond: 10 },
+      },
+    },
+    placements: () => [0, 1],
+  };
+
+  const updateGameStorageDataSpy = spy(db, "updateGameStorageData");
+
+  const gameId = ulid();
+
+  const players: User[] = [
+    { username: "Player 1", isGuest: false },
+    { username: "Player 2", isGuest: false },
+  ];
+
+  const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
+    config: undefined,
+    gameState: { value: 4, moveHistory: [] },
+    playerUserIds: ["user-1", "user-2"],
+    players,
+    outcome: undefined,
+    version: 0,
+    seed: "test-seed",
+  };
+
+  await kv.set(getActiveGameKey(gameId), {});
+  await kv.set(getGameKey(gameId), gameData);
+
+  await handleMove(db, ratedGame, gameId, 0, { action: "increment" });
+
+  assertSpyCalls(updateGameStorageDataSpy, 1);
+  assertEquals(updateGameStorageDataSpy.calls[0].args[3]?.placements, [0, 1]);
+  assertEquals(await db.getRating("user-1", "queue"), 1516);
+
+  kv.close();
+});
+
+Deno.test("handleMove records results when a game completes", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const resultsGame: typeof testGame = {
+    ...testGame,
+    results: () => ["win", "loss"],
+  };
+
+  const gameId = ulid();
+
+  const players: User[] = [
+    { username: "Player 1", isGuest: false },
+    { username: "Player 2", isGuest: false },
+  ];
+
+  const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
+    config: undefined,
+    gameState: { value: 4, moveHistory: [] },
+    playerUserIds: ["user-1", "user-2"],
+    players,
+    outcome: undefined,
+    version: 0,
+    seed: "test-seed",
+  };
+
+  await kv.set(getActiveGameKey(gameId), {});
+  await kv.set(getGameKey(gameId), gameData);
+
+  await handleMove(db, resultsGame, gameId, 0, { action: "increment" });
+
+  assertEquals((await db.getStats("user-1")).queue?.wins, 1);
+  assertEquals((await db.getStats("user-2")).queue?.losses, 1);
+
+  kv.close();
+});
+
+const leavingGame: typeof testGame = {
+  ...testGame,
+  playerLeft: (state, { playerId, reason }) => ({
+    value: playerId === 0 ? -5 : 5,
+    moveHistory: [...state.moveHistory, `Player ${playerId}: ${reason}`],
+  }),
+};
+
+Deno.test("handlePlayerLeft applies playerLeft and logs it", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const gameId = ulid();
+
+  const players: User[] = [
+    { username: "Player 1", isGuest: false },
+    { username: "Player 2", isGuest: false },
+  ];
+
+  const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
+    config: undefined,
+    gameState: { value: 0, moveHistory: [] },
+    playerUserIds: [],
+    players,
+    outcome: undefined,
+    version: 0,
+    seed: "test-seed",
+  };
+
+  await kv.set(getActiveGameKey(gameId), {});
+  await kv.set(getGameKey(gameId), gameData);
+
+  await handlePlayerLeft(db, leavingGame, gameId, 1, "resigned");
+
+  const updatedGameData = await db.getGameStorageData<
+    TestConfig,
+    TestState,
+    TestOutcome
+  >(gameId);
+  assertEquals(updatedGameData.gameState.moveHistory, [
+    "Player 1: resigned",
+  ]);
+  assertEquals(updatedGameData.outcome, "done");
+
+  const log = await db.getGameLog<TestMove>(gameId);
+  assertEquals(log.length, 1);
+  assertEquals(log[0].type, "playerLeft");
+
+  kv.close();
+});
+
+Deno.test("handlePlayerLeft is ignored when the game has no playerLeft", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const gameId = ulid();
+
+  const players: User[] = [
+    { username: "Player 1", isGuest: false },
+    { username: "Player 2", isGuest: false },
+  ];
+
+  const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
+    config: undefined,
+    gameState: { value: 0, moveHistory: [] },
+    playerUserIds: [],
+    players,
+    outcome: undefined,
+    version: 0,
+    seed: "test-seed",
+  };
+
+  await kv.set(getActiveGameKey(gameId), {});
+  await kv.set(getGameKey(gameId), gameData);
+
+  await handlePlayerLeft(db, testGame, gameId, 1, "resigned");
+
+  const updatedGameData = await db.getGameStorageData<
+    TestConfig,
+    TestState,
+    TestOutcome
+  >(gameId);
+  assertEquals(updatedGameData.version, 0);
+
+  kv.close();
+});
+
+Deno.test("handleAbandonmentCheck only abandons disconnected players", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const gameId = ulid();
+
+  const players: User[] = [
+    { username: "Player 1", isGuest: false },
+    { username: "Player 2", isGuest: false },
+  ];
+
+  const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
+    config: undefined,
+    gameState: { value: 0, moveHistory: [] },
+    playerUserIds: [],
+    players,
+    outcome: undefined,
+    version: 0,
+    seed: "test-seed",
+  };
+
+  await kv.set(getActiveGameKey(gameId), {});
+  await kv.set(getGameKey(gameId), gameData);
+
+  // Player 0 reconnected, so they are not abandoned
+  await db.addConnection(gameId, 0, "connection-1");
+  await handleAbandonmentCheck(db, leavingGame, gameId, 0);
+
+  const connectedGameData = await db.getGameStorageData<
+    TestConfig,
+    TestState,
+    TestOutcome
+  >(gameId);
+  assertEquals(connectedGameData.version, 0);
+
+  await handleAbandonmentCheck(db, leavingGame, gameId, 1);
+
+  const abandonedGameData = await db.getGameStorageData<
+    TestConfig,
+    TestState,
+    TestOutcome
+  >(gameId);
+  assertEquals(abandonedGameData.gameState.moveHistory, [
+    "Player 1: abandoned",
+  ]);
+
+  kv.close();
+});
+
+Deno.test("handleMove returns the rejection from isValidMove", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+
+  const gameId = ulid();
+  const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
+    config: undefined,
+    gameState: { value: 0, moveHistory: [] },
+    playerUserIds: [],
+    players: [
+      { username: "Player 1", isGuest: false },
+      { username: "Player 2", isGuest: false },
+    ],
+    outcome: undefined,
+    version: 0,
+    seed: "test-seed",
+  };
+  await kv.set(getGameKey(gameId), gameData);
+
+  const turnBasedGame = {
+    ...testGame,
+    isValidMove: (_state: TestState, { playerId }: { playerId: number }) =>
+      playerId === 0 ||
+      { reason: "not-your-turn", message: "It's not your turn" },
+  };
+
+  const result = await handleMove(db, turnBasedGame, gameId, 1, {
+    action: "increment",
+  });
+  assertEquals(result, {
+    accepted: false,
+    rejection: { reason: "not-your-turn", message: "It's not your turn" },
+  });
+
+  const updatedGameData = await db.getGameStorageData(gameId);
+  assertEquals(updatedGameData.version, 0);
+
+  kv.close();
+});
+
+Deno.test("handleMove timestamps moves using the DB clock", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const now = new Date("2024-01-01T00:00:00Z");
+  const db = new DB(new DenoKvStorage(kv), { now: () => now });
+
+  const gameId = ulid();
+  const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
+    config: undefined,
+    gameState: { value: 0, moveHistory: [] },
+    playerUserIds: [],
+    players: [
+      { username: "Player 1", isGuest: false },
+      { username: "Player 2", isGuest: false },
+    ],
+    outcome: undefined,
+    version: 0,
+    seed: "test-seed",
+  };
+  await kv.set(getGameKey(gameId), gameData);
+
+  const processMoveSpy = spy(testGame, "processMove");
+  try {
+    await handleMove(db, testGame, gameId, 0, { action: "increment" });
+  } finally {
+    processMoveSpy.restore();
+  }
+
+  assertEquals(processMoveSpy.calls[0].args[1].timestamp, now);
+  const logEntry = await kv.get<GameLogEntry<TestMove>>(
+    getGameLogKey(gameId, 1),
+  );
+  assertEquals(logEntry.value?.timestamp, now);
+
+  kv.close();
+});
+
+Deno.test("handleMove runs out the clock instead of moving after the flag falls", async () => {
+  const kv = await Deno.openKv(":memory:");
+  let time = 0;
+  const db = new DB(new DenoKvStorage(kv), { now: () => new Date(time) });
+  const timedGame: typeof testGame = {
+    ...testGame,
+    modes: {
+      queue: {
+        numPlayers: 2,
+        matchmaking: "queue",
+        config: undefined,
+        timeControl: { initialTime: 1000 },
+      },
+    },
+    refreshTimeout: undefined,
+    activePlayers: (state) => [state.moveHistory.length % 2],
+    timeExpired: (state) => ({ ...state, value: -5 }),
+  };
+
+  const gameId = ulid();
+  const gameData: GameStorageData<TestConfig, TestState, TestOutcome> = {
+    modeId: "queue",
+    config: undefined,
+    gameState: { value: 0, moveHistory: [] },
+    playerUserIds: [],
+    players: [
+      { username: "Player 1", isGuest: false },
+      { username: "Player 2", isGuest: false },
+    ],
+    outcome: undefined,
+    version: 0,
+    seed: "test-seed",
+    activePlayers: [0],
+    clocks: { remaining: [1000, 1000], updatedAt: 0, startedAt: [0, 0] },
+  };
+  await kv.set(getGameKey(gameId), gameData);
+
+  time = 5000;
+  assertEquals(
+    await handleMove(db, timedGame, gameId, 0, { action: "increment" }),
+    { accepted: false, rejection: { reason: "time-expired" } },
+  );
+  time = 100_000;
+  await handleClockCheck(db, timedGame, gameId);
+
+  const stored = await db.getGameStorageData<
+    TestConfig,
+    TestState,
+    TestOutcome
+  >(gameId);
+  assertEquals(stored.outcome, "done");
+  assertEquals(stored.gameState.moveHistory, []);
+  assertEquals(stored.clocks?.updatedAt, 5000);
+  const logEntry = await kv.get<GameLogEntry<TestMove>>(
+    getGameLogKey(gameId, 1),
+  );
+  assertEquals(logEntry.value?.type, "timeExpired");
+
+  kv.close();
+});
+
+Deno.test("handleMove updates the active games waiting on each user", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const turnGame: typeof testGame = {
+    ...testGame,
+    refreshTimeout: undefined,
+    activePlayers: (state) => [state.moveHistory.length % 2],
+    summary: (state) => `Value ${state.value}`,
+  };
+  const isYourTurn = async (userId: string) =>
+    getActiveGamesForUser(await db.getAllActiveGames(), userId).map((game) =>
+      game.isYourTurn
+    );
+
+  const gameId = await db.createGame(
+    "queue",
+    undefined,
+    ["user-1", "user-2"],
+    [
+      { username: "Player 1", isGuest: false },
+      { username: "Player 2", isGuest: false },
+    ],
+    turnGame,
+  );
+  assertEquals(await isYourTurn("user-1"), [true]);
+
+  await handleMove(db, turnGame, gameId, 0, { action: "increment" });
+
+  const gameData = await db.getGameStorageData(gameId);
+  assertEquals(gameData.activePlayers, [1]);
+  assertEquals(await isYourTurn("user-1"), [false]);
+  assertEquals(await isYourTurn("user-2"), [true]);
+
+  const [activeGame] = getActiveGamesForUser(
+    await db.getAllActiveGames(),
+    "user-2",
+  );
+  assertEquals(activeGame.gameId, gameId);
+  assertEquals(activeGame.moveCount, 1);
+  assertEquals(activeGame.summary, "Value 1");
+
+  kv.close();
+});
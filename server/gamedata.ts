@@ -1,15 +1,61 @@
-import type { DB, GameStorageData } from "./db.ts";
+import type {
+  ActiveGameStorageData,
+  DB,
+  GameLogEntry,
+  GameStorageData,
+} from "./db.ts";
+import { createRandom } from "./random.ts";
+import {
+  getExpiredPlayer,
+  getTimeUntilExpiry,
+  updateTurnClocks,
+} from "./turnclocks.ts";
 import type {
   ActiveGame,
+  ActivePlayersObject,
   Game,
+  MoveObject,
+  MoveRejection,
   OutcomeObject,
+  PlayerLeftObject,
+  PlayerLeftReason,
+  PlayerResult,
   PlayerStateObject,
   PublicStateObject,
   RefreshObject,
+  ReplayStep,
+  SummaryObject,
+  TimeExpiredObject,
+  TurnClocks,
+  User,
 } from "../types.ts";
 
-export async function fetchActiveGames(db: DB): Promise<ActiveGame[]> {
-  return await db.getAllActiveGames();
+// A log entry that has been computed but not yet assigned a version
+type GameLogStep<Move> =
+  | Omit<Extract<GameLogEntry<Move>, { type: "move" }>, "version">
+  | Omit<Extract<GameLogEntry<Move>, { type: "refresh" }>, "version">
+  | Omit<Extract<GameLogEntry<Move>, { type: "playerLeft" }>, "version">
+  | Omit<Extract<GameLogEntry<Move>, { type: "timeExpired" }>, "version">;
+
+export type MoveResult =
+  | { accepted: true }
+  | { accepted: false; rejection: MoveRejection };
+
+type GameContext<Config> = {
+  config: Config;
+  players: User[];
+  seed: string;
+};
+
+// Marks the games waiting on the user
+export function getActiveGamesForUser(
+  activeGames: ActiveGameStorageData[],
+  userId: string,
+): ActiveGame[] {
+  return activeGames.map(({ activeUserIds, ...activeGame }) => ({
+    ...activeGame,
+    isYourTurn: activeUserIds.includes(userId),
+  }));
 }
 
 export function getPlayerId<Config, GameState, Outcome>(
@@ -30,30 +76,81 @@ export function getPlayerState<Config, GameState, PlayerState, Outcome>(
     o: PlayerStateObject<Config>,
   ) => PlayerState,
   playerId: number,
+  timestamp: Date,
 ): PlayerState {
   const state = gameData.gameState;
   const playerStateObject: PlayerStateObject<Config> = {
     config: gameData.config,
     playerId,
     players: gameData.players,
-    timestamp: new Date(),
+    timestamp,
   };
   const playerState = playerStateLogic(state, playerStateObject);
   return playerState;
 }
 
+// Returns the clocks to show to players, for games with clocks
+export function getTurnClocks<
+  Config,
+  GameState,
+  Move,
+  PlayerState,
+  PublicState,
+  Outcome,
+>(
+  game: Game<Config, GameState, Move, PlayerState, PublicState, Outcome>,
+  gameData: GameStorageData<Config, GameState, Outcome>,
+): TurnClocks | undefined {
+  const timeControl = game.modes[gameData.modeId]?.timeControl;
+  if (gameData.clocks === undefined || timeControl === undefined) {
+    return undefined;
+  }
+  return {
+    remaining: gameData.clocks.remaining,
+    running: gameData.activePlayers ?? [],
+    updatedAt: gameData.clocks.updatedAt,
+    startedAt: gameData.clocks.startedAt,
+    delay: timeControl.delay ?? 0,
+  };
+}
+
+// Nobody is expected to act once the game is complete
+function getActivePlayers<
+  Config,
+  GameState,
+  Move,
+  PlayerState,
+  PublicState,
+  Outcome,
+>(
+  game: Game<Config, GameState, Move, PlayerState, PublicState, Outcome>,
+  gameData: GameStorageData<Config, GameState, Outcome>,
+  state: GameState,
+  outcome: Outcome | undefined,
+): number[] {
+  if (outcome !== undefined || !game.activePlayers) {
+    return [];
+  }
+  const activePlayersObject: ActivePlayersObject<Config> = {
+    players: gameData.players,
+    config: gameData.config,
+  };
+  return game.activePlayers(state, activePlayersObject);
+}
+
 export function getPublicState<Config, GameState, PublicState, Outcome>(
   gameData: GameStorageData<Config, GameState, Outcome>,
   publicStateLogic: (
     s: GameState,
     o: PublicStateObject<Config>,
   ) => PublicState,
+  timestamp: Date,
 ): PublicState {
   const state = gameData.gameState;
   const publicStateObject: PublicStateObject<Config> = {
     players: gameData.players,
     config: gameData.config,
-    timestamp: new Date(),
+    timestamp,
   };
   const publicState = publicStateLogic(state, publicStateObject);
   return publicState;
@@ -72,19 +169,20 @@ async function updateGameState<
   gameId: string,
   computeNewState: (
     gameData: GameStorageData<Config, GameState, Outcome>,
-  ) => GameState | undefined,
-) {
+  ) => { gameState: GameState; logStep: GameLogStep<Move> } | undefined,
+): Promise<boolean> {
   const gameData = await db.getGameStorageData<Config, GameState, Outcome>(
     gameId,
   );
   if (gameData.outcome !== undefined) {
-    return;
+    return false;
   }
 
-  const newState = computeNewState(gameData);
-  if (newState === undefined) {
-    return;
+  const computed = computeNewState(gameData);
+  if (computed === undefined) {
+    return false;
   }
+  const newState = computed.gameState;
 
   const outcomeObject: OutcomeObject<Config> = {
     players: gameData.players,
@@ -93,31 +191,239 @@ async function updateGameState<
   const outcome = game.outcome(newState, outcomeObject);
   const isComplete = outcome !== undefined;
 
-  const newGameData = {
+  const newGameData: GameStorageData<Config, GameState, Outcome> = {
     ...gameData,
     gameState: newState,
     outcome,
     version: gameData.version + 1,
   };
+  if (game.activePlayers) {
+    newGameData.activePlayers = getActivePlayers(
+      game,
+      gameData,
+      newState,
+      outcome,
+    );
+  }
+  const logEntry: GameLogEntry<Move> = {
+    ...computed.logStep,
+    version: newGameData.version,
+  };
 
   // Calculate refresh timeout if game has a refreshTimeout function
   let refreshDelay: number | undefined;
   if (game.refreshTimeout && !isComplete) {
     const refreshObject: RefreshObject<Config> = {
-      timestamp: new Date(),
+      timestamp: db.clock.now(),
       players: gameData.players,
       config: gameData.config,
+      random: createRandom(gameData.seed, newGameData.version),
     };
 
     refreshDelay = game.refreshTimeout(newState, refreshObject);
   }
 
-  // Update game data and schedule refresh in a single atomic transaction
+  // Charge the clocks that were running, and schedule a check for when the
+  // next one could run out
+  let clockCheckDelay: number | undefined;
+  const timeControl = game.modes[gameData.modeId]?.timeControl;
+  if (gameData.clocks !== undefined && timeControl !== undefined) {
+    const running = newGameData.activePlayers ?? [];
+    newGameData.clocks = updateTurnClocks(
+      gameData.clocks,
+      timeControl,
+      gameData.activePlayers ?? [],
+      running,
+      db.clock.now(),
+    );
+    clockCheckDelay = getTimeUntilExpiry(
+      newGameData.clocks,
+      timeControl,
+      running,
+    );
+  }
+
+  // Rank the players to update ratings, if the mode is rated
+  let placements: number[] | undefined;
+  if (
+    isComplete && game.placements && game.modes[gameData.modeId]?.rating
+  ) {
+    placements = game.placements(outcome, outcomeObject);
+  }
+
+  // Record each player's result in their statistics
+  let results: PlayerResult[] | undefined;
+  if (isComplete && game.results) {
+    results = game.results(outcome, outcomeObject);
+  }
+
+  const summaryObject: SummaryObject<Config> = {
+    players: gameData.players,
+    config: gameData.config,
+  };
+  const summary = game.summary?.(newState, summaryObject);
+
+  // Update game data, append to the log, and schedule refresh in a single
+  // atomic transaction, then update ratings and statistics
   await db.updateGameStorageData(
     gameId,
     newGameData,
     refreshDelay,
+    { logEntry, placements, results, clockCheckDelay, summary },
+  );
+  return true;
+}
+
+// The step is the version the game will have once the move is applied, so
+// that every step gets its own reproducible source of randomness.
+function buildMoveObject<Config, Move>(
+  context: GameContext<Config>,
+  step: number,
+  playerId: number,
+  move: Move,
+  timestamp: Date,
+): MoveObject<Config, Move> {
+  return {
+    playerId,
+    timestamp,
+    move,
+    players: context.players,
+    config: context.config,
+    random: createRandom(context.seed, step),
+  };
+}
+
+function applyRefresh<
+  Config,
+  GameState,
+  Move,
+  PlayerState,
+  PublicState,
+  Outcome,
+>(
+  game: Game<Config, GameState, Move, PlayerState, PublicState, Outcome>,
+  context: GameContext<Config>,
+  step: number,
+  state: GameState,
+  timestamp: Date,
+): GameState {
+  // If game.refresh is not provided, just return and do the update as normal.
+  if (!game.refresh) {
+    return state;
+  }
+
+  const refreshData: RefreshObject<Config> = {
+    timestamp,
+    players: context.players,
+    config: context.config,
+    random: createRandom(context.seed, step),
+  };
+
+  return game.refresh(state, refreshData);
+}
+
+function applyPlayerLeft<
+  Config,
+  GameState,
+  Move,
+  PlayerState,
+  PublicState,
+  Outcome,
+>(
+  game: Game<Config, GameState, Move, PlayerState, PublicState, Outcome>,
+  context: GameContext<Config>,
+  step: number,
+  state: GameState,
+  playerId: number,
+  reason: PlayerLeftReason,
+  timestamp: Date,
+): GameState {
+  if (!game.playerLeft) {
+    return state;
+  }
+
+  const playerLeftData: PlayerLeftObject<Config> = {
+    playerId,
+    reason,
+    timestamp,
+    players: context.players,
+    config: context.config,
+    random: createRandom(context.seed, step),
+  };
+
+  return game.playerLeft(state, playerLeftData);
+}
+
+function applyTimeExpired<
+  Config,
+  GameState,
+  Move,
+  PlayerState,
+  PublicState,
+  Outcome,
+>(
+  game: Game<Config, GameState, Move, PlayerState, PublicState, Outcome>,
+  context: GameContext<Config>,
+  step: number,
+  state: GameState,
+  playerId: number,
+  timestamp: Date,
+): GameState {
+  if (!game.timeExpired) {
+    return state;
+  }
+
+  const timeExpiredData: TimeExpiredObject<Config> = {
+    playerId,
+    timestamp,
+    players: context.players,
+    config: context.config,
+    random: createRandom(context.seed, step),
+  };
+
+  return game.timeExpired(state, timeExpiredData);
+}
+
+// Returns the step that runs out the clock of an active player whose time is
+// up, if there is one. Other changes apply it first, so a clock that has run
+// out is never stored at 0 without timeExpired being called.
+function computeTimeExpired<
+  Config,
+  GameState,
+  Move,
+  PlayerState,
+  PublicState,
+  Outcome,
+>(
+  game: Game<Config, GameState, Move, PlayerState, PublicState, Outcome>,
+  gameData: GameStorageData<Config, GameState, Outcome>,
+  timestamp: Date,
+): { gameState: GameState; logStep: GameLogStep<Move> } | undefined {
+  const timeControl = game.modes[gameData.modeId]?.timeControl;
+  if (gameData.clocks === undefined || timeControl === undefined) {
+    return undefined;
+  }
+
+  const playerId = getExpiredPlayer(
+    gameData.clocks,
+    timeControl,
+    gameData.activePlayers ?? [],
+    timestamp,
   );
+  if (playerId === undefined) {
+    return undefined;
+  }
+  return {
+    gameState: applyTimeExpired(
+      game,
+      gameData,
+      gameData.version + 1,
+      gameData.gameState,
+      playerId,
+      timestamp,
+    ),
+    logStep: { type: "timeExpired", playerId, timestamp },
+  };
 }
 
 export async function handleMove<
@@ -133,23 +439,41 @@ export async function handleMove<
   gameId: string,
   playerId: number,
   move: Move,
-) {
-  await updateGameState(db, game, gameId, (gameData) => {
-    const moveData = {
-      playerId,
-      timestamp: new Date(),
-      move,
-      players: gameData.players,
-      config: gameData.config,
-    };
+): Promise<MoveResult> {
+  let rejection: MoveRejection | undefined;
+  const isStored = await updateGameState(db, game, gameId, (gameData) => {
+    const timestamp = db.clock.now();
+    // A move that arrives after a clock has run out loses to the clock
+    const timeExpired = computeTimeExpired(game, gameData, timestamp);
+    if (timeExpired !== undefined) {
+      rejection = { reason: "time-expired" };
+      return timeExpired;
+    }
+
+    const step = gameData.version + 1;
+    const getMoveData = () =>
+      buildMoveObject(gameData, step, playerId, move, timestamp);
 
     const state = gameData.gameState;
-    if (!game.isValidMove(state, moveData)) {
+    const validity = game.isValidMove(state, getMoveData());
+    if (validity !== true) {
+      rejection = validity === false ? { reason: "invalid-move" } : validity;
       return undefined;
     }
 
-    return game.processMove(state, moveData);
+    return {
+      gameState: game.processMove(state, getMoveData()),
+      logStep: { type: "move", playerId, move, timestamp },
+    };
   });
+
+  if (rejection !== undefined) {
+    return { accepted: false, rejection };
+  }
+  if (!isStored) {
+    return { accepted: false, rejection: { reason: "game-complete" } };
+  }
+  return { accepted: true };
 }
 
 export async function handleRefresh<
@@ -165,19 +489,191 @@ export async function handleRefresh<
   gameId: string,
 ) {
   await updateGameState(db, game, gameId, (gameData) => {
-    const state = gameData.gameState;
+    const timestamp = db.clock.now();
+    return computeTimeExpired(game, gameData, timestamp) ?? {
+      gameState: applyRefresh(
+        game,
+        gameData,
+        gameData.version + 1,
+        gameData.gameState,
+        timestamp,
+      ),
+      logStep: { type: "refresh", timestamp },
+    };
+  });
+}
 
-    // If game.refersh is not provided, just return and do the update as normal.
-    if (!game.refresh) {
-      return state;
-    }
+export async function handlePlayerLeft<
+  Config,
+  GameState,
+  Move,
+  PlayerState,
+  PublicState,
+  Outcome,
+>(
+  db: DB,
+  game: Game<Config, GameState, Move, PlayerState, PublicState, Outcome>,
+  gameId: string,
+  playerId: number,
+  reason: PlayerLeftReason,
+) {
+  // Games that don't implement playerLeft ignore resignations and abandonment
+  if (!game.playerLeft) {
+    return;
+  }
 
-    const refreshData: RefreshObject<Config> = {
-      timestamp: new Date(),
+  await updateGameState(db, game, gameId, (gameData) => {
+    const timestamp = db.clock.now();
+    return computeTimeExpired(game, gameData, timestamp) ?? {
+      gameState: applyPlayerLeft(
+        game,
+        gameData,
+        gameData.version + 1,
+        gameData.gameState,
+        playerId,
+        reason,
+        timestamp,
+      ),
+      logStep: { type: "playerLeft", playerId, reason, timestamp },
+    };
+  });
+}
+
+// Runs out the clock of an active player whose time is up. Checks are
+// scheduled whenever a clock could run out, so most find that the game has
+// changed since and do nothing.
+export async function handleClockCheck<
+  Config,
+  GameState,
+  Move,
+  PlayerState,
+  PublicState,
+  Outcome,
+>(
+  db: DB,
+  game: Game<Config, GameState, Move, PlayerState, PublicState, Outcome>,
+  gameId: string,
+) {
+  await updateGameState(
+    db,
+    game,
+    gameId,
+    (gameData) => computeTimeExpired(game, gameData, db.clock.now()),
+  );
+}
+
+// Treats the player as having abandoned the game if they haven't reconnected
+// since their last connection closed.
+export async function handleAbandonmentCheck<
+  Config,
+  GameState,
+  Move,
+  PlayerState,
+  PublicState,
+  Outcome,
+>(
+  db: DB,
+  game: Game<Config, GameState, Move, PlayerState, PublicState, Outcome>,
+  gameId: string,
+  playerId: number,
+) {
+  if (await db.isConnected(gameId, playerId)) {
+    return;
+  }
+  await handlePlayerLeft(db, game, gameId, playerId, "abandoned");
+}
+
+// Rebuilds a game from its log by re-running setup, processMove and refresh,
+// returning the public state after each step.
+export async function getReplay<
+  Config,
+  GameState,
+  Move,
+  PlayerState,
+  PublicState,
+  Outcome,
+>(
+  db: DB,
+  game: Game<Config, GameState, Move, PlayerState, PublicState, Outcome>,
+  gameId: string,
+): Promise<ReplayStep<Move, PublicState>[]> {
+  const gameData = await db.getGameStorageData<Config, GameState, Outcome>(
+    gameId,
+  );
+  const log = await db.getGameLog<Move>(gameId);
+  const [setupEntry, ...entries] = log;
+  if (setupEntry?.type !== "setup") {
+    throw new Error(`Game ${gameId} has no replay log`);
+  }
+
+  const getReplayStep = (
+    entry: GameLogEntry<Move>,
+    state: GameState,
+  ): ReplayStep<Move, PublicState> => {
+    const publicState = game.publicState(state, {
       players: gameData.players,
       config: gameData.config,
-    };
+      timestamp: entry.timestamp,
+    });
+    return { ...entry, publicState };
+  };
 
-    return game.refresh(state, refreshData);
+  let state = game.setup({
+    timestamp: setupEntry.timestamp,
+    players: gameData.players,
+    config: gameData.config,
+    random: createRandom(gameData.seed, setupEntry.version),
   });
+  const steps = [getReplayStep(setupEntry, state)];
+
+  for (const entry of entries) {
+    switch (entry.type) {
+      case "move": {
+        const moveData = buildMoveObject(
+          gameData,
+          entry.version,
+          entry.playerId,
+          entry.move,
+          entry.timestamp,
+        );
+        state = game.processMove(state, moveData);
+        break;
+      }
+      case "refresh":
+        state = applyRefresh(
+          game,
+          gameData,
+          entry.version,
+          state,
+          entry.timestamp,
+        );
+        break;
+      case "playerLeft":
+        state = applyPlayerLeft(
+          game,
+          gameData,
+          entry.version,
+          state,
+          entry.playerId,
+          entry.reason,
+          entry.timestamp,
+        );
+        break;
+      case "timeExpired":
+        state = applyTimeExpired(
+          game,
+          gameData,
+          entry.version,
+          state,
+          entry.playerId,
+          entry.timestamp,
+        );
+        break;
+      case "setup":
+        throw new Error(`Game ${gameId} has multiple setup log entries`);
+    }
+    steps.push(getReplayStep(entry, state));
+  }
+
+  return steps;
 }
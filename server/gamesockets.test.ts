@@ -1,8 +1,15 @@
 import { assertEquals, assertExists } from "@std/assert";
-import { spy } from "@std/testing/mock";
+import { assertSpyCallArgs, assertSpyCalls, spy } from "@std/testing/mock";
 import { DB, type GameStorageData } from "./db.ts";
+import { DenoKvStorage } from "./storage.ts";
 import { GameSocketStore } from "./gamesockets.ts";
-import type { PlayerStateObject, PublicStateObject, User } from "../types.ts";
+import { applyPatch } from "../common/jsonpatch.ts";
+import type {
+  ChatMessage,
+  PlayerStateObject,
+  PublicStateObject,
+  User,
+} from "../types.ts";
 
 const user1: User = { username: "guest-0001", isGuest: true };
 const user2: User = { username: "guest-0002", isGuest: true };
@@ -23,12 +30,14 @@ function buildGameData(
   outcome?: TestOutcome,
 ): GameStorageData<TestConfig, TestState, TestOutcome> {
   return {
+    modeId: "queue",
     config: undefined,
     gameState: { value },
     playerUserIds: ["user-1", "user-2"],
     players: [user1, user2],
     outcome,
     version,
+    seed: "test-seed",
   };
 }
 
@@ -49,7 +58,7 @@ const publicStateLogic = (
 
 Deno.test("initialize sends UpdateGameState when client state is stale", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
   const gameSocketStore = new GameSocketStore<
     TestConfig,
     TestState,
@@ -61,7 +70,7 @@ Deno.test("initialize sends UpdateGameState when client state is stale", async (
   const gameId = "game-initialize";
   await kv.set(getGameKey(gameId), buildGameData(0, 0));
 
-  const socket = { send: spy() };
+  const socket = { send: spy(), close: spy() };
   gameSocketStore.register(
     socket,
     gameId,
@@ -73,6 +82,7 @@ Deno.test("initialize sends UpdateGameState when client state is stale", async (
   await gameSocketStore.initialize(
     socket,
     gameId,
+    0,
     { value: -1 },
     { playerId: 0, value: -1 },
     playerStateLogic,
@@ -99,7 +109,7 @@ Deno.test("initialize sends UpdateGameState when client state is stale", async (
 
 Deno.test("streams updates to player and observer sockets", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
   const gameSocketStore = new GameSocketStore<
     TestConfig,
     TestState,
@@ -111,8 +121,8 @@ Deno.test("streams updates to player and observer sockets", async () => {
   const gameId = "game-stream";
   await kv.set(getGameKey(gameId), buildGameData(0, 0));
 
-  const playerSocket = { send: spy() };
-  const observerSocket = { send: spy() };
+  const playerSocket = { send: spy(), close: spy() };
+  const observerSocket = { send: spy(), close: spy() };
 
   gameSocketStore.register(
     playerSocket,
@@ -132,6 +142,7 @@ Deno.test("streams updates to player and observer sockets", async () => {
     gameSocketStore.initialize(
       playerSocket,
       gameId,
+      0,
       { value: 0 },
       { playerId: 0, value: 0 },
       playerStateLogic,
@@ -140,6 +151,7 @@ Deno.test("streams updates to player and observer sockets", async () => {
     gameSocketStore.initialize(
       observerSocket,
       gameId,
+      0,
       { value: 0 },
       undefined,
       playerStateLogic,
@@ -152,30 +164,33 @@ Deno.test("streams updates to player and observer sockets", async () => {
 
   await new Promise((resolve) => setTimeout(resolve, 100));
 
-  let playerUpdate;
-  for (const call of playerSocket.send.calls) {
-    const msg = JSON.parse(call.args[0]);
-    if (msg.type === "UpdateGameState" && msg.publicState?.value === 5) {
-      playerUpdate = msg;
-      break;
-    }
-  }
-
-  let observerUpdate;
-  for (const call of observerSocket.send.calls) {
-    const msg = JSON.parse(call.args[0]);
-    if (msg.type === "UpdateGameState" && msg.publicState?.value === 5) {
-      observerUpdate = msg;
-      break;
-    }
-  }
-
-  assertExists(playerUpdate);
-  assertExists(observerUpdate);
-  assertEquals(playerUpdate.outcome, "done");
-  assertEquals(observerUpdate.outcome, "done");
-  assertEquals(playerUpdate.playerState.value, 5);
-  assertEquals(observerUpdate.playerState, undefined);
+  const findPatch = (socket: typeof playerSocket) =>
+    socket.send.calls
+      .map((call) => JSON.parse(call.args[0]))
+      .find((msg) => msg.type === "PatchGameState");
+
+  const playerPatch = findPatch(playerSocket);
+  const observerPatch = findPatch(observerSocket);
+
+  assertExists(playerPatch);
+  assertExists(observerPatch);
+  assertEquals(playerPatch.baseVersion, 0);
+  assertEquals(playerPatch.version, 1);
+  assertEquals(
+    applyPatch(
+      { playerState: { playerId: 0, value: 0 }, publicState: { value: 0 } },
+      playerPatch.patch,
+    ),
+    {
+      playerState: { playerId: 0, value: 5 },
+      publicState: { value: 5 },
+      outcome: "done",
+    },
+  );
+  assertEquals(
+    applyPatch({ publicState: { value: 0 } }, observerPatch.patch),
+    { publicState: { value: 5 }, outcome: "done" },
+  );
 
   gameSocketStore.unregister(playerSocket, gameId);
   gameSocketStore.unregister(observerSocket, gameId);
@@ -184,7 +199,7 @@ Deno.test("streams updates to player and observer sockets", async () => {
 
 Deno.test("unregister stops streaming updates", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
+  const db = new DB(new DenoKvStorage(kv));
   const gameSocketStore = new GameSocketStore<
     TestConfig,
     TestState,
@@ -196,7 +211,7 @@ Deno.test("unregister stops streaming updates", async () => {
   const gameId = "game-unregister";
   await kv.set(getGameKey(gameId), buildGameData(0, 0));
 
-  const socket = { send: spy() };
+  const socket = { send: spy(), close: spy() };
   gameSocketStore.register(
     socket,
     gameId,
@@ -208,6 +223,7 @@ Deno.test("unregister stops streaming updates", async () => {
   await gameSocketStore.initialize(
     socket,
     gameId,
+    0,
     { value: 0 },
     { playerId: 0, value: 0 },
     playerStateLogic,
@@ -226,3 +242,284 @@ Deno.test("unregister stops streaming updates", async () => {
 
   kv.close();
 });
+
+Deno.test("broadcasts presence changes to sockets", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const gameSocketStore = new GameSocketStore<
+    TestConfig,
+    TestState,
+    TestPlayerState,
+    TestPublicState,
+    TestOutcome
+  >(db);
+
+  const gameId = "game-presence";
+  await kv.set(getGameKey(gameId), buildGameData(0, 0));
+
+  const observerSocket = { send: spy(), close: spy() };
+  gameSocketStore.register(
+    observerSocket,
+    gameId,
+    playerStateLogic,
+    publicStateLogic,
+  );
+  await gameSocketStore.initialize(
+    observerSocket,
+    gameId,
+    0,
+    { value: 0 },
+    undefined,
+    playerStateLogic,
+    publicStateLogic,
+  );
+
+  await db.addConnection(gameId, 1, "connection-1");
+  await new Promise((resolve) => setTimeout(resolve, 100));
+
+  const presenceUpdates = observerSocket.send.calls
+    .map((call) => JSON.parse(call.args[0]))
+    .filter((msg) => msg.type === "UpdatePresence");
+
+  assertEquals(presenceUpdates[0].presence, []);
+  const lastUpdate = presenceUpdates[presenceUpdates.length - 1];
+  assertEquals(lastUpdate.presence.length, 1);
+  assertEquals(lastUpdate.presence[0].playerId, 1);
+  assertEquals(lastUpdate.presence[0].isConnected, true);
+
+  gameSocketStore.unregister(observerSocket, gameId);
+  kv.close();
+});
+
+Deno.test("sends chat messages to the sockets that can see them", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const gameSocketStore = new GameSocketStore<
+    TestConfig,
+    TestState,
+    TestPlayerState,
+    TestPublicState,
+    TestOutcome
+  >(db);
+
+  const gameId = "game-chat";
+  await kv.set(getGameKey(gameId), buildGameData(0, 0));
+
+  const playerSocket = { send: spy(), close: spy() };
+  const observerSocket = { send: spy(), close: spy() };
+  gameSocketStore.register(
+    playerSocket,
+    gameId,
+    playerStateLogic,
+    publicStateLogic,
+    0,
+  );
+  gameSocketStore.register(
+    observerSocket,
+    gameId,
+    playerStateLogic,
+    publicStateLogic,
+  );
+  await Promise.all([
+    gameSocketStore.initialize(
+      playerSocket,
+      gameId,
+      0,
+      { value: 0 },
+      { playerId: 0, value: 0 },
+      playerStateLogic,
+      publicStateLogic,
+    ),
+    gameSocketStore.initialize(
+      observerSocket,
+      gameId,
+      0,
+      { value: 0 },
+      undefined,
+      playerStateLogic,
+      publicStateLogic,
+    ),
+  ]);
+
+  const message: ChatMessage = {
+    id: "01A",
+    channel: "players",
+    playerId: 0,
+    username: user1.username,
+    text: "good luck",
+    timestamp: 0,
+  };
+  await db.addChatMessage(gameId, message);
+  await new Promise((resolve) => setTimeout(resolve, 100));
+
+  const getChatMessages = (socket: typeof playerSocket) =>
+    socket.send.calls
+      .map((call) => JSON.parse(call.args[0]))
+      .filter((msg) => msg.type === "NewChatMessages");
+
+  assertEquals(getChatMessages(playerSocket), [
+    { type: "NewChatMessages", messages: [message] },
+  ]);
+  assertEquals(getChatMessages(observerSocket), []);
+
+  gameSocketStore.unregister(playerSocket, gameId);
+  gameSocketStore.unregister(observerSocket, gameId);
+  kv.close();
+});
+
+Deno.test("initialize skips clients that are up to date and resync sends state", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const gameSocketStore = new GameSocketStore<
+    TestConfig,
+    TestState,
+    TestPlayerState,
+    TestPublicState,
+    TestOutcome
+  >(db);
+
+  const gameId = "game-resync";
+  await kv.set(getGameKey(gameId), buildGameData(3, 2));
+
+  const socket = { send: spy(), close: spy() };
+  gameSocketStore.register(
+    socket,
+    gameId,
+    playerStateLogic,
+    publicStateLogic,
+    0,
+  );
+  await gameSocketStore.initialize(
+    socket,
+    gameId,
+    2,
+    { value: 3 },
+    { playerId: 0, value: 3 },
+    playerStateLogic,
+    publicStateLogic,
+  );
+
+  const getStateMessages = () =>
+    socket.send.calls
+      .map((call) => JSON.parse(call.args[0]))
+      .filter((msg) => msg.type === "UpdateGameState");
+  assertEquals(getStateMessages(), []);
+
+  await gameSocketStore.resync(
+    socket,
+    gameId,
+    playerStateLogic,
+    publicStateLogic,
+  );
+  assertEquals(getStateMessages(), [{
+    type: "UpdateGameState",
+    version: 2,
+    playerState: { playerId: 0, value: 3 },
+    publicState: { value: 3 },
+  }]);
+
+  gameSocketStore.unregister(socket, gameId);
+  kv.close();
+});
+
+Deno.test("acknowledgeMove echoes the move sequence", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const gameSocketStore = new GameSocketStore<
+    TestConfig,
+    TestState,
+    TestPlayerState,
+    TestPublicState,
+    TestOutcome
+  >(db);
+
+  const gameId = "game-acknowledge";
+  await kv.set(getGameKey(gameId), buildGameData(0, 0));
+
+  const socket = { send: spy(), close: spy() };
+  gameSocketStore.register(
+    socket,
+    gameId,
+    playerStateLogic,
+    publicStateLogic,
+    0,
+  );
+  await gameSocketStore.initialize(
+    socket,
+    gameId,
+    0,
+    { value: 0 },
+    { playerId: 0, value: 0 },
+    playerStateLogic,
+    publicStateLogic,
+  );
+
+  // A rejected move leaves the state unchanged
+  await gameSocketStore.acknowledgeMove(
+    socket,
+    gameId,
+    4,
+    playerStateLogic,
+    publicStateLogic,
+  );
+
+  const patches = socket.send.calls
+    .map((call) => JSON.parse(call.args[0]))
+    .filter((msg) => msg.type === "PatchGameState");
+  assertEquals(patches, [{
+    type: "PatchGameState",
+    baseVersion: 0,
+    version: 0,
+    patch: [],
+    moveSequence: 4,
+  }]);
+
+  gameSocketStore.unregister(socket, gameId);
+  kv.close();
+});
+
+Deno.test("closes only the sockets opened with a revoked token", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const gameSocketStore = new GameSocketStore<
+    TestConfig,
+    TestState,
+    TestPlayerState,
+    TestPublicState,
+    TestOutcome
+  >(db);
+
+  const gameId = "game-revoke";
+  await kv.set(getGameKey(gameId), buildGameData(0, 0));
+  const expiration = new Date(Date.now() + 60000);
+  await db.storeToken("token-1", { userId: "user-1", expiration });
+  await db.storeToken("token-2", { userId: "user-2", expiration });
+
+  const socket1 = { send: spy(), close: spy() };
+  const socket2 = { send: spy(), close: spy() };
+  gameSocketStore.register(
+    socket1,
+    gameId,
+    playerStateLogic,
+    publicStateLogic,
+    0,
+    "token-1",
+  );
+  gameSocketStore.register(
+    socket2,
+    gameId,
+    playerStateLogic,
+    publicStateLogic,
+    1,
+    "token-2",
+  );
+
+  await db.revokeToken("token-1");
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  assertSpyCallArgs(socket1.close, 0, [4001, "Token revoked"]);
+  assertSpyCalls(socket2.close, 0);
+
+  gameSocketStore.unregister(socket1, gameId);
+  gameSocketStore.unregister(socket2, gameId);
+  kv.close();
+});
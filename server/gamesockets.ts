@@ -1,15 +1,37 @@
 import type { DB, GameStorageData } from "./db.ts";
-import { jsonEquals, type Socket } from "./socketutils.ts";
-import type { PlayerStateObject, PublicStateObject } from "../types.ts";
+import {
+  closeWhenTokenRevoked,
+  jsonEquals,
+  type Socket,
+} from "./socketutils.ts";
+import type {
+  ChatMessage,
+  PlayerPresence,
+  PlayerStateObject,
+  PublicStateObject,
+  TokenData,
+  TurnClocks,
+} from "../types.ts";
 import { assert } from "@std/assert";
 import type { GameSocketResponse } from "../common/sockettypes.ts";
 import { getPlayerState, getPublicState } from "./gamedata.ts";
+import { isChatMessageVisible } from "./chat.ts";
+import { createPatch } from "../common/jsonpatch.ts";
 
 type GameSocketEntry<PlayerState, PublicState, Outcome> = {
   playerId: number | undefined;
+  // The version of the state most recently sent to the socket
+  lastVersion: number | undefined;
+  // The sequence number of the latest move processed from the socket's client
+  lastMoveSequence: number | undefined;
   lastPlayerState: PlayerState | undefined;
   lastPublicState: PublicState | undefined;
   lastOutcome: Outcome | undefined;
+  lastActivePlayers: number[] | undefined;
+  lastClocks: TurnClocks | undefined;
+  lastPresence: PlayerPresence[] | undefined;
+  // Watches the server token the socket was opened with, if any
+  tokenReader: ReadableStreamDefaultReader<TokenData | null> | undefined;
   socket: Socket;
 };
 
@@ -18,6 +40,8 @@ type GameConnection<Config, GameState, PlayerState, PublicState, Outcome> = {
   changesReader: ReadableStreamDefaultReader<
     GameStorageData<Config, GameState, Outcome>
   >;
+  presenceReader: ReadableStreamDefaultReader<PlayerPresence[]>;
+  chatReader: ReadableStreamDefaultReader<ChatMessage[]>;
 };
 
 export class GameSocketStore<
@@ -32,7 +56,12 @@ export class GameSocketStore<
     GameConnection<Config, GameState, PlayerState, PublicState, Outcome>
   > = new Map();
 
-  constructor(private db: DB) {}
+  constructor(
+    private db: DB,
+    private clocksLogic: (
+      gameData: GameStorageData<Config, GameState, Outcome>,
+    ) => TurnClocks | undefined = () => undefined,
+  ) {}
 
   register(
     socket: Socket,
@@ -46,16 +75,18 @@ export class GameSocketStore<
       o: PublicStateObject<Config>,
     ) => PublicState,
     playerId?: number,
+    token?: string,
   ) {
     if (!this.hasGame(gameId)) {
       this.createGame(gameId, playerStateLogic, publicStateLogic);
     }
-    this.addSocket(gameId, socket, playerId);
+    this.addSocket(gameId, socket, playerId, token);
   }
 
   async initialize(
     socket: Socket,
     gameId: string,
+    version: number,
     publicState: PublicState,
     playerState: PlayerState | undefined,
     playerStateLogic: (
@@ -70,9 +101,12 @@ export class GameSocketStore<
     const connection = this.getConnection(gameId);
     const gameSocket = connection.sockets.find((s) => s.socket === socket);
     assert(gameSocket != null);
+    gameSocket.lastVersion = version;
+    gameSocket.lastMoveSequence = undefined;
     gameSocket.lastPlayerState = playerState;
     gameSocket.lastPublicState = publicState;
     gameSocket.lastOutcome = undefined;
+    gameSocket.lastPresence = undefined;
 
     const gameData = await this.db.getGameStorageData<
       Config,
@@ -81,25 +115,145 @@ export class GameSocketStore<
     >(
       gameId,
     );
+    // Active players and clocks only change along with the version, so a
+    // client at the current version already has them
+    const clocks = this.clocksLogic(gameData);
+    gameSocket.lastActivePlayers = gameData.activePlayers;
+    gameSocket.lastClocks = clocks;
+    const timestamp = this.db.clock.now();
     const newPlayerState = gameSocket.playerId == null
       ? undefined
       : getPlayerState(
         gameData,
         playerStateLogic,
         gameSocket.playerId,
+        timestamp,
       );
     const newPublicState = getPublicState(
       gameData,
       publicStateLogic,
+      timestamp,
+    );
+
+    // Send the whole state unless the client is already up to date
+    if (
+      gameData.version !== version ||
+      !jsonEquals(playerState, newPlayerState) ||
+      !jsonEquals(publicState, newPublicState)
+    ) {
+      sendGameState(
+        gameSocket,
+        gameData.version,
+        newPlayerState,
+        newPublicState,
+        gameData.outcome,
+        gameData.activePlayers,
+        clocks,
+      );
+    }
+
+    const presence = await this.db.getPresence(gameId);
+    updatePresenceIfNecessary(gameSocket, presence);
+
+    const chatMessages = await this.db.getChatMessages(gameId);
+    sendChatMessages(gameSocket, chatMessages, "ChatHistory");
+    return;
+  }
+
+  // Sends the whole state to a socket whose client missed a patch
+  async resync(
+    socket: Socket,
+    gameId: string,
+    playerStateLogic: (
+      s: GameState,
+      o: PlayerStateObject<Config>,
+    ) => PlayerState,
+    publicStateLogic: (
+      s: GameState,
+      o: PublicStateObject<Config>,
+    ) => PublicState,
+  ) {
+    const connection = this.getConnection(gameId);
+    const gameSocket = connection.sockets.find((s) => s.socket === socket);
+    assert(gameSocket != null);
+
+    const gameData = await this.db.getGameStorageData<
+      Config,
+      GameState,
+      Outcome
+    >(
+      gameId,
+    );
+    const timestamp = this.db.clock.now();
+    const playerState = gameSocket.playerId == null
+      ? undefined
+      : getPlayerState(
+        gameData,
+        playerStateLogic,
+        gameSocket.playerId,
+        timestamp,
+      );
+    const publicState = getPublicState(gameData, publicStateLogic, timestamp);
+    sendGameState(
+      gameSocket,
+      gameData.version,
+      playerState,
+      publicState,
+      gameData.outcome,
+      gameData.activePlayers,
+      this.clocksLogic(gameData),
     );
+  }
 
+  // Records that a move from the socket's client has been processed, and sends
+  // the latest state so the client can confirm or roll back its prediction
+  async acknowledgeMove(
+    socket: Socket,
+    gameId: string,
+    moveSequence: number,
+    playerStateLogic: (
+      s: GameState,
+      o: PlayerStateObject<Config>,
+    ) => PlayerState,
+    publicStateLogic: (
+      s: GameState,
+      o: PublicStateObject<Config>,
+    ) => PublicState,
+  ) {
+    const connection = this.connections.get(gameId);
+    const gameSocket = connection?.sockets.find((s) => s.socket === socket);
+    if (gameSocket == null) {
+      return;
+    }
+    gameSocket.lastMoveSequence = moveSequence;
+
+    const gameData = await this.db.getGameStorageData<
+      Config,
+      GameState,
+      Outcome
+    >(
+      gameId,
+    );
+    const timestamp = this.db.clock.now();
+    const playerState = gameSocket.playerId == null
+      ? undefined
+      : getPlayerState(
+        gameData,
+        playerStateLogic,
+        gameSocket.playerId,
+        timestamp,
+      );
+    const publicState = getPublicState(gameData, publicStateLogic, timestamp);
     updateSocketIfNecessary(
       gameSocket,
-      newPlayerState,
-      newPublicState,
+      gameData.version,
+      playerState,
+      publicState,
       gameData.outcome,
+      gameData.activePlayers,
+      this.clocksLogic(gameData),
+      true,
     );
-    return;
   }
 
   unregister(socket: Socket, gameId: string) {
@@ -134,7 +288,10 @@ export class GameSocketStore<
       const state = data.value.gameState;
 
       const outcome = data.value.outcome;
-      const timestamp = new Date();
+      const version = data.value.version;
+      const activePlayers = data.value.activePlayers;
+      const clocks = this.clocksLogic(data.value);
+      const timestamp = this.db.clock.now();
 
       const publicState = publicStateLogic(state, {
         players: data.value.players,
@@ -155,14 +312,51 @@ export class GameSocketStore<
         }
         updateSocketIfNecessary(
           socket,
+          version,
           playerState,
           publicState,
           outcome,
+          activePlayers,
+          clocks,
         );
       }
     }
   }
 
+  private async streamPresenceToAllSockets(
+    gameId: string,
+    stream: ReadableStreamDefaultReader<PlayerPresence[]>,
+  ) {
+    while (true) {
+      const data = await stream.read();
+      if (data.done) {
+        break;
+      }
+
+      const connection = this.getConnection(gameId);
+      for (const socket of connection.sockets) {
+        updatePresenceIfNecessary(socket, data.value);
+      }
+    }
+  }
+
+  private async streamChatToAllSockets(
+    gameId: string,
+    stream: ReadableStreamDefaultReader<ChatMessage[]>,
+  ) {
+    while (true) {
+      const data = await stream.read();
+      if (data.done) {
+        break;
+      }
+
+      const connection = this.getConnection(gameId);
+      for (const socket of connection.sockets) {
+        sendChatMessages(socket, data.value, "NewChatMessages");
+      }
+    }
+  }
+
   private createGame(
     gameId: string,
     playerStateLogic: (
@@ -186,6 +380,13 @@ export class GameSocketStore<
       changesReader,
     );
 
+    const presenceReader = this.db.watchForPresenceChanges(gameId)
+      .getReader();
+    this.streamPresenceToAllSockets(gameId, presenceReader);
+
+    const chatReader = this.db.watchForChatMessages(gameId).getReader();
+    this.streamChatToAllSockets(gameId, chatReader);
+
     const connection: GameConnection<
       Config,
       GameState,
@@ -195,6 +396,8 @@ export class GameSocketStore<
     > = {
       sockets: [],
       changesReader,
+      presenceReader,
+      chatReader,
     };
     this.connections.set(gameId, connection);
   }
@@ -203,23 +406,43 @@ export class GameSocketStore<
     gameId: string,
     socket: Socket,
     playerId: number | undefined = undefined,
+    token: string | undefined = undefined,
   ): void {
     const connection = this.getConnection(gameId);
+    // Sockets opened with one of the server's tokens are closed once it's
+    // revoked
+    const tokenReader = token == null
+      ? undefined
+      : this.db.watchToken(token).getReader();
+    if (tokenReader != null) {
+      closeWhenTokenRevoked(socket, tokenReader);
+    }
     connection.sockets.push({
       socket,
       playerId,
+      lastVersion: undefined,
+      lastMoveSequence: undefined,
       lastPlayerState: undefined,
       lastPublicState: undefined,
       lastOutcome: undefined,
+      lastActivePlayers: undefined,
+      lastClocks: undefined,
+      lastPresence: undefined,
+      tokenReader,
     });
   }
 
   private deleteSocket(gameId: string, socket: Socket): void {
     const connection = this.getConnection(gameId);
+    connection.sockets.find((s) => s.socket === socket)?.tokenReader?.cancel();
     connection.sockets = connection.sockets.filter((s) => s.socket !== socket);
     if (connection.sockets.length === 0) {
       connection.changesReader.cancel();
       connection.changesReader.releaseLock();
+      connection.presenceReader.cancel();
+      connection.presenceReader.releaseLock();
+      connection.chatReader.cancel();
+      connection.chatReader.releaseLock();
       this.connections.delete(gameId);
     }
   }
@@ -233,29 +456,127 @@ export class GameSocketStore<
   }
 }
 
+// Sends the socket a patch from the last state it was sent. Versions the socket
+// already has are ignored, as are versions that don't change what it can see,
+// unless `acknowledge` is set, in which case a (possibly empty) patch is always
+// sent to echo the socket's latest move sequence.
 function updateSocketIfNecessary<PlayerState, PublicState, Outcome>(
   socket: GameSocketEntry<PlayerState, PublicState, Outcome>,
+  version: number,
   playerState: PlayerState | undefined,
   publicState: PublicState,
   outcome: Outcome | undefined,
+  activePlayers: number[] | undefined,
+  clocks: TurnClocks | undefined,
+  acknowledge = false,
 ) {
-  if (
-    jsonEquals(socket.lastPlayerState, playerState) &&
-    jsonEquals(socket.lastPublicState, publicState) &&
-    jsonEquals(socket.lastOutcome, outcome)
-  ) {
+  if (socket.lastVersion === undefined) {
+    sendGameState(
+      socket,
+      version,
+      playerState,
+      publicState,
+      outcome,
+      activePlayers,
+      clocks,
+    );
     return;
   }
 
+  const baseVersion = socket.lastVersion;
+  const isNewer = version > baseVersion;
+  const patch = !isNewer ? [] : createPatch(
+    {
+      playerState: socket.lastPlayerState,
+      publicState: socket.lastPublicState,
+      outcome: socket.lastOutcome,
+      activePlayers: socket.lastActivePlayers,
+      clocks: socket.lastClocks,
+    },
+    { playerState, publicState, outcome, activePlayers, clocks },
+  );
+  if (patch.length === 0 && !acknowledge) {
+    return;
+  }
+
+  if (isNewer) {
+    socket.lastVersion = version;
+    socket.lastPlayerState = playerState;
+    socket.lastPublicState = publicState;
+    socket.lastOutcome = outcome;
+    socket.lastActivePlayers = activePlayers;
+    socket.lastClocks = clocks;
+  }
+  const response: GameSocketResponse<PlayerState, PublicState, Outcome> = {
+    type: "PatchGameState",
+    baseVersion,
+    version: socket.lastVersion,
+    patch,
+    moveSequence: socket.lastMoveSequence,
+  };
+  socket.socket.send(JSON.stringify(response));
+}
+
+function sendGameState<PlayerState, PublicState, Outcome>(
+  socket: GameSocketEntry<PlayerState, PublicState, Outcome>,
+  version: number,
+  playerState: PlayerState | undefined,
+  publicState: PublicState,
+  outcome: Outcome | undefined,
+  activePlayers: number[] | undefined,
+  clocks: TurnClocks | undefined,
+) {
   const response: GameSocketResponse<PlayerState, PublicState, Outcome> = {
     type: "UpdateGameState",
+    version,
     playerState,
     publicState,
     outcome,
+    activePlayers,
+    clocks,
+    moveSequence: socket.lastMoveSequence,
   };
+  socket.lastVersion = version;
   socket.lastPlayerState = playerState;
   socket.lastPublicState = publicState;
   socket.lastOutcome = outcome;
+  socket.lastActivePlayers = activePlayers;
+  socket.lastClocks = clocks;
+  socket.socket.send(JSON.stringify(response));
+}
+
+function updatePresenceIfNecessary<PlayerState, PublicState, Outcome>(
+  socket: GameSocketEntry<PlayerState, PublicState, Outcome>,
+  presence: PlayerPresence[],
+) {
+  if (jsonEquals(socket.lastPresence, presence)) {
+    return;
+  }
+
+  const response: GameSocketResponse<PlayerState, PublicState, Outcome> = {
+    type: "UpdatePresence",
+    presence,
+  };
+  socket.lastPresence = presence;
+  socket.socket.send(JSON.stringify(response));
+}
+
+// Sends the messages that the socket is allowed to see, if there are any
+function sendChatMessages<PlayerState, PublicState, Outcome>(
+  socket: GameSocketEntry<PlayerState, PublicState, Outcome>,
+  messages: ChatMessage[],
+  type: "ChatHistory" | "NewChatMessages",
+) {
+  const visibleMessages = messages.filter((message) =>
+    isChatMessageVisible(message, socket.playerId)
+  );
+  if (type === "NewChatMessages" && visibleMessages.length === 0) {
+    return;
+  }
+
+  const response: GameSocketResponse<PlayerState, PublicState, Outcome> = {
+    type,
+    messages: visibleMessages,
+  };
   socket.socket.send(JSON.stringify(response));
-  return;
 }
@@ -1,7 +1,22 @@
 import { assertEquals, assertExists } from "@std/assert";
 import { DB } from "./db.ts";
+import { DenoKvStorage } from "./storage.ts";
 import { LobbySocketStore } from "./lobbysockets.ts";
-import { assertSpyCalls, spy } from "@std/testing/mock";
+import { handleLobbyMessage, sendAnnouncement } from "./chat.ts";
+import type {
+  ActiveGame,
+  LobbyMessage,
+  UserCompletedGame,
+  UserGame,
+} from "../types.ts";
+import {
+  assertSpyCallArgs,
+  assertSpyCalls,
+  spy,
+  stub,
+} from "@std/testing/mock";
+import { FakeTime } from "@std/testing/time";
+import type { Logger } from "./logger.ts";
 
 const user1 = { username: "guest-0001", isGuest: true };
 const user2 = { username: "guest-0002", isGuest: true };
@@ -9,13 +24,18 @@ const user3 = { username: "guest-0003", isGuest: true };
 
 Deno.test("registers and unregisters a socket", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
-  const activeGamesStream = db.watchForActiveGameListChanges();
-  const lobbySocketStore = new LobbySocketStore(db, activeGamesStream);
+  const db = new DB(new DenoKvStorage(kv));
+  const activeGamesStream = db.watchForActiveGameChanges();
+  const lobbyMessagesStream = db.watchForLobbyMessageChanges();
+  const lobbySocketStore = new LobbySocketStore(
+    db,
+    activeGamesStream,
+    lobbyMessagesStream,
+  );
 
   // Register a socket
-  const socket = { send: spy() };
-  lobbySocketStore.register(socket);
+  const socket = { send: spy(), close: spy() };
+  lobbySocketStore.register(socket, "user-1");
 
   // Verify the socket is registered by checking all sockets
   const allSockets = lobbySocketStore.allSockets();
@@ -28,24 +48,31 @@ Deno.test("registers and unregisters a socket", async () => {
   // Verify the socket is unregistered
   assertEquals(lobbySocketStore.allSockets().length, 0);
 
+  // Let the store load the active games before the database closes
+  await new Promise((resolve) => setTimeout(resolve, 100));
   kv.close();
 });
 
 Deno.test("joins and leaves a queue", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
-  const activeGamesStream = db.watchForActiveGameListChanges();
-  const lobbySocketStore = new LobbySocketStore(db, activeGamesStream);
+  const db = new DB(new DenoKvStorage(kv));
+  const activeGamesStream = db.watchForActiveGameChanges();
+  const lobbyMessagesStream = db.watchForLobbyMessageChanges();
+  const lobbySocketStore = new LobbySocketStore(
+    db,
+    activeGamesStream,
+    lobbyMessagesStream,
+  );
 
-  const setupGame = () => 1;
+  const gameSetup = { setup: () => 1 };
 
   // Create a socket and register it
-  const socket = { send: spy() };
-  lobbySocketStore.register(socket);
+  const socket = { send: spy(), close: spy() };
+  lobbySocketStore.register(socket, "user-1");
 
   // Join a queue
   const queue = { queueId: "test-queue", numPlayers: 2, config: undefined };
-  await lobbySocketStore.joinQueue(socket, queue, "user-1", user1, setupGame);
+  await lobbySocketStore.joinQueue(socket, queue, "user-1", user1, gameSetup);
 
   // Verify the socket has a queue entry associated with it
   // We can't directly access the private fields, but we can test functionality
@@ -54,7 +81,7 @@ Deno.test("joins and leaves a queue", async () => {
   await lobbySocketStore.leaveQueue(socket);
 
   // Verify we can join again (which would fail if not properly removed)
-  await lobbySocketStore.joinQueue(socket, queue, "user-1", user1, setupGame);
+  await lobbySocketStore.joinQueue(socket, queue, "user-1", user1, gameSetup);
 
   // Clean up
   await lobbySocketStore.leaveQueue(socket);
@@ -65,18 +92,23 @@ Deno.test("joins and leaves a queue", async () => {
 
 Deno.test("when two sockets join a queue, assignments are made", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
-  const activeGamesStream = db.watchForActiveGameListChanges();
-  const lobbySocketStore = new LobbySocketStore(db, activeGamesStream);
+  const db = new DB(new DenoKvStorage(kv));
+  const activeGamesStream = db.watchForActiveGameChanges();
+  const lobbyMessagesStream = db.watchForLobbyMessageChanges();
+  const lobbySocketStore = new LobbySocketStore(
+    db,
+    activeGamesStream,
+    lobbyMessagesStream,
+  );
 
-  const setupGame = () => 1;
+  const gameSetup = { setup: () => 1 };
 
   // Create two sockets and register them
-  const socket1 = { send: spy() };
-  const socket2 = { send: spy() };
+  const socket1 = { send: spy(), close: spy() };
+  const socket2 = { send: spy(), close: spy() };
 
-  lobbySocketStore.register(socket1);
-  lobbySocketStore.register(socket2);
+  lobbySocketStore.register(socket1, "user-1");
+  lobbySocketStore.register(socket2, "user-2");
 
   // Join the same queue with both sockets
   const queue = {
@@ -87,8 +119,8 @@ Deno.test("when two sockets join a queue, assignments are made", async () => {
 
   // Use Promise.all to join both queues concurrently
   await Promise.all([
-    lobbySocketStore.joinQueue(socket1, queue, "user-1", user1, setupGame),
-    lobbySocketStore.joinQueue(socket2, queue, "user-2", user2, setupGame),
+    lobbySocketStore.joinQueue(socket1, queue, "user-1", user1, gameSetup),
+    lobbySocketStore.joinQueue(socket2, queue, "user-2", user2, gameSetup),
   ]);
 
   // Wait to make sure the watches are sent
@@ -137,18 +169,23 @@ Deno.test("when two sockets join a queue, assignments are made", async () => {
 
 Deno.test("active games are broadcasted to all sockets", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
-  const activeGamesStream = db.watchForActiveGameListChanges();
-  const lobbySocketStore = new LobbySocketStore(db, activeGamesStream);
+  const db = new DB(new DenoKvStorage(kv));
+  const activeGamesStream = db.watchForActiveGameChanges();
+  const lobbyMessagesStream = db.watchForLobbyMessageChanges();
+  const lobbySocketStore = new LobbySocketStore(
+    db,
+    activeGamesStream,
+    lobbyMessagesStream,
+  );
 
-  const setupGame = () => 1;
+  const gameSetup = { setup: () => 1 };
 
   // Create and register sockets
-  const socket1 = { send: spy() };
-  const socket2 = { send: spy() };
+  const socket1 = { send: spy(), close: spy() };
+  const socket2 = { send: spy(), close: spy() };
 
-  lobbySocketStore.register(socket1);
-  lobbySocketStore.register(socket2);
+  lobbySocketStore.register(socket1, "user-1");
+  lobbySocketStore.register(socket2, "user-2");
 
   // Create a game by having two sockets join a queue
   const queue = {
@@ -157,23 +194,23 @@ Deno.test("active games are broadcasted to all sockets", async () => {
     config: undefined,
   };
   await Promise.all([
-    lobbySocketStore.joinQueue(socket1, queue, "user-1", user1, setupGame),
-    lobbySocketStore.joinQueue(socket2, queue, "user-2", user2, setupGame),
+    lobbySocketStore.joinQueue(socket1, queue, "user-1", user1, gameSetup),
+    lobbySocketStore.joinQueue(socket2, queue, "user-2", user2, gameSetup),
   ]);
 
   // Wait to make sure the watches are sent
   await new Promise((resolve) => setTimeout(resolve, 100));
 
-  // (JoinQueue + UpdateActiveGames + GameAssignment)
+  // (JoinQueue + ActiveGameUpdated + GameAssignment)
   assertSpyCalls(socket1.send, 3);
   assertSpyCalls(socket2.send, 3);
 
-  // Find UpdateActiveGames message
+  // Find ActiveGameUpdated message
   let message1, message2;
 
   for (let i = 0; i < socket1.send.calls.length; i++) {
     const msg = JSON.parse(socket1.send.calls[i].args[0]);
-    if (msg.type === "UpdateActiveGames") {
+    if (msg.type === "ActiveGameUpdated") {
       message1 = msg;
       break;
     }
@@ -181,24 +218,24 @@ Deno.test("active games are broadcasted to all sockets", async () => {
 
   for (let i = 0; i < socket2.send.calls.length; i++) {
     const msg = JSON.parse(socket2.send.calls[i].args[0]);
-    if (msg.type === "UpdateActiveGames") {
+    if (msg.type === "ActiveGameUpdated") {
       message2 = msg;
       break;
     }
   }
 
-  // Verify the active games message was received and has game IDs
+  // Verify the active game message was received and has the game
   assertExists(message1);
   assertExists(message2);
-  assertEquals(message1.type, "UpdateActiveGames");
-  assertEquals(message2.type, "UpdateActiveGames");
-  assertExists(message1.activeGames);
-  assertExists(message2.activeGames);
+  assertEquals(message1.type, "ActiveGameUpdated");
+  assertEquals(message2.type, "ActiveGameUpdated");
+  assertExists(message1.activeGame);
+  assertExists(message2.activeGame);
 
-  // Both sockets should have the same list of active games
+  // Both sockets should have the same active game
   assertEquals(
-    JSON.stringify(message1.activeGames),
-    JSON.stringify(message2.activeGames),
+    JSON.stringify(message1.activeGame),
+    JSON.stringify(message2.activeGame),
   );
 
   // Clean up
@@ -210,21 +247,26 @@ Deno.test("active games are broadcasted to all sockets", async () => {
 
 Deno.test("players can join a three-player queue and receive QueueJoined messages", async () => {
   const kv = await Deno.openKv(":memory:");
-  const db = new DB(kv);
-  const activeGamesStream = db.watchForActiveGameListChanges();
-  const lobbySocketStore = new LobbySocketStore(db, activeGamesStream);
+  const db = new DB(new DenoKvStorage(kv));
+  const activeGamesStream = db.watchForActiveGameChanges();
+  const lobbyMessagesStream = db.watchForLobbyMessageChanges();
+  const lobbySocketStore = new LobbySocketStore(
+    db,
+    activeGamesStream,
+    lobbyMessagesStream,
+  );
 
   // Create a simple setup function (not a spy anymore)
-  const setupGame = () => 1;
+  const gameSetup = { setup: () => 1 };
 
   // Create three sockets and register them
-  const socket1 = { send: spy() };
-  const socket2 = { send: spy() };
-  const socket3 = { send: spy() };
+  const socket1 = { send: spy(), close: spy() };
+  const socket2 = { send: spy(), close: spy() };
+  const socket3 = { send: spy(), close: spy() };
 
-  lobbySocketStore.register(socket1);
-  lobbySocketStore.register(socket2);
-  lobbySocketStore.register(socket3);
+  lobbySocketStore.register(socket1, "user-1");
+  lobbySocketStore.register(socket2, "user-2");
+  lobbySocketStore.register(socket3, "user-3");
 
   // Join the same queue with all three sockets
   const queue = {
@@ -234,9 +276,9 @@ Deno.test("players can join a three-player queue and receive QueueJoined message
   };
 
   // Join queues
-  await lobbySocketStore.joinQueue(socket1, queue, "user-1", user1, setupGame);
-  await lobbySocketStore.joinQueue(socket2, queue, "user-2", user2, setupGame);
-  await lobbySocketStore.joinQueue(socket3, queue, "user-3", user3, setupGame);
+  await lobbySocketStore.joinQueue(socket1, queue, "user-1", user1, gameSetup);
+  await lobbySocketStore.joinQueue(socket2, queue, "user-2", user2, gameSetup);
+  await lobbySocketStore.joinQueue(socket3, queue, "user-3", user3, gameSetup);
 
   // Verify QueueJoined messages were sent to all sockets
   assertSpyCalls(socket1.send, 1);
@@ -258,3 +300,298 @@ Deno.test("players can join a three-player queue and receive QueueJoined message
 
   kv.close();
 });
+
+Deno.test("sends lobby message history and new messages", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const activeGamesStream = db.watchForActiveGameChanges();
+  const lobbyMessagesStream = db.watchForLobbyMessageChanges();
+  const lobbySocketStore = new LobbySocketStore(
+    db,
+    activeGamesStream,
+    lobbyMessagesStream,
+  );
+
+  await handleLobbyMessage(db, user1, "hello");
+
+  const socket = { send: spy(), close: spy() };
+  lobbySocketStore.register(socket, "user-1");
+  await lobbySocketStore.initialize(socket, [], []);
+
+  await sendAnnouncement(db, "Server restarting soon");
+  await new Promise((resolve) => setTimeout(resolve, 100));
+
+  const updates = socket.send.calls
+    .map((call) => JSON.parse(call.args[0]))
+    .filter((msg) => msg.type === "UpdateLobbyMessages");
+  assertEquals(
+    updates[0].lobbyMessages.map((message: LobbyMessage) => message.text),
+    ["hello"],
+  );
+  const lastUpdate = updates[updates.length - 1];
+  assertEquals(
+    lastUpdate.lobbyMessages.map((message: LobbyMessage) => ({
+      kind: message.kind,
+      username: message.username,
+      text: message.text,
+    })),
+    [
+      { kind: "chat", username: "guest-0001", text: "hello" },
+      {
+        kind: "announcement",
+        username: undefined,
+        text: "Server restarting soon",
+      },
+    ],
+  );
+
+  await lobbySocketStore.unregister(socket);
+  kv.close();
+});
+
+Deno.test("marks the active games waiting on each user", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const activeGamesStream = db.watchForActiveGameChanges();
+  const lobbyMessagesStream = db.watchForLobbyMessageChanges();
+  const lobbySocketStore = new LobbySocketStore(
+    db,
+    activeGamesStream,
+    lobbyMessagesStream,
+  );
+
+  const socket1 = { send: spy(), close: spy() };
+  const socket2 = { send: spy(), close: spy() };
+  lobbySocketStore.register(socket1, "user-1");
+  lobbySocketStore.register(socket2, "user-2");
+  await lobbySocketStore.initialize(socket1, [], []);
+  await lobbySocketStore.initialize(socket2, [], []);
+
+  const gameId = await db.createGame(
+    "test-queue",
+    undefined,
+    ["user-1", "user-2"],
+    [user1, user2],
+    { setup: () => 1, activePlayers: () => [1] },
+  );
+  await new Promise((resolve) => setTimeout(resolve, 100));
+
+  const lastActiveGames = (socket: typeof socket1) =>
+    socket.send.calls
+      .map((call) => JSON.parse(call.args[0]))
+      .filter((msg) => msg.type === "ActiveGameUpdated")
+      .map(({ activeGame }: { activeGame: ActiveGame }) => ({
+        gameId: activeGame.gameId,
+        isYourTurn: activeGame.isYourTurn,
+      }));
+  assertEquals(lastActiveGames(socket1), [{ gameId, isYourTurn: false }]);
+  assertEquals(lastActiveGames(socket2), [{ gameId, isYourTurn: true }]);
+
+  await lobbySocketStore.unregister(socket1);
+  await lobbySocketStore.unregister(socket2);
+  kv.close();
+});
+
+Deno.test("sends each user their games as they change", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const activeGamesStream = db.watchForActiveGameChanges();
+  const lobbyMessagesStream = db.watchForLobbyMessageChanges();
+  const lobbySocketStore = new LobbySocketStore(
+    db,
+    activeGamesStream,
+    lobbyMessagesStream,
+  );
+
+  const socket = { send: spy(), close: spy() };
+  lobbySocketStore.register(socket, "user-1");
+  await lobbySocketStore.initialize(socket, [], []);
+
+  const gameId = await db.createGame(
+    "test-queue",
+    undefined,
+    ["user-1", "user-2"],
+    [user1, user2],
+    { setup: () => 1 },
+  );
+  await new Promise((resolve) => setTimeout(resolve, 100));
+
+  const updates = socket.send.calls
+    .map((call) => JSON.parse(call.args[0]))
+    .filter((msg) => msg.type === "UpdateUserGames");
+  assertEquals(updates.length, 1);
+  assertEquals(updates[0].userGames.map((game: UserGame) => game.gameId), [
+    gameId,
+  ]);
+
+  await lobbySocketStore.unregister(socket);
+  kv.close();
+});
+
+Deno.test("sends the user pages of their completed games", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const activeGamesStream = db.watchForActiveGameChanges();
+  const lobbyMessagesStream = db.watchForLobbyMessageChanges();
+  const lobbySocketStore = new LobbySocketStore(
+    db,
+    activeGamesStream,
+    lobbyMessagesStream,
+  );
+
+  const socket = { send: spy(), close: spy() };
+  lobbySocketStore.register(socket, "user-2");
+
+  const gameId = await db.createGame(
+    "test-queue",
+    undefined,
+    ["user-1", "user-2"],
+    [user1, user2],
+    { setup: () => 1 },
+  );
+  const gameData = await db.getGameStorageData<undefined, number, string>(
+    gameId,
+  );
+  await db.updateGameStorageData(gameId, {
+    ...gameData,
+    outcome: "done",
+    version: 1,
+  });
+
+  await lobbySocketStore.listCompletedGames(socket);
+
+  const pages = socket.send.calls
+    .map((call) => JSON.parse(call.args[0]))
+    .filter((msg) => msg.type === "CompletedGamesPage");
+  assertEquals(pages.length, 1);
+  assertEquals(
+    pages[0].games.map((game: UserCompletedGame<string>) => ({
+      gameId: game.gameId,
+      playerId: game.playerId,
+      outcome: game.outcome,
+    })),
+    [{ gameId, playerId: 1, outcome: "done" }],
+  );
+  assertEquals(pages[0].cursor, undefined);
+  assertEquals(pages[0].append, false);
+
+  await lobbySocketStore.unregister(socket);
+  kv.close();
+});
+
+Deno.test("closes the socket when its token is revoked", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const activeGamesStream = db.watchForActiveGameChanges();
+  const lobbyMessagesStream = db.watchForLobbyMessageChanges();
+  const lobbySocketStore = new LobbySocketStore(
+    db,
+    activeGamesStream,
+    lobbyMessagesStream,
+  );
+
+  await db.storeToken("token-1", {
+    userId: "user-1",
+    expiration: new Date(Date.now() + 60000),
+  });
+  const socket = { send: spy(), close: spy() };
+  lobbySocketStore.register(socket, "user-1", "token-1");
+
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  assertSpyCalls(socket.close, 0);
+
+  await db.revokeToken("token-1");
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  assertSpyCallArgs(socket.close, 0, [4001, "Token revoked"]);
+
+  await lobbySocketStore.unregister(socket);
+  kv.close();
+});
+
+Deno.test("logs failed queue retries instead of rejecting", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const logger: Logger = {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: spy(),
+  };
+  const lobbySocketStore = new LobbySocketStore(
+    db,
+    db.watchForActiveGameChanges(),
+    db.watchForLobbyMessageChanges(),
+    logger,
+  );
+  const retryQueueStub = stub(
+    db,
+    "retryQueue",
+    () => Promise.reject(new Error("Storage unavailable")),
+  );
+
+  const socket = { send: spy(), close: spy() };
+  lobbySocketStore.register(socket, "user-1");
+  const queue = {
+    queueId: "rated-queue",
+    numPlayers: 2,
+    config: undefined,
+    rating: { initialWindow: 100, windowGrowthPerSecond: 10 },
+  };
+  using time = new FakeTime();
+  await lobbySocketStore.joinQueue(socket, queue, "user-1", user1, {
+    setup: () => 1,
+  });
+
+  await time.tickAsync(5000);
+  assertSpyCalls(retryQueueStub, 1);
+  assertSpyCallArgs(logger.error as ReturnType<typeof spy>, 0, [
+    "Failed to retry queue",
+    { queueId: "rated-queue", error: new Error("Storage unavailable") },
+  ]);
+
+  retryQueueStub.restore();
+  await lobbySocketStore.leaveQueue(socket);
+  await lobbySocketStore.unregister(socket);
+  kv.close();
+});
+
+Deno.test("joining a queue again leaves the previous entry", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const db = new DB(new DenoKvStorage(kv));
+  const lobbySocketStore = new LobbySocketStore(
+    db,
+    db.watchForActiveGameChanges(),
+    db.watchForLobbyMessageChanges(),
+  );
+
+  const socket = { send: spy(), close: spy() };
+  lobbySocketStore.register(socket, "user-1");
+  const queue = {
+    queueId: "rated-queue",
+    numPlayers: 2,
+    config: undefined,
+    rating: { initialWindow: 100, windowGrowthPerSecond: 10 },
+  };
+  const clearIntervalSpy = spy(globalThis, "clearInterval");
+  try {
+    await lobbySocketStore.joinQueue(socket, queue, "user-1", user1, {
+      setup: () => 1,
+    });
+    await lobbySocketStore.joinQueue(socket, queue, "user-1", user1, {
+      setup: () => 1,
+    });
+    // The first entry's retries are stopped
+    assertSpyCalls(clearIntervalSpy, 1);
+  } finally {
+    clearIntervalSpy.restore();
+  }
+
+  assertEquals(
+    socket.send.calls.map((call) => JSON.parse(call.args[0]).type),
+    ["QueueJoined", "QueueLeft", "QueueJoined"],
+  );
+
+  await lobbySocketStore.leaveQueue(socket);
+  await lobbySocketStore.unregister(socket);
+  kv.close();
+});
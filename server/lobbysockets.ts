@@ -1,20 +1,69 @@
-import type { AssignmentStorageData, DB, QueueConfig } from "./db.ts";
+import type {
+  ActiveGameChange,
+  ActiveGameStorageData,
+  AssignmentStorageData,
+  DB,
+  GameSetup,
+  QueueConfig,
+} from "./db.ts";
+import { getActiveGamesForUser } from "./gamedata.ts";
 import type { LobbySocketResponse } from "../common/sockettypes.ts";
-import type { ActiveGame, SetupObject, User } from "../types.ts";
+import type {
+  ActiveGame,
+  LobbyMessage,
+  TokenData,
+  User,
+  UserGame,
+} from "../types.ts";
 import { ulid } from "@std/ulid";
-import { jsonEquals, type Socket } from "./socketutils.ts";
+import { consoleLogger, type Logger } from "./logger.ts";
+import {
+  closeWhenTokenRevoked,
+  jsonEquals,
+  type Socket,
+} from "./socketutils.ts";
 
 type QueueEntry = {
   queueId: string;
   entryId: string;
   assignmentsReader: ReadableStreamDefaultReader;
+  retryInterval?: ReturnType<typeof setInterval>;
+};
+
+type InviteEntry = {
+  inviteCode: string;
+  entryId: string;
+  assignmentsReader: ReadableStreamDefaultReader;
 };
 
 type ConnectionData = {
+  userId: string;
   queueEntry?: Readonly<QueueEntry>;
-  lastValue: ActiveGame[];
+  inviteEntry?: Readonly<InviteEntry>;
+  lastLobbyMessages: LobbyMessage[] | undefined;
+  userGamesReader: ReadableStreamDefaultReader<UserGame[]>;
+  lastUserGames: UserGame[] | undefined;
+  // Watches the server token the socket was opened with, if any
+  tokenReader: ReadableStreamDefaultReader<TokenData | null> | undefined;
 };
 
+// How often rated queues are re-checked as rating windows widen, and queues
+// with bots are re-checked for players who have waited long enough
+const queueRetryMs = 5000;
+
+const completedGamesPageSize = 20;
+
+// Unambiguous characters for invite codes that are easy to share
+const inviteCodeAlphabet = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+const inviteCodeLength = 6;
+
+function generateInviteCode(): string {
+  const values = crypto.getRandomValues(new Uint8Array(inviteCodeLength));
+  return [...values]
+    .map((v) => inviteCodeAlphabet[v % inviteCodeAlphabet.length])
+    .join("");
+}
+
 async function streamToSocket(
   stream: ReadableStreamDefaultReader<AssignmentStorageData>,
   socket: Socket,
@@ -35,47 +84,144 @@ async function streamToSocket(
 
 export class LobbySocketStore {
   private sockets: Map<Socket, ConnectionData> = new Map();
-  private lastActiveGames: ActiveGame[] = [];
+  // Every active game, loaded once and then kept up to date by the stream of
+  // changes, so that lobbies never need the whole list read again
+  private activeGames: Map<string, ActiveGameStorageData> = new Map();
+  private activeGamesLoaded: Promise<void>;
 
   constructor(
     private db: DB,
-    activeGamesStream: ReadableStream<ActiveGame[]>,
+    activeGamesStream: ReadableStream<ActiveGameChange[]>,
+    lobbyMessagesStream: ReadableStream<LobbyMessage[]>,
+    private logger: Logger = consoleLogger,
   ) {
-    this.streamToAllSocketAndStore(activeGamesStream);
+    this.activeGamesLoaded = this.loadActiveGames(activeGamesStream);
+    this.streamLobbyMessagesToAllSockets(lobbyMessagesStream);
   }
-  register(socket: Socket) {
-    this.sockets.set(socket, { lastValue: [] });
+  // When the socket was opened with one of the server's tokens, it's closed
+  // once the token is revoked
+  register(socket: Socket, userId: string, token?: string) {
+    const connectionData: ConnectionData = {
+      userId,
+      lastLobbyMessages: undefined,
+      userGamesReader: this.db.watchForUserGameChanges(userId).getReader(),
+      lastUserGames: undefined,
+      tokenReader: token == null
+        ? undefined
+        : this.db.watchToken(token).getReader(),
+    };
+    this.sockets.set(socket, connectionData);
+    streamUserGamesToSocket(socket, connectionData);
+    if (connectionData.tokenReader != null) {
+      closeWhenTokenRevoked(socket, connectionData.tokenReader);
+    }
   }
 
-  initialize(socket: Socket, activeGames: ActiveGame[]) {
+  async initialize(
+    socket: Socket,
+    activeGames: ActiveGame[],
+    userGames: UserGame[],
+  ) {
     const connectionData = this.sockets.get(socket);
     if (connectionData == null) {
       return;
     }
-    connectionData.lastValue = activeGames;
+    connectionData.lastLobbyMessages = undefined;
+    connectionData.lastUserGames = userGames;
 
-    updateActiveGamesIfNecessary(socket, connectionData, this.lastActiveGames);
+    const currentActiveGames = await this.getActiveGames(connectionData.userId);
+    if (!jsonEquals(activeGames, currentActiveGames)) {
+      const response: LobbySocketResponse = {
+        type: "UpdateActiveGames",
+        activeGames: currentActiveGames,
+      };
+      socket.send(JSON.stringify(response));
+    }
+
+    const lobbyMessages = await this.db.getLobbyMessages();
+    updateLobbyMessagesIfNecessary(socket, connectionData, lobbyMessages);
+
+    const currentUserGames = await this.db.getUserGames(connectionData.userId);
+    updateUserGamesIfNecessary(socket, connectionData, currentUserGames);
   }
 
   async unregister(socket: Socket) {
     await this.leaveQueue(socket);
+    await this.leaveInvite(socket);
+    this.sockets.get(socket)?.userGamesReader.cancel();
+    this.sockets.get(socket)?.tokenReader?.cancel();
     this.sockets.delete(socket);
   }
 
-  // Subscribe to the activeGamesStream and send to all registered sockets
-  private streamToAllSocketAndStore(
-    activeGamesStream: ReadableStream<ActiveGame[]>,
+  // Returns every active game, marking the ones waiting on the user
+  async getActiveGames(userId: string): Promise<ActiveGame[]> {
+    await this.activeGamesLoaded;
+    return getActiveGamesForUser([...this.activeGames.values()], userId);
+  }
+
+  // Loads the active games, then applies each change to them and sends it to
+  // all registered sockets. The stream starts before the games are loaded, so
+  // changes already included in them are applied again harmlessly.
+  private async loadActiveGames(
+    activeGamesStream: ReadableStream<ActiveGameChange[]>,
   ) {
+    try {
+      for (const activeGame of await this.db.getAllActiveGames()) {
+        this.activeGames.set(activeGame.gameId, activeGame);
+      }
+    } catch (error) {
+      this.logger.error("Failed to load active games", { error });
+    }
+
     activeGamesStream.pipeTo(
       new WritableStream({
-        write: (activeGames: ActiveGame[]) => {
-          this.lastActiveGames = activeGames;
+        write: (changes: ActiveGameChange[]) => {
+          for (const change of changes) {
+            this.applyActiveGameChange(change);
+          }
+        },
+      }),
+    ).catch((error) => {
+      this.logger.error("Failed to stream active game changes", { error });
+    });
+  }
+
+  private applyActiveGameChange({ gameId, activeGame }: ActiveGameChange) {
+    if (activeGame === undefined) {
+      if (!this.activeGames.delete(gameId)) {
+        return;
+      }
+    } else {
+      this.activeGames.set(gameId, activeGame);
+    }
 
+    for (const socket of this.allSockets()) {
+      let response: LobbySocketResponse = { type: "ActiveGameRemoved", gameId };
+      if (activeGame !== undefined) {
+        const userId = this.sockets.get(socket)!.userId;
+        const [activeGameForUser] = getActiveGamesForUser([activeGame], userId);
+        response = { type: "ActiveGameUpdated", activeGame: activeGameForUser };
+      }
+      socket.send(JSON.stringify(response));
+    }
+  }
+
+  // Subscribe to the lobbyMessagesStream and send to all initialized sockets
+  private streamLobbyMessagesToAllSockets(
+    lobbyMessagesStream: ReadableStream<LobbyMessage[]>,
+  ) {
+    lobbyMessagesStream.pipeTo(
+      new WritableStream({
+        write: (lobbyMessages: LobbyMessage[]) => {
           for (const socket of this.allSockets()) {
-            updateActiveGamesIfNecessary(
+            const connectionData = this.sockets.get(socket)!;
+            if (connectionData.lastLobbyMessages === undefined) {
+              continue;
+            }
+            updateLobbyMessagesIfNecessary(
               socket,
-              this.sockets.get(socket)!,
-              activeGames,
+              connectionData,
+              lobbyMessages,
             );
           }
         },
@@ -91,8 +237,10 @@ export class LobbySocketStore {
     queueConfig: QueueConfig<Config>,
     userId: string,
     user: User,
-    setupGame: (o: SetupObject<Config>) => GameState,
+    gameSetup: GameSetup<Config, GameState>,
   ) {
+    await this.leaveQueue(socket);
+
     const entryId = ulid();
 
     const assignmentsReader = this.db.watchForAssignments(entryId).getReader();
@@ -101,7 +249,19 @@ export class LobbySocketStore {
     const message: LobbySocketResponse = { type: "QueueJoined" };
     socket.send(JSON.stringify(message));
 
-    await this.db.addToQueue(queueConfig, entryId, userId, user, setupGame);
+    await this.db.addToQueue(queueConfig, entryId, userId, user, gameSetup);
+
+    let retryInterval: ReturnType<typeof setInterval> | undefined;
+    if (queueConfig.rating != null || queueConfig.bots?.fillAfter != null) {
+      retryInterval = setInterval(() => {
+        this.db.retryQueue(queueConfig, gameSetup).catch((error) => {
+          this.logger.error("Failed to retry queue", {
+            queueId: queueConfig.queueId,
+            error,
+          });
+        });
+      }, queueRetryMs);
+    }
 
     const connectionData = this.sockets.get(socket);
     if (connectionData) {
@@ -109,7 +269,10 @@ export class LobbySocketStore {
         queueId: queueConfig.queueId,
         entryId,
         assignmentsReader,
+        retryInterval,
       };
+    } else {
+      clearInterval(retryInterval);
     }
   }
 
@@ -122,6 +285,7 @@ export class LobbySocketStore {
       return;
     }
 
+    clearInterval(queueEntry.retryInterval);
     queueEntry.assignmentsReader.cancel();
     queueEntry.assignmentsReader.releaseLock();
     await this.db.removeFromQueue(queueEntry.queueId, queueEntry.entryId);
@@ -131,24 +295,157 @@ export class LobbySocketStore {
     socket.send(JSON.stringify(message));
   }
 
+  // Creates a new invite with a unique code for the given queue config, and
+  // joins it.
+  public async createInvite<Config, GameState>(
+    socket: Socket,
+    queueConfig: QueueConfig<Config>,
+    userId: string,
+    user: User,
+    gameSetup: GameSetup<Config, GameState>,
+  ) {
+    let inviteCode = generateInviteCode();
+    while (!(await this.db.createInvite(inviteCode, queueConfig))) {
+      inviteCode = generateInviteCode();
+    }
+
+    await this.joinInvite(socket, inviteCode, userId, user, gameSetup);
+  }
+
+  // Joins an existing invite. Watches for assignments, and when the invite has
+  // enough players, sends the assignment to the socket.
+  public async joinInvite<Config, GameState>(
+    socket: Socket,
+    inviteCode: string,
+    userId: string,
+    user: User,
+    gameSetup: GameSetup<Config, GameState>,
+  ) {
+    await this.leaveInvite(socket);
+
+    const entryId = ulid();
+
+    const assignmentsReader = this.db.watchForAssignments(entryId).getReader();
+    streamToSocket(assignmentsReader, socket);
+
+    const joined = await this.db.joinInvite(
+      inviteCode,
+      entryId,
+      userId,
+      user,
+      gameSetup,
+    );
+    if (!joined) {
+      assignmentsReader.cancel();
+      assignmentsReader.releaseLock();
+      const message: LobbySocketResponse = {
+        type: "InviteNotFound",
+        inviteCode,
+      };
+      socket.send(JSON.stringify(message));
+      return;
+    }
+
+    const message: LobbySocketResponse = { type: "InviteJoined", inviteCode };
+    socket.send(JSON.stringify(message));
+
+    const connectionData = this.sockets.get(socket);
+    if (connectionData) {
+      connectionData.inviteEntry = { inviteCode, entryId, assignmentsReader };
+    }
+  }
+
+  // Removes the invite entry from the database and stops watching for assignments.
+  async leaveInvite(socket: Socket) {
+    const connectionData = this.sockets.get(socket);
+    const inviteEntry = connectionData?.inviteEntry;
+
+    if (inviteEntry == null) {
+      return;
+    }
+
+    inviteEntry.assignmentsReader.cancel();
+    inviteEntry.assignmentsReader.releaseLock();
+    await this.db.leaveInvite(inviteEntry.inviteCode, inviteEntry.entryId);
+    delete connectionData?.inviteEntry;
+
+    const message: LobbySocketResponse = { type: "InviteLeft" };
+    socket.send(JSON.stringify(message));
+  }
+
+  // Sends the user a page of the games they have completed. Pages requested
+  // with a cursor are appended to the ones already sent.
+  async listCompletedGames(socket: Socket, cursor?: string) {
+    const connectionData = this.sockets.get(socket);
+    if (connectionData == null) {
+      return;
+    }
+
+    const page = await this.db.listUserCompletedGames(connectionData.userId, {
+      limit: completedGamesPageSize,
+      cursor,
+    });
+    const message: LobbySocketResponse = {
+      type: "CompletedGamesPage",
+      games: page.games,
+      cursor: page.cursor,
+      append: cursor !== undefined,
+    };
+    socket.send(JSON.stringify(message));
+  }
+
   allSockets(): Socket[] {
     return [...this.sockets.keys()];
   }
 }
 
-function updateActiveGamesIfNecessary(
+// Sends the user's games to the socket whenever they change, once it has
+// been initialized
+async function streamUserGamesToSocket(
+  socket: Socket,
+  connectionData: ConnectionData,
+) {
+  while (true) {
+    const data = await connectionData.userGamesReader.read();
+    if (data.done) {
+      break;
+    }
+    if (connectionData.lastUserGames !== undefined) {
+      updateUserGamesIfNecessary(socket, connectionData, data.value);
+    }
+  }
+}
+
+function updateUserGamesIfNecessary(
+  socket: Socket,
+  connectionData: ConnectionData,
+  userGames: UserGame[],
+) {
+  if (jsonEquals(connectionData.lastUserGames, userGames)) {
+    return;
+  }
+
+  const response: LobbySocketResponse = {
+    type: "UpdateUserGames",
+    userGames,
+  };
+  connectionData.lastUserGames = userGames;
+  socket.send(JSON.stringify(response));
+}
+
+function updateLobbyMessagesIfNecessary(
   socket: Socket,
   connectionData: ConnectionData,
-  activeGames: ActiveGame[],
+  lobbyMessages: LobbyMessage[],
 ) {
-  if (jsonEquals(connectionData.lastValue, activeGames)) {
+  if (jsonEquals(connectionData.lastLobbyMessages, lobbyMessages)) {
     return;
   }
 
   const response: LobbySocketResponse = {
-    type: "UpdateActiveGames",
-    activeGames,
+    type: "UpdateLobbyMessages",
+    lobbyMessages,
   };
-  connectionData.lastValue = activeGames;
+  connectionData.lastLobbyMessages = lobbyMessages;
   socket.send(JSON.stringify(response));
 }
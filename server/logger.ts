@@ -0,0 +1,27 @@
+// A structured logger. Each call takes a short message and optional data
+// describing the event.
+export interface Logger {
+  debug(message: string, data?: Record<string, unknown>): void;
+  info(message: string, data?: Record<string, unknown>): void;
+  warn(message: string, data?: Record<string, unknown>): void;
+  error(message: string, data?: Record<string, unknown>): void;
+}
+
+function log(
+  method: "debug" | "info" | "warn" | "error",
+  message: string,
+  data?: Record<string, unknown>,
+) {
+  if (data == null) {
+    console[method](message);
+  } else {
+    console[method](message, data);
+  }
+}
+
+export const consoleLogger: Logger = {
+  debug: (message, data) => log("debug", message, data),
+  info: (message, data) => log("info", message, data),
+  warn: (message, data) => log("warn", message, data),
+  error: (message, data) => log("error", message, data),
+};
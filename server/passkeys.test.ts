@@ -0,0 +1,213 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  PasskeyError,
+  type PasskeyOptions,
+  verifyLogin,
+  verifyRegistration,
+} from "./passkeys.ts";
+import { decodeBase64Url, encodeBase64Url } from "../common/base64url.ts";
+
+const options: PasskeyOptions = {
+  rpId: "example.com",
+  rpName: "Example",
+  origins: ["https://example.com"],
+};
+
+// Encodes the CBOR an authenticator produces: maps with integer or text keys,
+// and integer, text, or byte string values
+function encodeCbor(value: unknown): Uint8Array {
+  const head = (majorType: number, argument: number) =>
+    argument < 24
+      ? [(majorType << 5) | argument]
+      : argument < 256
+      ? [(majorType << 5) | 24, argument]
+      : [(majorType << 5) | 25, argument >> 8, argument & 0xff];
+
+  if (typeof value === "number") {
+    return new Uint8Array(value >= 0 ? head(0, value) : head(1, -1 - value));
+  }
+  if (typeof value === "string") {
+    const bytes = new TextEncoder().encode(value);
+    return new Uint8Array([...head(3, bytes.length), ...bytes]);
+  }
+  if (value instanceof Uint8Array) {
+    return new Uint8Array([...head(2, value.length), ...value]);
+  }
+  const entries = [...(value as Map<unknown, unknown>).entries()];
+  return new Uint8Array([
+    ...head(5, entries.length),
+    ...entries.flatMap(([k, v]) => [...encodeCbor(k), ...encodeCbor(v)]),
+  ]);
+}
+
+// Encodes a raw ECDSA signature as a DER sequence of two integers
+function rawToDer(raw: Uint8Array): Uint8Array {
+  const integer = (bytes: Uint8Array) => {
+    let start = 0;
+    while (start < bytes.length - 1 && bytes[start] === 0) {
+      start++;
+    }
+    const trimmed = bytes.subarray(start);
+    const padded = trimmed[0] & 0x80
+      ? new Uint8Array([0, ...trimmed])
+      : trimmed;
+    return [0x02, padded.length, ...padded];
+  };
+  const body = [...integer(raw.subarray(0, 32)), ...integer(raw.subarray(32))];
+  return new Uint8Array([0x30, body.length, ...body]);
+}
+
+async function createAuthenticator() {
+  const keyPair = await crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve: "P-256" },
+    true,
+    ["sign", "verify"],
+  );
+  const jwk = await crypto.subtle.exportKey("jwk", keyPair.publicKey);
+  const credentialId = crypto.getRandomValues(new Uint8Array(16));
+  const rpIdHash = new Uint8Array(
+    await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(options.rpId),
+    ),
+  );
+  let signCount = 0;
+
+  const authData = (flags: number, attested: Uint8Array = new Uint8Array()) =>
+    new Uint8Array([
+      ...rpIdHash,
+      flags,
+      ...new Uint8Array(new Uint32Array([signCount]).buffer).reverse(),
+      ...attested,
+    ]);
+  const clientData = (type: string, challenge: string) =>
+    encodeBase64Url(
+      new TextEncoder().encode(
+        JSON.stringify({ type, challenge, origin: "https://example.com" }),
+      ),
+    );
+
+  return {
+    id: encodeBase64Url(credentialId),
+    register(challenge: string) {
+      const coseKey = new Map<unknown, unknown>([
+        [1, 2],
+        [3, -7],
+        [-1, 1],
+        [-2, decodeBase64Url(jwk.x!)],
+        [-3, decodeBase64Url(jwk.y!)],
+      ]);
+      const attested = new Uint8Array([
+        ...new Uint8Array(16),
+        credentialId.length >> 8,
+        credentialId.length & 0xff,
+        ...credentialId,
+        ...encodeCbor(coseKey),
+      ]);
+      const attestationObject = new Map<unknown, unknown>([
+        ["fmt", "none"],
+        ["attStmt", new Map()],
+        ["authData", authData(0x41, attested)],
+      ]);
+      return {
+        id: encodeBase64Url(credentialId),
+        clientDataJSON: clientData("webauthn.create", challenge),
+        attestationObject: encodeBase64Url(encodeCbor(attestationObject)),
+      };
+    },
+    async login(challenge: string) {
+      signCount++;
+      const authenticatorData = authData(0x01);
+      const clientDataJSON = clientData("webauthn.get", challenge);
+      const clientDataHash = await crypto.subtle.digest(
+        "SHA-256",
+        decodeBase64Url(clientDataJSON),
+      );
+      const signature = await crypto.subtle.sign(
+        { name: "ECDSA", hash: "SHA-256" },
+        keyPair.privateKey,
+        new Uint8Array([
+          ...authenticatorData,
+          ...new Uint8Array(clientDataHash),
+        ]),
+      );
+      return {
+        id: encodeBase64Url(credentialId),
+        clientDataJSON,
+        authenticatorData: encodeBase64Url(authenticatorData),
+        signature: encodeBase64Url(rawToDer(new Uint8Array(signature))),
+      };
+    },
+  };
+}
+
+Deno.test("verifyRegistration and verifyLogin accept an ES256 passkey", async () => {
+  const authenticator = await createAuthenticator();
+
+  const passkey = await verifyRegistration(
+    authenticator.register("register-challenge"),
+    "register-challenge",
+    options,
+  );
+  assertEquals(passkey.credentialId, authenticator.id);
+  assertEquals(passkey.algorithm, -7);
+
+  const signCount = await verifyLogin(
+    await authenticator.login("login-challenge"),
+    "login-challenge",
+    passkey,
+    options,
+  );
+  assertEquals(signCount, 1);
+});
+
+Deno.test("verifyRegistration rejects the wrong challenge or relying party", async () => {
+  const authenticator = await createAuthenticator();
+
+  await assertRejects(
+    () =>
+      verifyRegistration(
+        authenticator.register("register-challenge"),
+        "other-challenge",
+        options,
+      ),
+    PasskeyError,
+  );
+  await assertRejects(
+    () =>
+      verifyRegistration(
+        authenticator.register("register-challenge"),
+        "register-challenge",
+        { ...options, rpId: "example.org" },
+      ),
+    PasskeyError,
+  );
+});
+
+Deno.test("verifyLogin rejects other keys and replayed sign counts", async () => {
+  const authenticator = await createAuthenticator();
+  const other = await createAuthenticator();
+  const passkey = await verifyRegistration(
+    authenticator.register("register-challenge"),
+    "register-challenge",
+    options,
+  );
+
+  await assertRejects(
+    () =>
+      other.login("login-challenge").then((response) =>
+        verifyLogin(response, "login-challenge", passkey, options)
+      ),
+    PasskeyError,
+  );
+  await assertRejects(
+    async () =>
+      verifyLogin(
+        await authenticator.login("login-challenge"),
+        "login-challenge",
+        { ...passkey, signCount: 5 },
+        options,
+      ),
+    PasskeyError,
+  );
+});
@@ -0,0 +1,384 @@
+import { decodeBase64Url, encodeBase64Url } from "../common/base64url.ts";
+import type {
+  PasskeyLoginResponse,
+  PasskeyRegistrationResponse,
+} from "../types.ts";
+
+export type PasskeyOptions = {
+  // The domain passkeys are scoped to, such as "example.com"
+  rpId: string;
+  // Shown to users when they create a passkey
+  rpName: string;
+  // Origins the browser may report, such as "https://example.com"
+  origins: string[];
+};
+
+// Stored for each passkey a user registers
+export type StoredPasskey = {
+  credentialId: string;
+  publicKey: JsonWebKey;
+  // COSE algorithm identifier
+  algorithm: number;
+  signCount: number;
+};
+
+// ES256 and RS256, which every platform authenticator supports
+export const passkeyAlgorithms = [-7, -257];
+
+export class PasskeyError extends Error {}
+
+export function createChallenge(): string {
+  return encodeBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+// Verifies a new passkey's client data and authenticator data, returning the
+// passkey to store. Attestation statements aren't verified, as with the
+// "none" attestation conveyance that browsers use by default.
+export async function verifyRegistration(
+  response: PasskeyRegistrationResponse,
+  challenge: string,
+  options: PasskeyOptions,
+): Promise<StoredPasskey> {
+  verifyClientData(
+    response.clientDataJSON,
+    "webauthn.create",
+    challenge,
+    options,
+  );
+
+  const attestation = decodeCbor(decodeBase64Url(response.attestationObject))
+    .value;
+  if (!(attestation instanceof Map)) {
+    throw new PasskeyError("Malformed attestation object");
+  }
+  const authData = attestation.get("authData");
+  if (!(authData instanceof Uint8Array)) {
+    throw new PasskeyError("Missing authenticator data");
+  }
+  const authenticatorData = await parseAuthenticatorData(authData, options);
+  if (authenticatorData.credential === undefined) {
+    throw new PasskeyError("Missing attested credential data");
+  }
+
+  const { credentialId, publicKey, algorithm } = authenticatorData.credential;
+  if (credentialId !== response.id) {
+    throw new PasskeyError("Credential ID mismatch");
+  }
+  return {
+    credentialId,
+    publicKey,
+    algorithm,
+    signCount: authenticatorData.signCount,
+  };
+}
+
+// Verifies a login with a stored passkey, returning its new signature count
+export async function verifyLogin(
+  response: PasskeyLoginResponse,
+  challenge: string,
+  passkey: StoredPasskey,
+  options: PasskeyOptions,
+): Promise<number> {
+  verifyClientData(
+    response.clientDataJSON,
+    "webauthn.get",
+    challenge,
+    options,
+  );
+  const authData = decodeBase64Url(response.authenticatorData);
+  const { signCount } = await parseAuthenticatorData(authData, options);
+
+  const clientDataHash = await crypto.subtle.digest(
+    "SHA-256",
+    decodeBase64Url(response.clientDataJSON),
+  );
+  const signedData = concatBytes(authData, new Uint8Array(clientDataHash));
+  const isValid = await verifySignature(
+    passkey,
+    decodeBase64Url(response.signature),
+    signedData,
+  );
+  if (!isValid) {
+    throw new PasskeyError("Invalid signature");
+  }
+
+  // Authenticators that count signatures always increase the count, so a
+  // count that doesn't may be from a cloned authenticator
+  if (
+    (signCount !== 0 || passkey.signCount !== 0) &&
+    signCount <= passkey.signCount
+  ) {
+    throw new PasskeyError("Signature count didn't increase");
+  }
+  return signCount;
+}
+
+function verifyClientData(
+  clientDataJSON: string,
+  type: string,
+  challenge: string,
+  options: PasskeyOptions,
+) {
+  let clientData: { type?: unknown; challenge?: unknown; origin?: unknown };
+  try {
+    clientData = JSON.parse(
+      new TextDecoder().decode(decodeBase64Url(clientDataJSON)),
+    );
+  } catch {
+    throw new PasskeyError("Malformed client data");
+  }
+  if (clientData.type !== type) {
+    throw new PasskeyError(`Expected client data type ${type}`);
+  }
+  if (clientData.challenge !== challenge) {
+    throw new PasskeyError("Challenge mismatch");
+  }
+  if (
+    typeof clientData.origin !== "string" ||
+    !options.origins.includes(clientData.origin)
+  ) {
+    throw new PasskeyError("Unexpected origin");
+  }
+}
+
+type AuthenticatorData = {
+  signCount: number;
+  credential?: {
+    credentialId: string;
+    publicKey: JsonWebKey;
+    algorithm: number;
+  };
+};
+
+const userPresentFlag = 0x01;
+const attestedCredentialFlag = 0x40;
+
+async function parseAuthenticatorData(
+  authData: Uint8Array,
+  options: PasskeyOptions,
+): Promise<AuthenticatorData> {
+  if (authData.length < 37) {
+    throw new PasskeyError("Authenticator data is too short");
+  }
+  const view = new DataView(
+    authData.buffer,
+    authData.byteOffset,
+    authData.byteLength,
+  );
+
+  const rpIdHash = new Uint8Array(
+    await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(options.rpId),
+    ),
+  );
+  if (!bytesEqual(authData.subarray(0, 32), rpIdHash)) {
+    throw new PasskeyError("Relying party ID mismatch");
+  }
+  const flags = authData[32];
+  if ((flags & userPresentFlag) === 0) {
+    throw new PasskeyError("User wasn't present");
+  }
+  const signCount = view.getUint32(33);
+  if ((flags & attestedCredentialFlag) === 0) {
+    return { signCount };
+  }
+
+  // Skips the 16 byte AAGUID
+  const credentialIdLength = view.getUint16(53);
+  const credentialIdEnd = 55 + credentialIdLength;
+  const credentialId = encodeBase64Url(
+    authData.subarray(55, credentialIdEnd),
+  );
+  const coseKey = decodeCbor(authData, credentialIdEnd).value;
+  if (!(coseKey instanceof Map)) {
+    throw new PasskeyError("Malformed credential public key");
+  }
+  const { publicKey, algorithm } = coseKeyToJwk(coseKey);
+  return { signCount, credential: { credentialId, publicKey, algorithm } };
+}
+
+// Converts the COSE keys of the supported algorithms
+function coseKeyToJwk(
+  coseKey: Map<unknown, unknown>,
+): { publicKey: JsonWebKey; algorithm: number } {
+  const algorithm = coseKey.get(3);
+  const bytes = (label: number) => {
+    const value = coseKey.get(label);
+    if (!(value instanceof Uint8Array)) {
+      throw new PasskeyError(`Missing COSE key parameter ${label}`);
+    }
+    return encodeBase64Url(value);
+  };
+
+  if (algorithm === -7 && coseKey.get(1) === 2 && coseKey.get(-1) === 1) {
+    return {
+      publicKey: { kty: "EC", crv: "P-256", x: bytes(-2), y: bytes(-3) },
+      algorithm,
+    };
+  }
+  if (algorithm === -257 && coseKey.get(1) === 3) {
+    return {
+      publicKey: { kty: "RSA", alg: "RS256", n: bytes(-1), e: bytes(-2) },
+      algorithm,
+    };
+  }
+  throw new PasskeyError(`Unsupported algorithm ${algorithm}`);
+}
+
+async function verifySignature(
+  passkey: StoredPasskey,
+  signature: Uint8Array<ArrayBuffer>,
+  data: Uint8Array<ArrayBuffer>,
+): Promise<boolean> {
+  if (passkey.algorithm === -7) {
+    const key = await crypto.subtle.importKey(
+      "jwk",
+      passkey.publicKey,
+      { name: "ECDSA", namedCurve: "P-256" },
+      false,
+      ["verify"],
+    );
+    return await crypto.subtle.verify(
+      { name: "ECDSA", hash: "SHA-256" },
+      key,
+      derToRawSignature(signature),
+      data,
+    );
+  }
+  const key = await crypto.subtle.importKey(
+    "jwk",
+    passkey.publicKey,
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["verify"],
+  );
+  return await crypto.subtle.verify("RSASSA-PKCS1-v1_5", key, signature, data);
+}
+
+// WebAuthn ECDSA signatures are DER encoded sequences of r and s, while
+// WebCrypto expects them concatenated as 32 byte integers
+function derToRawSignature(der: Uint8Array): Uint8Array<ArrayBuffer> {
+  if (der[0] !== 0x30) {
+    throw new PasskeyError("Malformed signature");
+  }
+  const raw = new Uint8Array(64);
+  let offset = 2;
+  for (const start of [0, 32]) {
+    if (der[offset] !== 0x02) {
+      throw new PasskeyError("Malformed signature");
+    }
+    const length = der[offset + 1];
+    let integer = der.subarray(offset + 2, offset + 2 + length);
+    offset += 2 + length;
+    // Strips the sign padding
+    while (integer.length > 32 && integer[0] === 0) {
+      integer = integer.subarray(1);
+    }
+    if (integer.length > 32) {
+      throw new PasskeyError("Malformed signature");
+    }
+    raw.set(integer, start + 32 - integer.length);
+  }
+  return raw;
+}
+
+function concatBytes(
+  a: Uint8Array,
+  b: Uint8Array,
+): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(a.length + b.length);
+  bytes.set(a);
+  bytes.set(b, a.length);
+  return bytes;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+// Decodes the subset of CBOR used by authenticators: integers, byte and text
+// strings, arrays, maps, and simple values. Returns the value and the offset
+// just past it.
+function decodeCbor(
+  bytes: Uint8Array,
+  offset = 0,
+): { value: unknown; offset: number } {
+  if (offset >= bytes.length) {
+    throw new PasskeyError("Truncated CBOR");
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const majorType = bytes[offset] >> 5;
+  const info = bytes[offset] & 0x1f;
+  offset++;
+
+  let argument: number;
+  if (info < 24) {
+    argument = info;
+  } else if (info === 24) {
+    argument = bytes[offset];
+    offset += 1;
+  } else if (info === 25) {
+    argument = view.getUint16(offset);
+    offset += 2;
+  } else if (info === 26) {
+    argument = view.getUint32(offset);
+    offset += 4;
+  } else {
+    throw new PasskeyError(`Unsupported CBOR argument ${info}`);
+  }
+
+  switch (majorType) {
+    case 0:
+      return { value: argument, offset };
+    case 1:
+      return { value: -1 - argument, offset };
+    case 2:
+      if (offset + argument > bytes.length) {
+        throw new PasskeyError("Truncated CBOR");
+      }
+      return {
+        value: bytes.slice(offset, offset + argument),
+        offset: offset + argument,
+      };
+    case 3:
+      if (offset + argument > bytes.length) {
+        throw new PasskeyError("Truncated CBOR");
+      }
+      return {
+        value: new TextDecoder().decode(
+          bytes.subarray(offset, offset + argument),
+        ),
+        offset: offset + argument,
+      };
+    case 4: {
+      const array: unknown[] = [];
+      for (let i = 0; i < argument; i++) {
+        const item = decodeCbor(bytes, offset);
+        array.push(item.value);
+        offset = item.offset;
+      }
+      return { value: array, offset };
+    }
+    case 5: {
+      const map = new Map<unknown, unknown>();
+      for (let i = 0; i < argument; i++) {
+        const key = decodeCbor(bytes, offset);
+        const value = decodeCbor(bytes, key.offset);
+        map.set(key.value, value.value);
+        offset = value.offset;
+      }
+      return { value: map, offset };
+    }
+    case 7:
+      if (argument === 20 || argument === 21) {
+        return { value: argument === 21, offset };
+      }
+      if (argument === 22) {
+        return { value: null, offset };
+      }
+      throw new PasskeyError(`Unsupported CBOR simple value ${argument}`);
+    default:
+      throw new PasskeyError(`Unsupported CBOR major type ${majorType}`);
+  }
+}
@@ -0,0 +1,17 @@
+import { assertEquals, assertNotEquals } from "@std/assert";
+import { hashPassword, verifyPassword } from "./passwords.ts";
+
+Deno.test("verifyPassword only accepts the hashed password", async () => {
+  const passwordHash = await hashPassword("correct horse", 1000);
+
+  assertEquals(await verifyPassword("correct horse", passwordHash), true);
+  assertEquals(await verifyPassword("wrong horse", passwordHash), false);
+});
+
+Deno.test("hashPassword salts every hash", async () => {
+  const first = await hashPassword("correct horse", 1000);
+  const second = await hashPassword("correct horse", 1000);
+
+  assertNotEquals(first.hash, second.hash);
+  assertEquals(first.iterations, 1000);
+});
@@ -0,0 +1,72 @@
+import { decodeBase64Url, encodeBase64Url } from "../common/base64url.ts";
+
+// Stored for each user who registered with a password. The iterations are
+// stored so they can be raised without invalidating existing hashes.
+export type PasswordHash = {
+  algorithm: "PBKDF2-SHA-256";
+  iterations: number;
+  salt: string;
+  hash: string;
+};
+
+const defaultIterations = 600_000;
+const saltBytes = 16;
+const hashBits = 256;
+
+export async function hashPassword(
+  password: string,
+  iterations = defaultIterations,
+): Promise<PasswordHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(saltBytes));
+  const hash = await derive(password, salt, iterations);
+  return {
+    algorithm: "PBKDF2-SHA-256",
+    iterations,
+    salt: encodeBase64Url(salt),
+    hash: encodeBase64Url(hash),
+  };
+}
+
+export async function verifyPassword(
+  password: string,
+  passwordHash: PasswordHash,
+): Promise<boolean> {
+  const hash = await derive(
+    password,
+    decodeBase64Url(passwordHash.salt),
+    passwordHash.iterations,
+  );
+  return constantTimeEquals(hash, decodeBase64Url(passwordHash.hash));
+}
+
+async function derive(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    hashBits,
+  );
+  return new Uint8Array(bits);
+}
+
+// Compares every byte, so the time taken doesn't reveal where they differ
+function constantTimeEquals(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a[i] ^ b[i];
+  }
+  return difference === 0;
+}
@@ -0,0 +1,42 @@
+import { assertEquals, assertNotEquals } from "@std/assert";
+import { createRandom, generateSeed } from "./random.ts";
+
+Deno.test("createRandom is deterministic for a seed and step", () => {
+  const a = createRandom("seed", 3);
+  const b = createRandom("seed", 3);
+
+  const sequenceA = [a.random(), a.random(), a.integer(0, 100)];
+  const sequenceB = [b.random(), b.random(), b.integer(0, 100)];
+
+  assertEquals(sequenceA, sequenceB);
+});
+
+Deno.test("createRandom differs between steps and seeds", () => {
+  const base = createRandom("seed", 1).random();
+
+  assertNotEquals(createRandom("seed", 2).random(), base);
+  assertNotEquals(createRandom("other-seed", 1).random(), base);
+});
+
+Deno.test("integer stays within the requested range", () => {
+  const random = createRandom("seed", 0);
+
+  for (let i = 0; i < 1000; i++) {
+    const value = random.integer(-3, 4);
+    assertEquals(Number.isInteger(value), true);
+    assertEquals(value >= -3 && value < 4, true);
+  }
+});
+
+Deno.test("shuffle returns a permutation without mutating its input", () => {
+  const items = [1, 2, 3, 4, 5, 6, 7, 8];
+  const shuffled = createRandom("seed", 0).shuffle(items);
+
+  assertEquals(items, [1, 2, 3, 4, 5, 6, 7, 8]);
+  assertEquals([...shuffled].sort(), items);
+  assertEquals(createRandom("seed", 0).shuffle(items), shuffled);
+});
+
+Deno.test("generateSeed creates distinct seeds", () => {
+  assertNotEquals(generateSeed(), generateSeed());
+});
@@ -0,0 +1,71 @@
+import type { Random } from "../types.ts";
+
+// Generates a new random seed to be stored alongside a game
+export function generateSeed(): string {
+  const values = crypto.getRandomValues(new Uint32Array(4));
+  return [...values].map((v) => v.toString(16).padStart(8, "0")).join("");
+}
+
+// Creates a deterministic Random for a single step of a game. The same seed and
+// step always produce the same sequence, so replays reproduce exactly.
+export function createRandom(seed: string, step: number): Random {
+  const next = sfc32(...cyrb128(`${seed}:${step}`));
+
+  const integer = (min: number, max: number) => {
+    return min + Math.floor(next() * (max - min));
+  };
+
+  return {
+    random: next,
+    integer,
+    shuffle<T>(items: readonly T[]): T[] {
+      const shuffled = [...items];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = integer(0, i + 1);
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    },
+  };
+}
+
+// Hashes a string into four 32-bit values suitable for seeding sfc32
+function cyrb128(str: string): [number, number, number, number] {
+  let h1 = 1779033703;
+  let h2 = 3144134277;
+  let h3 = 1013904242;
+  let h4 = 2773480762;
+  for (let i = 0; i < str.length; i++) {
+    const k = str.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+}
+
+// Small Fast Counter PRNG, returning floats in [0, 1)
+function sfc32(a: number, b: number, c: number, d: number): () => number {
+  return () => {
+    a |= 0;
+    b |= 0;
+    c |= 0;
+    d |= 0;
+    const t = (((a + b) | 0) + d) | 0;
+    d = (d + 1) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,69 @@
+import { assertEquals } from "@std/assert";
+import {
+  computeNewRatings,
+  getRatingWindow,
+  selectRatedEntries,
+} from "./ratings.ts";
+
+const ratingOptions = { initialWindow: 100, windowGrowthPerSecond: 10 };
+
+Deno.test("computeNewRatings moves ratings toward the result", () => {
+  const [winner, loser] = computeNewRatings([1500, 1500], [0, 1]);
+
+  assertEquals(winner, 1516);
+  assertEquals(loser, 1484);
+});
+
+Deno.test("computeNewRatings treats shared placements as draws", () => {
+  assertEquals(computeNewRatings([1500, 1500], [0, 0]), [1500, 1500]);
+
+  const [higher, lower] = computeNewRatings([1700, 1500], [0, 0]);
+  assertEquals(higher < 1700, true);
+  assertEquals(lower > 1500, true);
+});
+
+Deno.test("computeNewRatings handles more than two players", () => {
+  const newRatings = computeNewRatings([1500, 1500, 1500], [2, 0, 1]);
+
+  assertEquals(newRatings, [1484, 1516, 1500]);
+});
+
+Deno.test("getRatingWindow widens the longer an entry waits", () => {
+  const now = new Date(100_000);
+  const entry = { rating: 1500, timestamp: new Date(90_000) };
+
+  assertEquals(getRatingWindow(entry, ratingOptions, new Date(90_000)), 100);
+  assertEquals(getRatingWindow(entry, ratingOptions, now), 200);
+});
+
+Deno.test("selectRatedEntries only matches entries within their windows", () => {
+  const now = new Date(100_000);
+  const entries = [
+    { id: "a", rating: 1500, timestamp: now },
+    { id: "b", rating: 1800, timestamp: now },
+  ];
+
+  assertEquals(selectRatedEntries(entries, 2, ratingOptions, now), undefined);
+
+  // After waiting 20 seconds, the window has widened to 300
+  const later = new Date(120_000);
+  assertEquals(
+    selectRatedEntries(entries, 2, ratingOptions, later)?.map((e) => e.id),
+    ["a", "b"],
+  );
+});
+
+Deno.test("selectRatedEntries prefers the longest-waiting entry", () => {
+  const now = new Date(100_000);
+  const entries = [
+    { id: "new-low", rating: 1200, timestamp: new Date(99_000) },
+    { id: "new-low-2", rating: 1210, timestamp: new Date(99_500) },
+    { id: "old-high", rating: 1800, timestamp: new Date(90_000) },
+    { id: "new-high", rating: 1820, timestamp: new Date(99_900) },
+  ];
+
+  assertEquals(
+    selectRatedEntries(entries, 2, ratingOptions, now)?.map((e) => e.id),
+    ["old-high", "new-high"],
+  );
+});
@@ -0,0 +1,87 @@
+import type { RatingOptions } from "../types.ts";
+
+export const defaultRating = 1500;
+const kFactor = 32;
+
+export type RatedEntry = {
+  rating: number;
+  timestamp: Date;
+};
+
+// Computes new Elo ratings for a multiplayer game by treating it as a series
+// of pairwise matches. Lower placements are better, and equal placements are
+// treated as draws.
+export function computeNewRatings(
+  ratings: number[],
+  placements: number[],
+): number[] {
+  const numPlayers = ratings.length;
+  if (numPlayers < 2) {
+    return [...ratings];
+  }
+
+  return ratings.map((rating, i) => {
+    let delta = 0;
+    for (let j = 0; j < numPlayers; j++) {
+      if (i === j) {
+        continue;
+      }
+      const expected = 1 / (1 + Math.pow(10, (ratings[j] - rating) / 400));
+      const actual = placements[i] < placements[j]
+        ? 1
+        : placements[i] === placements[j]
+        ? 0.5
+        : 0;
+      delta += actual - expected;
+    }
+    return Math.round(rating + (kFactor * delta) / (numPlayers - 1));
+  });
+}
+
+// Returns how far from its own rating an entry is willing to be matched. The
+// window widens the longer the entry has been waiting.
+export function getRatingWindow(
+  entry: RatedEntry,
+  options: RatingOptions,
+  now: Date,
+): number {
+  const waitedSeconds = Math.max(
+    0,
+    (now.getTime() - entry.timestamp.getTime()) / 1000,
+  );
+  return options.initialWindow + options.windowGrowthPerSecond * waitedSeconds;
+}
+
+// Selects a group of entries whose ratings all fall within each other's
+// windows, preferring the group containing the longest-waiting entry.
+// Returns undefined if no such group exists.
+export function selectRatedEntries<Entry extends RatedEntry>(
+  entries: Entry[],
+  numPlayers: number,
+  options: RatingOptions,
+  now: Date,
+): Entry[] | undefined {
+  const sorted = [...entries].sort((a, b) => a.rating - b.rating);
+  let best: Entry[] | undefined;
+  let bestTimestamp = Infinity;
+
+  for (let start = 0; start + numPlayers <= sorted.length; start++) {
+    const group = sorted.slice(start, start + numPlayers);
+    const spread = group[group.length - 1].rating - group[0].rating;
+    const window = Math.min(
+      ...group.map((entry) => getRatingWindow(entry, options, now)),
+    );
+    if (spread > window) {
+      continue;
+    }
+
+    const oldest = Math.min(...group.map((entry) => entry.timestamp.getTime()));
+    if (oldest < bestTimestamp) {
+      best = group;
+      bestTimestamp = oldest;
+    }
+  }
+
+  // Keep players in the order they joined the queue
+  return best?.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
@@ -0,0 +1,209 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { GameSimulation } from "./simulation.ts";
+import type { Game } from "../types.ts";
+
+type TestState = {
+  count: number;
+  currentPlayer: number;
+  refreshTimes: number[];
+  resigned: number | undefined;
+};
+
+type TestMove = { add: number };
+
+type TestPlayerState = { count: number; isMyTurn: boolean };
+
+type TestPublicState = { count: number; refreshTimes: number[] };
+
+type TestOutcome = { winner: number };
+
+const testGame: Game<
+  undefined,
+  TestState,
+  TestMove,
+  TestPlayerState,
+  TestPublicState,
+  TestOutcome
+> = {
+  modes: {
+    queue: { numPlayers: 2, matchmaking: "queue", config: undefined },
+  },
+  setup: () => ({
+    count: 0,
+    currentPlayer: 0,
+    refreshTimes: [],
+    resigned: undefined,
+  }),
+  isValidMove: (state, { playerId, move }) => {
+    if (playerId !== state.currentPlayer) {
+      return { reason: "not-your-turn" };
+    }
+    return move.add > 0;
+  },
+  processMove: (state, { move }) => ({
+    ...state,
+    count: state.count + move.add,
+    currentPlayer: 1 - state.currentPlayer,
+  }),
+  refreshTimeout: (state) => state.refreshTimes.length < 2 ? 1000 : undefined,
+  refresh: (state, { timestamp }) => ({
+    ...state,
+    refreshTimes: [...state.refreshTimes, timestamp.getTime()],
+  }),
+  playerLeft: (state, { playerId }) => ({ ...state, resigned: playerId }),
+  playerState: (state, { playerId }) => ({
+    count: state.count,
+    isMyTurn: state.currentPlayer === playerId,
+  }),
+  publicState: (state) => ({
+    count: state.count,
+    refreshTimes: state.refreshTimes,
+  }),
+  outcome: (state) => {
+    if (state.resigned !== undefined) {
+      return { winner: 1 - state.resigned };
+    }
+    return state.count >= 5 ? { winner: 1 - state.currentPlayer } : undefined;
+  },
+};
+
+Deno.test("GameSimulation runs scripted moves through the game", async () => {
+  const simulation = await GameSimulation.create(testGame);
+
+  await simulation.run([
+    {
+      type: "move",
+      playerId: 0,
+      move: { add: 2 },
+      expect: {
+        result: { accepted: true },
+        playerStates: [
+          { count: 2, isMyTurn: false },
+          { count: 2, isMyTurn: true },
+        ],
+        outcome: undefined,
+      },
+    },
+    {
+      type: "move",
+      playerId: 0,
+      move: { add: 1 },
+      expect: {
+        result: { accepted: false, rejection: { reason: "not-your-turn" } },
+      },
+    },
+    {
+      type: "move",
+      playerId: 1,
+      move: { add: 0 },
+      expect: {
+        result: { accepted: false, rejection: { reason: "invalid-move" } },
+      },
+    },
+    {
+      type: "move",
+      playerId: 1,
+      move: { add: 3 },
+      expect: {
+        publicState: { count: 5, refreshTimes: [] },
+        outcome: { winner: 1 },
+      },
+    },
+    {
+      type: "move",
+      playerId: 0,
+      move: { add: 1 },
+      expect: {
+        result: { accepted: false, rejection: { reason: "game-complete" } },
+      },
+    },
+  ]);
+
+  simulation.close();
+});
+
+Deno.test("GameSimulation runs refreshes when the clock advances", async () => {
+  const simulation = await GameSimulation.create(testGame, {
+    startTime: new Date(10_000),
+  });
+
+  await simulation.move(0, { add: 1 });
+  await simulation.run([
+    {
+      type: "advance",
+      ms: 999,
+      expect: { publicState: { count: 1, refreshTimes: [] } },
+    },
+    {
+      type: "advance",
+      ms: 5000,
+      expect: { publicState: { count: 1, refreshTimes: [11_000, 12_000] } },
+    },
+    { type: "leave", playerId: 1, expect: { outcome: { winner: 0 } } },
+  ]);
+  assertEquals(simulation.now, new Date(15_999));
+
+  simulation.close();
+});
+
+Deno.test("GameSimulation fails when a callback mutates the state", async () => {
+  const mutatingGame: typeof testGame = {
+    ...testGame,
+    processMove: (state, { move }) => {
+      (state as TestState).count += move.add;
+      return state;
+    },
+  };
+  const simulation = await GameSimulation.create(mutatingGame);
+
+  await assertRejects(
+    () => simulation.move(0, { add: 1 }),
+    Error,
+    "processMove mutated the game state",
+  );
+
+  simulation.close();
+});
+
+Deno.test("GameSimulation runs out the clocks of active players", async () => {
+  const timedGame: typeof testGame = {
+    ...testGame,
+    modes: {
+      queue: {
+        numPlayers: 2,
+        matchmaking: "queue",
+        config: undefined,
+        timeControl: { initialTime: 10_000, increment: 2_000, delay: 1_000 },
+      },
+    },
+    refreshTimeout: undefined,
+    refresh: undefined,
+    activePlayers: (state) => [state.currentPlayer],
+    timeExpired: (state, { playerId }) => ({ ...state, resigned: playerId }),
+  };
+  const simulation = await GameSimulation.create(timedGame);
+
+  await simulation.advance(4_000);
+  await simulation.move(0, { add: 1 });
+  assertEquals(await simulation.clocks(), {
+    remaining: [9_000, 10_000],
+    running: [1],
+    updatedAt: 4_000,
+    startedAt: [4_000, 4_000],
+    delay: 1_000,
+  });
+
+  await simulation.run([
+    { type: "advance", ms: 10_999, expect: { outcome: undefined } },
+    { type: "advance", ms: 1, expect: { outcome: { winner: 0 } } },
+  ]);
+  assertEquals(await simulation.clocks(), {
+    remaining: [9_000, 0],
+    running: [],
+    updatedAt: 15_000,
+    startedAt: [15_000, 15_000],
+    delay: 1_000,
+  });
+
+  simulation.close();
+});
@@ -0,0 +1,364 @@
+import { assertEquals } from "@std/assert";
+import { DB } from "./db.ts";
+import {
+  getPlayerState,
+  getPublicState,
+  getTurnClocks,
+  handleClockCheck,
+  handleMove,
+  handlePlayerLeft,
+  handleRefresh,
+  type MoveResult,
+} from "./gamedata.ts";
+import { MemoryStorage } from "./storage.ts";
+import type { Clock } from "./clock.ts";
+import type { ClockCheck } from "./turnclocks.ts";
+import type { Game, PlayerLeftReason, TurnClocks, User } from "../types.ts";
+
+export type SimulationOptions = {
+  // Defaults to the first mode the game defines
+  modeId?: string;
+  // Defaults to guest users, one for each of the mode's players
+  players?: User[];
+  // Seeds the game's random, so simulations are reproducible
+  seed?: string;
+  // Defaults to the Unix epoch
+  startTime?: Date;
+};
+
+// State to compare after a step. Only the provided fields are checked.
+export type SimulationExpectation<PlayerState, PublicState, Outcome> = {
+  // The result of a move step
+  result?: MoveResult;
+  // Each player's state, indexed by player ID
+  playerStates?: PlayerState[];
+  publicState?: PublicState;
+  // Set to undefined to check that the game is still in progress
+  outcome?: Outcome | undefined;
+};
+
+export type SimulationStep<Move, PlayerState, PublicState, Outcome> =
+  & (
+    | { type: "move"; playerId: number; move: Move }
+    // Moves the clock forward, running any refreshes that come due
+    | { type: "advance"; ms: number }
+    | { type: "leave"; playerId: number; reason?: PlayerLeftReason }
+  )
+  & { expect?: SimulationExpectation<PlayerState, PublicState, Outcome> };
+
+// A clock that only moves when the simulation advances it
+class SimulationClock implements Clock {
+  constructor(public time: number) {}
+
+  now(): Date {
+    return new Date(this.time);
+  }
+}
+
+// Wraps a game so that every callback is checked for mutating the state it is
+// given, and processMove is checked to only be called for the move that
+// isValidMove last accepted.
+function withInvariantChecks<
+  Config,
+  GameState,
+  Move,
+  PlayerState,
+  PublicState,
+  Outcome,
+>(
+  game: Game<Config, GameState, Move, PlayerState, PublicState, Outcome>,
+): Game<Config, GameState, Move, PlayerState, PublicState, Outcome> {
+  let validated:
+    | { state: Readonly<GameState>; playerId: number; move: Move }
+    | undefined;
+
+  const withoutMutation = <T>(
+    name: string,
+    state: Readonly<GameState>,
+    callback: () => T,
+  ): T => {
+    const before = structuredClone(state);
+    const result = callback();
+    assertEquals(state, before, `${name} mutated the game state`);
+    return result;
+  };
+
+  return {
+    ...game,
+    isValidMove: (state, o) => {
+      const validity = withoutMutation(
+        "isValidMove",
+        state,
+        () => game.isValidMove(state, o),
+      );
+      validated = validity === true
+        ? { state, playerId: o.playerId, move: o.move }
+        : undefined;
+      return validity;
+    },
+    processMove: (state, o) => {
+      if (
+        validated === undefined || validated.state !== state ||
+        validated.playerId !== o.playerId || validated.move !== o.move
+      ) {
+        throw new Error("processMove was called without a valid isValidMove");
+      }
+      validated = undefined;
+      return withoutMutation(
+        "processMove",
+        state,
+        () => game.processMove(state, o),
+      );
+    },
+    refreshTimeout: game.refreshTimeout &&
+      ((state, o) =>
+        withoutMutation(
+          "refreshTimeout",
+          state,
+          () => game.refreshTimeout!(state, o),
+        )),
+    refresh: game.refresh &&
+      ((state, o) =>
+        withoutMutation("refresh", state, () => game.refresh!(state, o))),
+    activePlayers: game.activePlayers &&
+      ((state, o) =>
+        withoutMutation(
+          "activePlayers",
+          state,
+          () => game.activePlayers!(state, o),
+        )),
+    timeExpired: game.timeExpired &&
+      ((state, o) =>
+        withoutMutation(
+          "timeExpired",
+          state,
+          () => game.timeExpired!(state, o),
+        )),
+    playerLeft: game.playerLeft &&
+      ((state, o) =>
+        withoutMutation("playerLeft", state, () => game.playerLeft!(state, o))),
+    playerState: (state, o) =>
+      withoutMutation("playerState", state, () => game.playerState(state, o)),
+    publicState: (state, o) =>
+      withoutMutation("publicState", state, () => game.publicState(state, o)),
+    outcome: (state, o) =>
+      withoutMutation("outcome", state, () => game.outcome(state, o)),
+  };
+}
+
+/**
+ * Drives a game through scripted moves and timer advances, without a server
+ * or sockets. Moves and refreshes go through the same code as a running
+ * server, backed by in-memory storage and a clock that only moves when the
+ * simulation is advanced.
+ *
+ * Every game callback is checked for mutating the state it is given, and
+ * processMove is checked to only be called after isValidMove accepts the move.
+ */
+export class GameSimulation<
+  Config,
+  GameState,
+  Move,
+  PlayerState,
+  PublicState,
+  Outcome,
+> {
+  private constructor(
+    private db: DB,
+    private storage: MemoryStorage,
+    private clock: SimulationClock,
+    private game: Game<
+      Config,
+      GameState,
+      Move,
+      PlayerState,
+      PublicState,
+      Outcome
+    >,
+    readonly gameId: string,
+  ) {}
+
+  static async create<
+    Config,
+    GameState,
+    Move,
+    PlayerState,
+    PublicState,
+    Outcome,
+  >(
+    game: Game<Config, GameState, Move, PlayerState, PublicState, Outcome>,
+    options: SimulationOptions = {},
+  ): Promise<
+    GameSimulation<Config, GameState, Move, PlayerState, PublicState, Outcome>
+  > {
+    const modeId = options.modeId ?? Object.keys(game.modes)[0];
+    const mode = game.modes[modeId];
+    if (mode === undefined) {
+      throw new Error(`Unknown mode ${modeId}`);
+    }
+    const players = options.players ??
+      Array.from({ length: mode.numPlayers }, (_, i) => ({
+        username: `guest-${String(i + 1).padStart(4, "0")}`,
+        isGuest: true,
+      }));
+
+    const clock = new SimulationClock(
+      (options.startTime ?? new Date(0)).getTime(),
+    );
+    const storage = new MemoryStorage(clock);
+    const db = new DB(storage, clock);
+    const checkedGame = withInvariantChecks(game);
+    const hasClocks = game.activePlayers != null && game.timeExpired != null;
+    const gameId = await db.createGame(
+      modeId,
+      mode.config,
+      players.map((_, i) => `player-${i}`),
+      players,
+      checkedGame,
+      {
+        seed: options.seed ?? "simulation",
+        timeControl: hasClocks ? mode.timeControl : undefined,
+      },
+    );
+    return new GameSimulation(db, storage, clock, checkedGame, gameId);
+  }
+
+  get now(): Date {
+    return this.clock.now();
+  }
+
+  async move(playerId: number, move: Move): Promise<MoveResult> {
+    return await handleMove(this.db, this.game, this.gameId, playerId, move);
+  }
+
+  // Moves the clock forward, running each refresh and clock check at the time
+  // it comes due
+  async advance(ms: number): Promise<void> {
+    const until = this.clock.time + ms;
+    let message = this.storage.takeDue(until);
+    while (message !== undefined) {
+      this.clock.time = message.dueAt;
+      // Refreshes are enqueued as bare game IDs
+      const value = message.value as string | ClockCheck;
+      if (typeof value === "string") {
+        await handleRefresh(this.db, this.game, value);
+      } else if (value?.type === "clockCheck") {
+        await handleClockCheck(this.db, this.game, value.gameId);
+      }
+      message = this.storage.takeDue(until);
+    }
+    this.clock.time = until;
+  }
+
+  async leave(
+    playerId: number,
+    reason: PlayerLeftReason = "resigned",
+  ): Promise<void> {
+    await handlePlayerLeft(this.db, this.game, this.gameId, playerId, reason);
+  }
+
+  async gameState(): Promise<GameState> {
+    return (await this.getGameData()).gameState;
+  }
+
+  async playerState(playerId: number): Promise<PlayerState> {
+    return getPlayerState(
+      await this.getGameData(),
+      this.game.playerState,
+      playerId,
+      this.clock.now(),
+    );
+  }
+
+  async playerStates(): Promise<PlayerState[]> {
+    const gameData = await this.getGameData();
+    return gameData.players.map((_, playerId) =>
+      getPlayerState(
+        gameData,
+        this.game.playerState,
+        playerId,
+        this.clock.now(),
+      )
+    );
+  }
+
+  async publicState(): Promise<PublicState> {
+    return getPublicState(
+      await this.getGameData(),
+      this.game.publicState,
+      this.clock.now(),
+    );
+  }
+
+  async outcome(): Promise<Outcome | undefined> {
+    return (await this.getGameData()).outcome;
+  }
+
+  async clocks(): Promise<TurnClocks | undefined> {
+    return getTurnClocks(this.game, await this.getGameData());
+  }
+
+  // Runs each step in order, checking its expectation after it completes
+  async run(
+    steps: SimulationStep<Move, PlayerState, PublicState, Outcome>[],
+  ): Promise<void> {
+    for (const [index, step] of steps.entries()) {
+      let result: MoveResult | undefined;
+      switch (step.type) {
+        case "move":
+          result = await this.move(step.playerId, step.move);
+          break;
+        case "advance":
+          await this.advance(step.ms);
+          break;
+        case "leave":
+          await this.leave(step.playerId, step.reason);
+          break;
+      }
+      if (step.expect !== undefined) {
+        await this.checkExpectation(step.expect, result, `step ${index}`);
+      }
+    }
+  }
+
+  close() {
+    this.storage.close();
+  }
+
+  private async checkExpectation(
+    expectation: SimulationExpectation<PlayerState, PublicState, Outcome>,
+    result: MoveResult | undefined,
+    description: string,
+  ): Promise<void> {
+    if (expectation.result !== undefined) {
+      assertEquals(result, expectation.result, `${description}: move result`);
+    }
+    if (expectation.playerStates !== undefined) {
+      assertEquals(
+        await this.playerStates(),
+        expectation.playerStates,
+        `${description}: player states`,
+      );
+    }
+    if ("publicState" in expectation) {
+      assertEquals<PublicState | undefined>(
+        await this.publicState(),
+        expectation.publicState,
+        `${description}: public state`,
+      );
+    }
+    if ("outcome" in expectation) {
+      assertEquals(
+        await this.outcome(),
+        expectation.outcome,
+        `${description}: outcome`,
+      );
+    }
+  }
+
+  private async getGameData() {
+    return await this.db.getGameStorageData<Config, GameState, Outcome>(
+      this.gameId,
+    );
+  }
+}
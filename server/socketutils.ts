@@ -1,7 +1,27 @@
-import type { JSONValue } from "../types.ts";
+import type { JSONValue, TokenData } from "../types.ts";
+import { tokenRevokedCloseCode } from "../common/sockettypes.ts";
 
 export interface Socket {
   send: (data: string) => void;
+  close: (code?: number, reason?: string) => void;
+}
+
+// Closes the socket once the token it was opened with is revoked. Cancel the
+// reader to stop watching.
+export async function closeWhenTokenRevoked(
+  socket: Socket,
+  tokenReader: ReadableStreamDefaultReader<TokenData | null>,
+) {
+  while (true) {
+    const data = await tokenReader.read();
+    if (data.done) {
+      break;
+    }
+    if (data.value == null) {
+      socket.close(tokenRevokedCloseCode, "Token revoked");
+      break;
+    }
+  }
 }
 
 // Returns true if the two JSON-style objects are equal
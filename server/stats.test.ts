@@ -0,0 +1,34 @@
+import { assertEquals } from "@std/assert";
+import { addResult, emptyStats } from "./stats.ts";
+
+Deno.test("addResult counts results and tracks streaks", () => {
+  const results = [
+    "win",
+    "win",
+    "win",
+    "loss",
+    "loss",
+  ] as const;
+
+  assertEquals(results.reduce(addResult, emptyStats), {
+    gamesPlayed: 5,
+    wins: 3,
+    losses: 2,
+    draws: 0,
+    streak: -2,
+    bestStreak: 3,
+  });
+});
+
+Deno.test("addResult ends streaks on draws", () => {
+  const afterWin = addResult(emptyStats, "win");
+
+  assertEquals(addResult(afterWin, "draw"), {
+    gamesPlayed: 2,
+    wins: 1,
+    losses: 0,
+    draws: 1,
+    streak: 0,
+    bestStreak: 1,
+  });
+});
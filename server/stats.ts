@@ -0,0 +1,28 @@
+import type { PlayerResult, UserStats } from "../types.ts";
+
+export const emptyStats: UserStats = {
+  gamesPlayed: 0,
+  wins: 0,
+  losses: 0,
+  draws: 0,
+  streak: 0,
+  bestStreak: 0,
+};
+
+// Adds a game's result to the user's statistics. Draws end both winning and
+// losing streaks.
+export function addResult(stats: UserStats, result: PlayerResult): UserStats {
+  const streak = result === "win"
+    ? Math.max(stats.streak, 0) + 1
+    : result === "loss"
+    ? Math.min(stats.streak, 0) - 1
+    : 0;
+  return {
+    gamesPlayed: stats.gamesPlayed + 1,
+    wins: stats.wins + (result === "win" ? 1 : 0),
+    losses: stats.losses + (result === "loss" ? 1 : 0),
+    draws: stats.draws + (result === "draw" ? 1 : 0),
+    streak,
+    bestStreak: Math.max(stats.bestStreak, streak),
+  };
+}
@@ -0,0 +1,185 @@
+import { assertEquals, assertExists } from "@std/assert";
+import { MemoryStorage } from "./storage.ts";
+import { DB } from "./db.ts";
+import type { Logger } from "./logger.ts";
+
+Deno.test("MemoryStorage lists entries in key order", async () => {
+  const storage = new MemoryStorage();
+  await storage.atomic()
+    .set(["items", "b"], 2)
+    .set(["items", "a"], 1)
+    .set(["items", 3], 3)
+    .set(["items"], 0)
+    .set(["other", "a"], 4)
+    .commit();
+
+  const list = async (options = {}, start?: string[]) =>
+    (await Array.fromAsync(
+      storage.list<number>({ prefix: ["items"], start }, options),
+    )).map((entry) => entry.value);
+
+  assertEquals(await list(), [1, 2, 3]);
+  assertEquals(await list({ reverse: true, limit: 2 }), [3, 2]);
+  assertEquals(await list({}, ["items", "b"]), [2, 3]);
+
+  storage.close();
+});
+
+Deno.test("MemoryStorage commits atomically only when checks pass", async () => {
+  const storage = new MemoryStorage();
+  const key = ["counter"];
+
+  const first = await storage.atomic()
+    .check({ key, versionstamp: null })
+    .set(key, { count: 1 })
+    .commit();
+  assertEquals(first.ok, true);
+
+  const entry = await storage.get<{ count: number }>(key);
+  assertExists(entry.versionstamp);
+
+  const conflicting = await storage.atomic()
+    .check({ key, versionstamp: null })
+    .set(key, { count: 100 })
+    .set(["other"], true)
+    .commit();
+  assertEquals(conflicting.ok, false);
+  assertEquals((await storage.get(["other"])).value, null);
+
+  const second = await storage.atomic()
+    .check(entry)
+    .set(key, { count: entry.value!.count + 1 })
+    .commit();
+  assertEquals(second.ok, true);
+  assertEquals((await storage.get(key)).value, { count: 2 });
+
+  storage.close();
+});
+
+Deno.test("MemoryStorage watches keys and delivers queued messages", async () => {
+  const storage = new MemoryStorage();
+  const reader = storage.watch<[number]>([["watched"]]).getReader();
+
+  assertEquals((await reader.read()).value?.[0].value, null);
+  await storage.atomic().set(["watched"], 1).commit();
+  assertEquals((await reader.read()).value?.[0].value, 1);
+  await reader.cancel();
+
+  const messages: unknown[] = [];
+  await storage.enqueue("first", { delay: 10 });
+  const received = new Promise<void>((resolve) => {
+    storage.listenQueue((message) => {
+      messages.push(message);
+      resolve();
+    });
+  });
+  await received;
+  assertEquals(messages, ["first"]);
+
+  storage.close();
+});
+
+Deno.test("MemoryStorage expires entries using its clock", async () => {
+  let time = 0;
+  const storage = new MemoryStorage({ now: () => new Date(time) });
+  await storage.atomic().set(["expiring"], 1, { expireIn: 100 }).commit();
+
+  time = 99;
+  assertEquals((await storage.get(["expiring"])).value, 1);
+  time = 100;
+  assertEquals((await storage.get(["expiring"])).value, null);
+
+  storage.close();
+});
+
+Deno.test("MemoryStorage delivers delayed messages by its clock", async () => {
+  let time = 0;
+  const storage = new MemoryStorage({ now: () => new Date(time) });
+  const messages: unknown[] = [];
+  storage.listenQueue((message) => {
+    messages.push(message);
+  });
+  await storage.enqueue("second", { delay: 2000 });
+  await storage.enqueue("first", { delay: 1000 });
+
+  storage.deliverDue();
+  await Promise.resolve();
+  assertEquals(messages, []);
+
+  time = 1000;
+  storage.deliverDue();
+  await Promise.resolve();
+  assertEquals(messages, ["first"]);
+
+  time = 5000;
+  storage.deliverDue();
+  await Promise.resolve();
+  assertEquals(messages, ["first", "second"]);
+
+  storage.close();
+});
+
+Deno.test("MemoryStorage logs queue handler failures", async () => {
+  const errors: string[] = [];
+  const logger: Logger = {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: (message) => errors.push(message),
+  };
+  const storage = new MemoryStorage(undefined, logger);
+  await storage.enqueue("failing");
+  await storage.enqueue("succeeding");
+
+  const messages: unknown[] = [];
+  const received = new Promise<void>((resolve) => {
+    storage.listenQueue((message) => {
+      if (message === "failing") {
+        return Promise.reject(new Error("Handler failed"));
+      }
+      messages.push(message);
+      resolve();
+    });
+  });
+  await received;
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assertEquals(messages, ["succeeding"]);
+  assertEquals(errors, ["Queue handler failed"]);
+
+  storage.close();
+});
+
+Deno.test("DB can match players using MemoryStorage", async () => {
+  const storage = new MemoryStorage();
+  const db = new DB(storage);
+
+  const queue = { queueId: "test-queue", numPlayers: 2, config: undefined };
+  const assignments = db.watchForAssignments("entry-1").getReader();
+  await db.addToQueue(
+    queue,
+    "entry-1",
+    "user-1",
+    { username: "guest-0001", isGuest: true },
+    { setup: () => 1 },
+  );
+  await db.addToQueue(
+    queue,
+    "entry-2",
+    "user-2",
+    { username: "guest-0002", isGuest: true },
+    { setup: () => 1 },
+  );
+
+  const result = await assignments.read();
+  assertExists(result.value);
+  await assignments.cancel();
+
+  const gameData = await db.getGameStorageData(result.value.gameId);
+  assertEquals(gameData.playerUserIds, ["user-1", "user-2"]);
+  assertEquals(
+    (await db.getAllActiveGames()).map((game) => game.gameId),
+    [result.value.gameId],
+  );
+
+  storage.close();
+});
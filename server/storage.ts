@@ -0,0 +1,488 @@
+// The key-value operations that DB needs from its backing store. These mirror
+// the subset of Deno KV that DB uses, so a Deno.Kv can be wrapped directly.
+// Other backends (such as Postgres or SQLite) need to provide ordered keys,
+// atomic compare-and-set transactions, change watching, and a delayed queue.
+
+import { type Clock, systemClock } from "./clock.ts";
+import { consoleLogger, type Logger } from "./logger.ts";
+
+// Symbols are included for compatibility with Deno.KvKeyPart, but can't be
+// stored
+export type StorageKeyPart =
+  | Uint8Array
+  | string
+  | number
+  | bigint
+  | boolean
+  | symbol;
+export type StorageKey = readonly StorageKeyPart[];
+
+export type StorageEntry<T> = {
+  key: StorageKey;
+  value: T;
+  versionstamp: string;
+};
+
+export type StorageEntryMaybe<T> = StorageEntry<T> | {
+  key: StorageKey;
+  value: null;
+  versionstamp: null;
+};
+
+// A versionstamp of null checks that the key doesn't exist
+export type StorageCheck = {
+  key: StorageKey;
+  versionstamp: string | null;
+};
+
+export type StorageListSelector = {
+  prefix: StorageKey;
+  start?: StorageKey;
+};
+
+export type StorageListOptions = {
+  limit?: number;
+  reverse?: boolean;
+};
+
+export type StorageCommitResult = { ok: boolean };
+
+// Checks and mutations that are committed together. If any check fails,
+// nothing is written and commit resolves with ok set to false.
+export interface AtomicOperation {
+  check(...checks: StorageCheck[]): this;
+  set(key: StorageKey, value: unknown, options?: { expireIn?: number }): this;
+  delete(key: StorageKey): this;
+  enqueue(value: unknown, options?: { delay?: number }): this;
+  commit(): Promise<StorageCommitResult>;
+}
+
+export interface Storage {
+  get<T = unknown>(key: StorageKey): Promise<StorageEntryMaybe<T>>;
+  getMany<T extends readonly unknown[]>(
+    keys: readonly StorageKey[],
+  ): Promise<{ [K in keyof T]: StorageEntryMaybe<T[K]> }>;
+  // Lists entries in key order, excluding the prefix key itself
+  list<T = unknown>(
+    selector: StorageListSelector,
+    options?: StorageListOptions,
+  ): AsyncIterable<StorageEntry<T>>;
+  delete(key: StorageKey): Promise<void>;
+  atomic(): AtomicOperation;
+  // Emits the current entries for the keys immediately, and again whenever
+  // any of them change
+  watch<T extends readonly unknown[]>(
+    keys: readonly StorageKey[],
+  ): ReadableStream<{ [K in keyof T]: StorageEntryMaybe<T[K]> }>;
+  enqueue(value: unknown, options?: { delay?: number }): Promise<unknown>;
+  // Only a single listener is supported
+  listenQueue(
+    handler: (value: unknown) => void | Promise<void>,
+  ): Promise<void>;
+  close(): void;
+}
+
+export class DenoKvStorage implements Storage {
+  constructor(private kv: Deno.Kv) {}
+
+  get<T = unknown>(key: StorageKey): Promise<StorageEntryMaybe<T>> {
+    return this.kv.get<T>(key);
+  }
+
+  getMany<T extends readonly unknown[]>(
+    keys: readonly StorageKey[],
+  ): Promise<{ [K in keyof T]: StorageEntryMaybe<T[K]> }> {
+    return this.kv.getMany<T>(
+      keys as { [K in keyof T]: Deno.KvKey },
+    );
+  }
+
+  list<T = unknown>(
+    selector: StorageListSelector,
+    options?: StorageListOptions,
+  ): AsyncIterable<StorageEntry<T>> {
+    return this.kv.list<T>(selector, options);
+  }
+
+  delete(key: StorageKey): Promise<void> {
+    return this.kv.delete(key);
+  }
+
+  atomic(): AtomicOperation {
+    return this.kv.atomic();
+  }
+
+  watch<T extends readonly unknown[]>(
+    keys: readonly StorageKey[],
+  ): ReadableStream<{ [K in keyof T]: StorageEntryMaybe<T[K]> }> {
+    return this.kv.watch<T>(keys as { [K in keyof T]: Deno.KvKey });
+  }
+
+  enqueue(value: unknown, options?: { delay?: number }): Promise<unknown> {
+    return this.kv.enqueue(value, options);
+  }
+
+  listenQueue(
+    handler: (value: unknown) => void | Promise<void>,
+  ): Promise<void> {
+    return this.kv.listenQueue(handler);
+  }
+
+  close(): void {
+    this.kv.close();
+  }
+}
+
+type StoredEntry = {
+  key: StorageKey;
+  value: unknown;
+  versionstamp: string;
+  expiresAt: number | undefined;
+};
+
+type Mutation =
+  | { type: "set"; key: StorageKey; value: unknown; expireIn?: number }
+  | { type: "delete"; key: StorageKey }
+  | { type: "enqueue"; value: unknown; delay?: number };
+
+type Watcher = {
+  keys: readonly StorageKey[];
+  controller: ReadableStreamDefaultController<StorageEntryMaybe<unknown>[]>;
+};
+
+// Orders key parts by type and then by value, the same way Deno KV does
+const keyPartTypeOrder = [
+  "Uint8Array",
+  "string",
+  "number",
+  "bigint",
+  "boolean",
+  "symbol",
+];
+
+function getKeyPartType(part: StorageKeyPart): string {
+  return part instanceof Uint8Array ? "Uint8Array" : typeof part;
+}
+
+function compareKeyParts(a: StorageKeyPart, b: StorageKeyPart): number {
+  const typeA = getKeyPartType(a);
+  const typeB = getKeyPartType(b);
+  if (typeA !== typeB) {
+    return keyPartTypeOrder.indexOf(typeA) - keyPartTypeOrder.indexOf(typeB);
+  }
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      if (a[i] !== b[i]) {
+        return a[i] - b[i];
+      }
+    }
+    return a.length - b.length;
+  }
+  const valueA = typeof a === "symbol" ? String(a) : a;
+  const valueB = typeof b === "symbol" ? String(b) : b;
+  return valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+}
+
+function compareKeys(a: StorageKey, b: StorageKey): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const comparison = compareKeyParts(a[i], b[i]);
+    if (comparison !== 0) {
+      return comparison;
+    }
+  }
+  return a.length - b.length;
+}
+
+function serializeKey(key: StorageKey): string {
+  return JSON.stringify(
+    key.map((part) =>
+      part instanceof Uint8Array
+        ? ["Uint8Array", [...part]]
+        : [typeof part, String(part)]
+    ),
+  );
+}
+
+// A message enqueued in a MemoryStorage, due at a time by its clock
+export type QueuedMessage = {
+  dueAt: number;
+  value: unknown;
+};
+
+// A non-persistent Storage, useful for tests and single-process deployments.
+// Values are structured-cloned on the way in and out, like Deno KV.
+export class MemoryStorage implements Storage {
+  private entries = new Map<string, StoredEntry>();
+  private version = 0;
+  private watchers = new Set<Watcher>();
+  private queueHandler:
+    | ((value: unknown) => void | Promise<void>)
+    | undefined;
+  // Kept in delivery order
+  private queuedMessages: QueuedMessage[] = [];
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  private resolveListenQueue: (() => void) | undefined;
+  private isClosed = false;
+
+  constructor(
+    private readonly clock: Clock = systemClock,
+    private readonly logger: Logger = consoleLogger,
+  ) {}
+
+  get<T = unknown>(key: StorageKey): Promise<StorageEntryMaybe<T>> {
+    return Promise.resolve(this.getEntry<T>(key));
+  }
+
+  getMany<T extends readonly unknown[]>(
+    keys: readonly StorageKey[],
+  ): Promise<{ [K in keyof T]: StorageEntryMaybe<T[K]> }> {
+    return Promise.resolve(
+      keys.map((key) => this.getEntry(key)) as {
+        [K in keyof T]: StorageEntryMaybe<T[K]>;
+      },
+    );
+  }
+
+  async *list<T = unknown>(
+    selector: StorageListSelector,
+    options: StorageListOptions = {},
+  ): AsyncIterable<StorageEntry<T>> {
+    const matching = [...this.entries.values()]
+      .filter((entry) =>
+        !this.isExpired(entry) &&
+        entry.key.length > selector.prefix.length &&
+        compareKeys(
+            entry.key.slice(0, selector.prefix.length),
+            selector.prefix,
+          ) === 0 &&
+        (selector.start == null || compareKeys(entry.key, selector.start) >= 0)
+      )
+      .sort((a, b) => compareKeys(a.key, b.key));
+    if (options.reverse) {
+      matching.reverse();
+    }
+
+    const limited = options.limit == null
+      ? matching
+      : matching.slice(0, options.limit);
+    for (const entry of limited) {
+      yield {
+        key: entry.key,
+        value: structuredClone(entry.value) as T,
+        versionstamp: entry.versionstamp,
+      };
+    }
+  }
+
+  async delete(key: StorageKey): Promise<void> {
+    await this.atomic().delete(key).commit();
+  }
+
+  atomic(): AtomicOperation {
+    const checks: StorageCheck[] = [];
+    const mutations: Mutation[] = [];
+    const operation: AtomicOperation = {
+      check(...newChecks) {
+        checks.push(...newChecks);
+        return this;
+      },
+      set(key, value, options) {
+        mutations.push({ type: "set", key, value, ...options });
+        return this;
+      },
+      delete(key) {
+        mutations.push({ type: "delete", key });
+        return this;
+      },
+      enqueue(value, options) {
+        mutations.push({ type: "enqueue", value, ...options });
+        return this;
+      },
+      commit: () => Promise.resolve(this.commit(checks, mutations)),
+    };
+    return operation;
+  }
+
+  watch<T extends readonly unknown[]>(
+    keys: readonly StorageKey[],
+  ): ReadableStream<{ [K in keyof T]: StorageEntryMaybe<T[K]> }> {
+    let watcher: Watcher;
+    return new ReadableStream<StorageEntryMaybe<unknown>[]>({
+      start: (controller) => {
+        watcher = { keys, controller };
+        this.watchers.add(watcher);
+        controller.enqueue(keys.map((key) => this.getEntry(key)));
+      },
+      cancel: () => {
+        this.watchers.delete(watcher);
+      },
+    }) as ReadableStream<{ [K in keyof T]: StorageEntryMaybe<T[K]> }>;
+  }
+
+  async enqueue(value: unknown, options?: { delay?: number }): Promise<void> {
+    await this.atomic().enqueue(value, options).commit();
+  }
+
+  listenQueue(
+    handler: (value: unknown) => void | Promise<void>,
+  ): Promise<void> {
+    if (this.queueHandler != null) {
+      throw new Error("Already listening to the queue");
+    }
+    this.queueHandler = handler;
+    this.deliverDue();
+    return new Promise((resolve) => {
+      this.resolveListenQueue = resolve;
+    });
+  }
+
+  // Delivers the queued messages that have come due by the clock. Timers call
+  // this as messages come due, and tests that move a manual clock forward can
+  // call it themselves.
+  deliverDue(): void {
+    if (this.queueHandler == null) {
+      return;
+    }
+    let message = this.takeDue(this.clock.now().getTime());
+    while (message !== undefined) {
+      this.deliver(message.value);
+      message = this.takeDue(this.clock.now().getTime());
+    }
+  }
+
+  // Removes and returns the next queued message due at or before the time,
+  // for callers that deliver messages themselves
+  takeDue(time: number): QueuedMessage | undefined {
+    if (
+      this.queuedMessages.length === 0 || this.queuedMessages[0].dueAt > time
+    ) {
+      return undefined;
+    }
+    return this.queuedMessages.shift();
+  }
+
+  close(): void {
+    this.isClosed = true;
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    for (const watcher of this.watchers) {
+      watcher.controller.close();
+    }
+    this.watchers.clear();
+    this.resolveListenQueue?.();
+  }
+
+  private getEntry<T>(key: StorageKey): StorageEntryMaybe<T> {
+    const entry = this.entries.get(serializeKey(key));
+    if (entry == null || this.isExpired(entry)) {
+      return { key, value: null, versionstamp: null };
+    }
+    return {
+      key,
+      value: structuredClone(entry.value) as T,
+      versionstamp: entry.versionstamp,
+    };
+  }
+
+  private isExpired(entry: StoredEntry): boolean {
+    return entry.expiresAt !== undefined &&
+      entry.expiresAt <= this.clock.now().getTime();
+  }
+
+  private commit(
+    checks: StorageCheck[],
+    mutations: Mutation[],
+  ): StorageCommitResult {
+    if (this.isClosed) {
+      throw new Error("Storage is closed");
+    }
+    for (const check of checks) {
+      if (this.getEntry(check.key).versionstamp !== check.versionstamp) {
+        return { ok: false };
+      }
+    }
+
+    this.version++;
+    const versionstamp = this.version.toString(16).padStart(20, "0");
+    const changedKeys = new Set<string>();
+    for (const mutation of mutations) {
+      switch (mutation.type) {
+        case "set": {
+          const serializedKey = serializeKey(mutation.key);
+          this.entries.set(serializedKey, {
+            key: mutation.key,
+            value: structuredClone(mutation.value),
+            versionstamp,
+            expiresAt: mutation.expireIn === undefined
+              ? undefined
+              : this.clock.now().getTime() + mutation.expireIn,
+          });
+          changedKeys.add(serializedKey);
+          break;
+        }
+        case "delete": {
+          const serializedKey = serializeKey(mutation.key);
+          this.entries.delete(serializedKey);
+          changedKeys.add(serializedKey);
+          break;
+        }
+        case "enqueue": {
+          const delay = mutation.delay ?? 0;
+          const dueAt = this.clock.now().getTime() + delay;
+          this.queue({ dueAt, value: structuredClone(mutation.value) });
+          this.startTimer(dueAt, delay);
+          break;
+        }
+      }
+    }
+
+    for (const watcher of this.watchers) {
+      if (watcher.keys.some((key) => changedKeys.has(serializeKey(key)))) {
+        watcher.controller.enqueue(
+          watcher.keys.map((key) => this.getEntry(key)),
+        );
+      }
+    }
+    return { ok: true };
+  }
+
+  private queue(message: QueuedMessage) {
+    const index = this.queuedMessages.findIndex((m) => m.dueAt > message.dueAt);
+    if (index === -1) {
+      this.queuedMessages.push(message);
+    } else {
+      this.queuedMessages.splice(index, 0, message);
+    }
+  }
+
+  // Wakes up once the message should be due. A clock that hasn't moved as far
+  // as the timer leaves it queued, but a system clock lagging slightly behind
+  // is waited for.
+  private startTimer(dueAt: number, delay: number) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      const wait = dueAt - this.clock.now().getTime();
+      if (wait > 0 && wait < delay) {
+        this.startTimer(dueAt, wait);
+      } else {
+        this.deliverDue();
+      }
+    }, delay);
+    this.timers.add(timer);
+  }
+
+  private deliver(message: unknown) {
+    if (this.queueHandler == null) {
+      return;
+    }
+    // Like Deno KV, a failing handler doesn't stop the queue
+    const handler = this.queueHandler;
+    Promise.resolve()
+      .then(() => handler(message))
+      .catch((error) => {
+        this.logger.error("Queue handler failed", { error });
+      });
+  }
+}
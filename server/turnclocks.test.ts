@@ -0,0 +1,107 @@
+import { assertEquals } from "@std/assert";
+import {
+  createTurnClocks,
+  getExpiredPlayer,
+  getRemainingTimes,
+  getTimeUntilExpiry,
+  updateTurnClocks,
+} from "./turnclocks.ts";
+import type { TimeControl } from "../types.ts";
+
+const timeControl: TimeControl = {
+  initialTime: 10_000,
+  increment: 2_000,
+  delay: 1_000,
+};
+
+Deno.test("getRemainingTimes charges running clocks after the delay", () => {
+  const clocks = createTurnClocks(timeControl, 3, new Date(5_000));
+
+  assertEquals(
+    getRemainingTimes(clocks, timeControl, [1], new Date(5_500)),
+    [10_000, 10_000, 10_000],
+  );
+  assertEquals(
+    getRemainingTimes(clocks, timeControl, [1, 2], new Date(9_000)),
+    [10_000, 7_000, 7_000],
+  );
+  assertEquals(
+    getRemainingTimes(clocks, timeControl, [0], new Date(60_000)),
+    [0, 10_000, 10_000],
+  );
+});
+
+Deno.test("updateTurnClocks adds the increment to clocks that stop", () => {
+  const clocks = createTurnClocks(timeControl, 2, new Date(0));
+
+  const updated = updateTurnClocks(
+    clocks,
+    timeControl,
+    [0],
+    [1],
+    new Date(4_000),
+  );
+  assertEquals(updated, {
+    remaining: [9_000, 10_000],
+    updatedAt: 4_000,
+    startedAt: [4_000, 4_000],
+  });
+
+  // Clocks that keep running, or have run out, get no increment
+  const flagged = updateTurnClocks(
+    updated,
+    timeControl,
+    [0, 1],
+    [0],
+    new Date(20_000),
+  );
+  assertEquals(flagged, {
+    remaining: [0, 0],
+    updatedAt: 20_000,
+    startedAt: [4_000, 20_000],
+  });
+});
+
+Deno.test("Clocks that keep running across another player's move wait out the delay once", () => {
+  const clocks = createTurnClocks(timeControl, 2, new Date(0));
+
+  // Player 1 moves while player 0's clock keeps running
+  const updated = updateTurnClocks(
+    clocks,
+    timeControl,
+    [0, 1],
+    [0],
+    new Date(4_000),
+  );
+  assertEquals(updated.remaining, [7_000, 9_000]);
+  assertEquals(getTimeUntilExpiry(updated, timeControl, [0]), 7_000);
+
+  assertEquals(
+    getRemainingTimes(updated, timeControl, [0], new Date(6_000)),
+    [5_000, 9_000],
+  );
+  assertEquals(
+    getExpiredPlayer(updated, timeControl, [0], new Date(11_000)),
+    0,
+  );
+});
+
+Deno.test("getTimeUntilExpiry and getExpiredPlayer find the next clock to run out", () => {
+  const clocks = {
+    remaining: [0, 3_000, 5_000],
+    updatedAt: 1_000,
+    startedAt: [1_000, 1_000, 1_000],
+  };
+
+  assertEquals(getTimeUntilExpiry(clocks, timeControl, [0, 1, 2]), 4_000);
+  assertEquals(getTimeUntilExpiry(clocks, timeControl, [0]), undefined);
+
+  assertEquals(
+    getExpiredPlayer(clocks, timeControl, [0, 1, 2], new Date(4_999)),
+    undefined,
+  );
+  assertEquals(
+    getExpiredPlayer(clocks, timeControl, [0, 1, 2], new Date(5_000)),
+    1,
+  );
+});
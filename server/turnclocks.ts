@@ -0,0 +1,124 @@
+import type { TimeControl } from "../types.ts";
+
+// The clocks stored with a game. The clocks of the game's activePlayers are
+// running.
+export type StoredTurnClocks = {
+  // Milliseconds left on each player's clock at updatedAt
+  remaining: number[];
+  // Milliseconds since the epoch when the clocks were last updated
+  updatedAt: number;
+  // Milliseconds since the epoch when each running clock started running, so
+  // the delay is only waited once per turn
+  startedAt: number[];
+};
+
+// Enqueued whenever a running clock could next run out
+export type ClockCheck = {
+  type: "clockCheck";
+  gameId: string;
+};
+
+export function createTurnClocks(
+  timeControl: TimeControl,
+  numPlayers: number,
+  timestamp: Date,
+): StoredTurnClocks {
+  return {
+    remaining: Array(numPlayers).fill(timeControl.initialTime),
+    updatedAt: timestamp.getTime(),
+    startedAt: Array(numPlayers).fill(timestamp.getTime()),
+  };
+}
+
+// Returns when the running player's clock starts counting down, once its
+// delay since it started running has passed
+function getCountdownStart(
+  clocks: StoredTurnClocks,
+  timeControl: TimeControl,
+  playerId: number,
+): number {
+  return Math.max(
+    clocks.updatedAt,
+    clocks.startedAt[playerId] + (timeControl.delay ?? 0),
+  );
+}
+
+// Returns each player's time left at the timestamp. Running clocks are charged
+// for the time since the last update, less what's left of their delay.
+export function getRemainingTimes(
+  clocks: StoredTurnClocks,
+  timeControl: TimeControl,
+  running: number[],
+  timestamp: Date,
+): number[] {
+  return clocks.remaining.map((remaining, playerId) => {
+    if (!running.includes(playerId)) {
+      return remaining;
+    }
+    const elapsed = Math.max(
+      0,
+      timestamp.getTime() - getCountdownStart(clocks, timeControl, playerId),
+    );
+    return Math.max(0, remaining - elapsed);
+  });
+}
+
+// Charges the clocks that were running until the timestamp, and adds the
+// increment to those that stop running. Clocks that have run out stay at 0.
+export function updateTurnClocks(
+  clocks: StoredTurnClocks,
+  timeControl: TimeControl,
+  previouslyRunning: number[],
+  running: number[],
+  timestamp: Date,
+): StoredTurnClocks {
+  const remaining = getRemainingTimes(
+    clocks,
+    timeControl,
+    previouslyRunning,
+    timestamp,
+  ).map((remaining, playerId) =>
+    remaining > 0 && previouslyRunning.includes(playerId) &&
+      !running.includes(playerId)
+      ? remaining + (timeControl.increment ?? 0)
+      : remaining
+  );
+  const startedAt = remaining.map((_, playerId) =>
+    previouslyRunning.includes(playerId) && running.includes(playerId)
+      ? clocks.startedAt[playerId]
+      : timestamp.getTime()
+  );
+  return { remaining, updatedAt: timestamp.getTime(), startedAt };
+}
+
+// Returns the milliseconds from the last update until the first running clock
+// with time left runs out, or undefined if none can
+export function getTimeUntilExpiry(
+  clocks: StoredTurnClocks,
+  timeControl: TimeControl,
+  running: number[],
+): number | undefined {
+  const times = running
+    .filter((playerId) => clocks.remaining[playerId] > 0)
+    .map((playerId) =>
+      getCountdownStart(clocks, timeControl, playerId) - clocks.updatedAt +
+      clocks.remaining[playerId]
+    );
+  if (times.length === 0) {
+    return undefined;
+  }
+  return Math.min(...times);
+}
+
+// Returns a running player whose clock has run out since the last update
+export function getExpiredPlayer(
+  clocks: StoredTurnClocks,
+  timeControl: TimeControl,
+  running: number[],
+  timestamp: Date,
+): number | undefined {
+  const remaining = getRemainingTimes(clocks, timeControl, running, timestamp);
+  return running.find((playerId) =>
+    clocks.remaining[playerId] > 0 && remaining[playerId] === 0
+  );
+}
@@ -0,0 +1,14 @@
+export {
+  GameSimulation,
+  type SimulationExpectation,
+  type SimulationOptions,
+  type SimulationStep,
+} from "./server/simulation.ts";
+export type { MoveResult } from "./server/gamedata.ts";
+export {
+  type FuzzCheck,
+  type FuzzFailure,
+  fuzzGame,
+  type FuzzMove,
+  type FuzzOptions,
+} from "./server/fuzz.ts";
@@ -47,6 +47,43 @@ type StructuredCloneValue = AsStructuredClone<any>;
 export type User = {
   username: string;
   isGuest: boolean;
+  /** The player's rating in the game's mode when the game started, for rated modes */
+  rating?: number;
+  /** True for players seated by the server and played by the game's bot */
+  isBot?: boolean;
+};
+
+/** A user's rating in each rated mode, keyed by mode ID */
+export type Ratings = { [modeId: string]: number };
+
+export type PlayerResult = "win" | "loss" | "draw";
+
+export type UserStats = {
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  /** Consecutive wins when positive, or consecutive losses when negative */
+  streak: number;
+  /** The most consecutive wins */
+  bestStreak: number;
+};
+
+/** A user's statistics in each mode they have played, keyed by mode ID */
+export type UserStatsByMode = { [modeId: string]: UserStats };
+
+export type LeaderboardEntry = {
+  username: string;
+  stats: UserStats;
+};
+
+/** The top users of each mode by wins, keyed by mode ID */
+export type Leaderboards = { [modeId: string]: LeaderboardEntry[] };
+
+export type UserProfile = {
+  user: User;
+  ratings: Ratings;
+  stats: UserStatsByMode;
 };
 
 export type TokenData = {
@@ -54,10 +91,79 @@ export type TokenData = {
   expiration: Date;
 };
 
+export type AccountError =
+  /** The token is missing, expired, or unknown */
+  | "InvalidToken"
+  /** Only guests can register, which upgrades them in place */
+  | "AlreadyRegistered"
+  /** Usernames are 3 to 20 letters, digits, dashes or underscores, and can't start with "guest-" */
+  | "InvalidUsername"
+  | "UsernameTaken"
+  /** Passwords are at least 8 characters */
+  | "WeakPassword"
+  /** The username, password, or passkey didn't match an account */
+  | "InvalidCredentials"
+  /** The server wasn't configured with passkey options */
+  | "PasskeysDisabled";
+
+export type AccountResult =
+  | { ok: true; user: User; token: string }
+  | { ok: false; error: AccountError };
+
+/**
+ * Options for navigator.credentials.create. Binary values are base64url
+ * encoded.
+ */
+export type PasskeyRegistrationOptions = {
+  challenge: string;
+  rpId: string;
+  rpName: string;
+  /** The user handle for the account */
+  userHandle: string;
+  username: string;
+  /** COSE algorithm identifiers, in order of preference */
+  algorithms: number[];
+};
+
+/** Options for navigator.credentials.get. The challenge is base64url encoded. */
+export type PasskeyLoginOptions = {
+  challenge: string;
+  rpId: string;
+};
+
+/** The result of navigator.credentials.create, with base64url encoded values */
+export type PasskeyRegistrationResponse = {
+  id: string;
+  clientDataJSON: string;
+  attestationObject: string;
+};
+
+/** The result of navigator.credentials.get, with base64url encoded values */
+export type PasskeyLoginResponse = {
+  id: string;
+  clientDataJSON: string;
+  authenticatorData: string;
+  signature: string;
+};
+
+/**
+ * Deterministic source of randomness, seeded per game and per step so that
+ * replays reproduce exactly. Use this instead of Math.random().
+ */
+export type Random = {
+  /** Returns a float in the range [0, 1) */
+  random(): number;
+  /** Returns an integer in the range [min, max) */
+  integer(min: number, max: number): number;
+  /** Returns a shuffled copy of the provided items */
+  shuffle<T>(items: readonly T[]): T[];
+};
+
 export type SetupObject<Config> = {
   timestamp: Date;
   players: User[];
   config: Config;
+  random: Random;
 };
 
 export type MoveObject<Config, Move> = {
@@ -66,12 +172,66 @@ export type MoveObject<Config, Move> = {
   playerId: number;
   timestamp: Date;
   players: User[];
+  random: Random;
 };
 
 export type RefreshObject<Config> = {
   config: Config;
   timestamp: Date;
   players: User[];
+  random: Random;
+};
+
+export type TimeExpiredObject<Config> = {
+  config: Config;
+  playerId: number;
+  timestamp: Date;
+  players: User[];
+  random: Random;
+};
+
+export type PlayerLeftReason = "resigned" | "abandoned";
+
+export type PlayerLeftObject<Config> = {
+  config: Config;
+  playerId: number;
+  reason: PlayerLeftReason;
+  timestamp: Date;
+  players: User[];
+  random: Random;
+};
+
+/**
+ * Explains why a move was rejected. `reason` is a short code such as
+ * "not-your-turn", and `message` is an optional human-readable explanation.
+ */
+export type MoveRejection = {
+  reason: string;
+  message?: string;
+};
+
+/**
+ * Players can chat on both channels. Observers can only read and write the
+ * public channel.
+ */
+export type ChatChannel = "players" | "public";
+
+export type ChatMessage = {
+  id: string;
+  channel: ChatChannel;
+  /** The sender's player ID, or undefined if they are observing */
+  playerId: number | undefined;
+  username: string;
+  text: string;
+  /** Milliseconds since the epoch when the message was sent */
+  timestamp: number;
+};
+
+export type ChatFilterObject<Config> = {
+  config: Config;
+  channel: ChatChannel;
+  playerId: number | undefined;
+  players: User[];
 };
 
 export type PlayerStateObject<Config> = {
@@ -91,10 +251,109 @@ export type OutcomeObject<Config> = {
   players: User[];
 };
 
+export type ActivePlayersObject<Config> = {
+  config: Config;
+  players: User[];
+};
+
+export type SummaryObject<Config> = {
+  config: Config;
+  players: User[];
+};
+
+/**
+ * Enables rating tracking for a mode. Queued players are matched with others
+ * whose rating falls within a window that widens the longer they wait.
+ */
+export type RatingOptions = {
+  /** Maximum rating difference between matched players when they join the queue */
+  initialWindow: number;
+  /** How much the maximum rating difference grows for every second spent waiting */
+  windowGrowthPerSecond: number;
+};
+
 export type Mode<Config> = {
   numPlayers: number;
-  matchmaking: "queue";
+  matchmaking: "queue" | "invite";
   config: Config;
+  rating?: RatingOptions;
+  /**
+   * Milliseconds a player may be disconnected from a game before they are
+   * treated as having abandoned it. Requires the game to implement playerLeft.
+   */
+  disconnectTimeout?: number;
+  /**
+   * Gives each player a clock managed by the framework. Requires the game to
+   * implement activePlayers and timeExpired.
+   */
+  timeControl?: TimeControl;
+  /** Seats games of this mode with bots. Requires the game to implement bot. */
+  bots?: BotOptions;
+};
+
+export type TimeControl = {
+  /** Milliseconds on each player's clock when the game starts */
+  initialTime: number;
+  /** Milliseconds added to a player's clock each time it stops running */
+  increment?: number;
+  /**
+   * Milliseconds a player's clock waits each time it starts running before it
+   * counts down
+   */
+  delay?: number;
+};
+
+/** Each player's clock, for modes with a timeControl */
+export type TurnClocks = {
+  /** Milliseconds left on each player's clock at updatedAt, indexed by player ID */
+  remaining: number[];
+  /** IDs of the players whose clocks are running */
+  running: number[];
+  /** Milliseconds since the epoch when remaining was measured */
+  updatedAt: number;
+  /**
+   * Milliseconds since the epoch when each running clock started running,
+   * indexed by player ID
+   */
+  startedAt: number[];
+  /**
+   * Milliseconds after each clock starts running before it counts down. A
+   * running clock counts down from updatedAt or once its delay has passed,
+   * whichever is later.
+   */
+  delay: number;
+};
+
+export type BotOptions = {
+  /** Number of seats in every game filled by bots. Must be fewer than numPlayers. */
+  seats?: number;
+  /**
+   * Milliseconds a player may wait in the queue before the remaining seats
+   * are filled by bots.
+   */
+  fillAfter?: number;
+};
+
+/**
+ * A computer player, run on the server whenever the state of a game it is
+ * seated in changes.
+ */
+export type Bot<Move, PlayerState, PublicState> = {
+  /** Username shown for every seat the bot fills */
+  username: string;
+  /**
+   * Chooses the bot's next move.
+   *
+   * @param playerState - The bot's player state
+   * @param publicState - The game's public state
+   * @param playerId - The bot's player ID
+   * @returns The move to perform, or undefined to wait
+   */
+  chooseMove(
+    playerState: PlayerState,
+    publicState: PublicState,
+    playerId: number,
+  ): Move | undefined | Promise<Move | undefined>;
 };
 
 /**
@@ -135,9 +394,12 @@ export interface Game<
    *
    * @param state - Current immutable game state
    * @param o - Move object containing the move, player ID, configuration, timestamp, and player information
-   * @returns True if the move is valid, false otherwise
+   * @returns True if the move is valid, and false or a rejection explaining why otherwise
    */
-  isValidMove(state: Readonly<GameState>, o: MoveObject<Config, Move>): boolean;
+  isValidMove(
+    state: Readonly<GameState>,
+    o: MoveObject<Config, Move>,
+  ): boolean | MoveRejection;
 
   /**
    * Processes a player's move and updates the game state accordingly.
@@ -180,6 +442,20 @@ export interface Game<
     o: RefreshObject<Config>,
   ): Readonly<GameState>;
 
+  /**
+   * Updates the game state when a player leaves the game, either by resigning
+   * or by staying disconnected for longer than the mode's disconnectTimeout.
+   * Don't provide this function to ignore resignations and disconnections.
+   *
+   * @param state - Current immutable game state
+   * @param o - Player left object containing the player ID, reason, configuration, timestamp, and player information
+   * @returns Updated immutable game state
+   */
+  playerLeft?(
+    state: Readonly<GameState>,
+    o: PlayerLeftObject<Config>,
+  ): Readonly<GameState>;
+
   /**
    * Creates a player-specific view of the game state.
    * Can be used to hide information from players and provide a UI-friendly representation.
@@ -217,19 +493,210 @@ export interface Game<
   outcome(state: Readonly<GameState>, o: OutcomeObject<Config>):
     | Outcome
     | undefined;
+
+  /**
+   * Lists the players who are expected to act, such as the player whose turn
+   * it is. Lobbies show users the games waiting on them, and clocks run for
+   * these players in modes with a timeControl.
+   *
+   * @param state - Current immutable game state
+   * @param o - Active players object containing configuration and player information
+   * @returns IDs of the active players
+   */
+  activePlayers?(
+    state: Readonly<GameState>,
+    o: ActivePlayersObject<Config>,
+  ): number[];
+
+  /**
+   * Describes the current state in a few words, such as the score, for lists
+   * of active games. Must not reveal information hidden from observers.
+   *
+   * @param state - Current immutable game state
+   * @param o - Summary object containing configuration and player information
+   * @returns A short summary of the game
+   */
+  summary?(state: Readonly<GameState>, o: SummaryObject<Config>): string;
+
+  /**
+   * Updates the game state when a player's clock runs out, for modes with a
+   * timeControl. Typically used to end the game in a loss on time.
+   *
+   * @param state - Current immutable game state
+   * @param o - Time expired object containing the player ID, configuration, timestamp, and player information
+   * @returns Updated immutable game state
+   */
+  timeExpired?(
+    state: Readonly<GameState>,
+    o: TimeExpiredObject<Config>,
+  ): Readonly<GameState>;
+
+  /**
+   * Ranks the players once the game has an outcome.
+   * Used to update ratings for modes with rating enabled.
+   *
+   * @param outcome - The outcome returned by outcome
+   * @param o - Outcome object containing configuration and player information
+   * @returns Placement of each player indexed by player ID, where lower is better and tied players share a placement
+   */
+  placements?(outcome: Outcome, o: OutcomeObject<Config>): number[];
+
+  /**
+   * Maps the outcome to a result for each player.
+   * Used to keep each user's statistics and the leaderboards.
+   *
+   * @param outcome - The outcome returned by outcome
+   * @param o - Outcome object containing configuration and player information
+   * @returns Result of each player indexed by player ID
+   */
+  results?(outcome: Outcome, o: OutcomeObject<Config>): PlayerResult[];
+
+  /**
+   * Filters chat messages before they are stored and sent to other users.
+   * Don't provide this function to allow all messages.
+   *
+   * @param text - The text of the chat message
+   * @param o - Chat filter object containing the channel, sender's player ID, configuration, and player information
+   * @returns The text to send, possibly modified, or undefined to drop the message
+   */
+  filterChatMessage?(
+    text: string,
+    o: ChatFilterObject<Config>,
+  ): string | undefined;
+
+  /**
+   * Plays the seats filled by bots, for modes with bots enabled.
+   */
+  bot?: Bot<Move, PlayerState, PublicState>;
 }
 
 export type ActiveGame = {
   gameId: string;
+  modeId: string;
+  players: User[];
+  /** Milliseconds since the epoch when the game started */
+  startedAt: number;
+  /** Number of moves accepted so far */
+  moveCount: number;
+  /** The game's summary of its current state, if it defines one */
+  summary: string | undefined;
+  /** Whether the user is one of the game's activePlayers */
+  isYourTurn: boolean;
+};
+
+/** Narrows the active games returned by browseGames */
+export type GameBrowserOptions = {
+  modeId?: string;
+  /** Only games with a player who had this username when the game started */
+  username?: string;
+  /** Defaults to 20, and is at most 100 */
+  limit?: number;
+  /** The cursor returned with the previous page */
+  cursor?: string;
+};
+
+export type GameBrowserPage = {
+  /** Active games in the order they started */
+  games: ActiveGame[];
+  /** Pass to browseGames to get the next page, or undefined on the last page */
+  cursor: string | undefined;
+};
+
+/** A game that has an outcome */
+export type CompletedGame<Outcome> = {
+  gameId: string;
+  modeId: string;
+  players: User[];
+  /** Milliseconds since the epoch when the game started */
+  startedAt: number;
+  /** Milliseconds since the epoch when the game got its outcome */
+  completedAt: number;
+  moveCount: number;
+  outcome: Outcome;
+  /** Placement of each player, if the game defines placements */
+  placements: number[] | undefined;
+};
+
+/** A completed game that the user played */
+export type UserCompletedGame<Outcome> = CompletedGame<Outcome> & {
+  /** The user's player ID in the game */
+  playerId: number;
+};
+
+/** Narrows the completed games returned by listCompletedGames */
+export type CompletedGameOptions = {
+  modeId?: string;
+  /** Only games with a player who had this username when the game started */
+  username?: string;
+  /** Defaults to 20, and is at most 100 */
+  limit?: number;
+  /** The cursor returned with the previous page */
+  cursor?: string;
+};
+
+export type CompletedGamePage<Outcome> = {
+  /** Completed games, most recently completed first */
+  games: CompletedGame<Outcome>[];
+  /** Pass to listCompletedGames to get the next page, or undefined on the last page */
+  cursor: string | undefined;
+};
+
+export type PlayerPresence = {
+  playerId: number;
+  isConnected: boolean;
+  /** Milliseconds since the epoch when the player last connected or disconnected */
+  lastSeen: number;
+};
+
+export type ReplayStep<Move, PublicState> =
+  & (
+    | { type: "setup" }
+    | { type: "move"; playerId: number; move: Move }
+    | { type: "refresh" }
+    | { type: "playerLeft"; playerId: number; reason: PlayerLeftReason }
+    | { type: "timeExpired"; playerId: number }
+  )
+  & {
+    version: number;
+    timestamp: Date;
+    publicState: PublicState;
+  };
+
+export type LobbyMessage = {
+  id: string;
+  /** Announcements are sent by the server rather than a user */
+  kind: "chat" | "announcement";
+  /** The sender's username, or undefined for announcements */
+  username: string | undefined;
+  text: string;
+  /** Milliseconds since the epoch when the message was sent */
+  timestamp: number;
+};
+
+/** A game without an outcome that the user is playing */
+export type UserGame = ActiveGame & {
+  /** The user's player ID in the game */
+  playerId: number;
 };
 
 export type LobbyProps = {
   activeGames: ActiveGame[];
+  userGames: UserGame[];
   user: User;
+  ratings: Ratings;
+  stats: UserStatsByMode;
+  leaderboards: Leaderboards;
 };
 
 type CompletePlayerProps<PlayerState, PublicState, Outcome> = {
   players: User[];
+  presence: PlayerPresence[];
+  /** The game's version, which increases every time its state changes */
+  version: number;
+  /** IDs of the players expected to act, if the game defines activePlayers */
+  activePlayers: number[] | undefined;
+  /** Each player's clock, if the mode has a time control */
+  clocks: TurnClocks | undefined;
   publicState: PublicState;
   playerId: number;
   playerState: PlayerState;
@@ -238,6 +705,13 @@ type CompletePlayerProps<PlayerState, PublicState, Outcome> = {
 
 type IncompletePlayerProps<PlayerState, PublicState> = {
   players: User[];
+  presence: PlayerPresence[];
+  /** The game's version, which increases every time its state changes */
+  version: number;
+  /** IDs of the players expected to act, if the game defines activePlayers */
+  activePlayers: number[] | undefined;
+  /** Each player's clock, if the mode has a time control */
+  clocks: TurnClocks | undefined;
   publicState: PublicState;
   playerId: number;
   playerState: PlayerState;
@@ -246,6 +720,13 @@ type IncompletePlayerProps<PlayerState, PublicState> = {
 
 type CompleteObserverProps<PublicState, Outcome> = {
   players: User[];
+  presence: PlayerPresence[];
+  /** The game's version, which increases every time its state changes */
+  version: number;
+  /** IDs of the players expected to act, if the game defines activePlayers */
+  activePlayers: number[] | undefined;
+  /** Each player's clock, if the mode has a time control */
+  clocks: TurnClocks | undefined;
   publicState: PublicState;
   playerId: undefined;
   playerState: undefined;
@@ -254,6 +735,13 @@ type CompleteObserverProps<PublicState, Outcome> = {
 
 type IncompleteObserverProps<PublicState> = {
   players: User[];
+  presence: PlayerPresence[];
+  /** The game's version, which increases every time its state changes */
+  version: number;
+  /** IDs of the players expected to act, if the game defines activePlayers */
+  activePlayers: number[] | undefined;
+  /** Each player's clock, if the mode has a time control */
+  clocks: TurnClocks | undefined;
   publicState: PublicState;
   playerId: undefined;
   playerState: undefined;
@@ -268,11 +756,11 @@ export type GameProps<PlayerState, PublicState, Outcome> =
 
 type IncompletePlayerViewProps<Move, PlayerState, PublicState> =
   & IncompletePlayerProps<PlayerState, PublicState>
-  & { perform: (move: Move) => void };
+  & { perform: (move: Move) => Promise<void>; resign: () => void };
 
 type CompletePlayerViewProps<PlayerState, PublicState, Outcome> =
   & CompletePlayerProps<PlayerState, PublicState, Outcome>
-  & { perform: undefined };
+  & { perform: undefined; resign: undefined };
 
 type ObserveViewProps<PublicState, Outcome> =
   & (
@@ -281,16 +769,47 @@ type ObserveViewProps<PublicState, Outcome> =
       PublicState
     >
   )
-  & { perform: undefined };
+  & { perform: undefined; resign: undefined };
+
+/**
+ * Predicts the result of a move on the client, so it can be shown before the
+ * server responds. It must not depend on information hidden from the player.
+ * Return undefined if the result can't be predicted.
+ */
+export type PredictMove<Move, PlayerState, PublicState> = (
+  playerState: PlayerState,
+  publicState: PublicState,
+  move: Move,
+) => { playerState: PlayerState; publicState: PublicState } | undefined;
+
+type ChatViewProps = {
+  chatMessages: ChatMessage[];
+  sendChat: (text: string, channel?: ChatChannel) => void;
+};
 
 export type GameViewProps<Move, PlayerState, PublicState, Outcome> =
-  | CompletePlayerViewProps<PlayerState, PublicState, Outcome>
-  | IncompletePlayerViewProps<Move, PlayerState, PublicState>
-  | ObserveViewProps<PublicState, Outcome>;
+  & (
+    | CompletePlayerViewProps<PlayerState, PublicState, Outcome>
+    | IncompletePlayerViewProps<Move, PlayerState, PublicState>
+    | ObserveViewProps<PublicState, Outcome>
+  )
+  & ChatViewProps;
 
 export type LobbyViewProps = LobbyProps & {
   joinQueue: (queueId: string) => void;
   isQueued: boolean;
   leaveQueue: () => void;
+  createInvite: (modeId: string) => void;
+  joinInvite: (inviteCode: string) => void;
+  cancelInvite: () => void;
+  inviteCode: string | undefined;
+  invalidInviteCode: string | undefined;
   updateUsername: (username: string) => void;
+  lobbyMessages: LobbyMessage[];
+  sendLobbyMessage: (text: string) => void;
+  /** The user's completed games, most recent first, or undefined until loaded */
+  completedGames: UserCompletedGame<unknown>[] | undefined;
+  hasMoreCompletedGames: boolean;
+  /** Loads the first page of completed games, or the next page once loaded */
+  loadCompletedGames: () => void;
 };